@@ -1,29 +1,36 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { generateImageMetadata, enhanceImage, addTechToImage } from './services/geminiService';
-import { embedMetadata, resizeImage, upscaleImageToHeight, convertBlobToJpegDataURL, getImageDimensions, validateImageDimensions } from './services/imageProcessor';
-import type { Metadata, ProcessingOptions, GeoLocation, CompanyInfo, TagCategory } from './types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { generateImageMetadata, enhanceImage, suggestFocalPoint, detectSensitiveRegions, addTechToImage, setRequestsPerMinute } from './services/geminiService';
+import { isRetryableError, getBackoffDelay } from './services/jobQueue';
+import { embedMetadata, embedRenditionMetadata, getRenditionStandards, readSourceExif, carryHeicExif, DEFAULT_METADATA_STANDARDS, DEFAULT_EXIF_PRESERVATION, enhanceImageLocally, blobToDataURL, ENHANCEMENT_PRESETS, DEFAULT_ENHANCEMENT_SETTINGS, resizeImage, getCropRect, CROP_PRESETS, type FocalPoint, upscaleImageToHeight, convertBlobToJpegDataURL, getImageDimensions, validateImageDimensions } from './services/imageProcessor';
+import { getProviderSettings, saveProviderSettings } from './services/visionProvider';
+import { slugify, dedupeNames } from './services/textUtils';
+import { resolveUploadLocation } from './services/locationUtils';
+import { parseServiceAreasGeoJson, createRadiusArea } from './services/serviceAreas';
+import { buildRenditions, pickPrimaryRendition, getPrimaryProfile, isFormatSupported, DEFAULT_RENDITION_PROFILE, RENDITION_FORMATS, type Rendition, type RenditionMetadataWriter } from './services/renditions';
+import { buildSidecarFiles, DEFAULT_SIDECAR_EXPORTS, type SidecarImage } from './services/sidecars';
+import { parseImportTable, guessColumnMapping, buildMetadataImport, findImportedMetadata, isCompleteImport, IMPORT_COLUMNS, type ImportTable, type ColumnMapping } from './services/metadataImport';
+import { publishToWordPress, hashPublishContent, testWordPressConnection, getWordPressPassword, saveWordPressPassword, normalizeSiteUrl, DEFAULT_WORDPRESS_SETTINGS } from './services/wordpressPublisher';
+import { buildGbpPackage, buildGbpManifestJson, deriveGbpCategory, getGbpCategory, GBP_CATEGORIES } from './services/gbpExport';
+import { DEFAULT_LANGUAGES, getLanguageName, parseLanguageList, getMetadataLanguages, getLocalizedMetadata, setLocalizedField } from './services/locales';
+import { computePerceptualHash, findDuplicate, addToHashIndex } from './services/perceptualHash';
+import { compareImages, isDivergent } from './services/imageSimilarity';
+import { applyRedactions, createRedactionBox, clampBox, isUsableBox, DEFAULT_REDACTION_SETTINGS, REDACTION_TARGETS } from './services/redaction';
+import { applyBranding, hasBranding, readLogoFile, getLogoSize, getWatermarkText, getBrandingLayout, DEFAULT_BRANDING_SETTINGS, WATERMARK_POSITIONS, WATERMARK_TEXT_FIELDS, WATERMARK_FONT_FAMILY, WATERMARK_FONT_WEIGHT } from './services/branding';
+import { lintBatch, lintMetadata, hasLintErrors, type LintIssue } from './services/metadataLinter';
+import { DEFAULT_TAG_CATEGORY_NAMES, mergeTagCategories, flattenTagCategories, syncTagCategories, getUncategorizedTags, setCategoryTags } from './services/tagCategories';
+import { buildImageObject, resolveContentUrl, predictPrimaryFileName, toJsonLdDocument, toJsonLdScript } from './services/structuredData';
+import { loadGazetteer, saveGazetteer, mergeLocations, searchLocations, parseLocationFile, exportLocationsGeoJson } from './services/gazetteer';
+import { readEmbeddedMetadata, verifyEmbeddedMetadata } from './services/metadataReader';
+import { DEFAULT_PROMPT_TEMPLATES, getRequiredTags } from './services/promptTemplates';
+import { listProjects, getProject, saveProject, deleteProject, loadProjectImages, saveImage, deleteImage, getActiveProjectId, setActiveProjectId, toStoredImage, fromStoredImage } from './services/projectStore';
+import type { Metadata, LocalizedField, LintSettings, ImageHashEntry, EnhancementSettings, EnhancementReview, CropSettings, BrandingSettings, RedactionSettings, RedactionBox, ProcessingOptions, GeoLocation, CompanyInfo, TagCategory, ProviderSettings, VisionProviderId, PromptTemplate, ProcessedImage, Project, LocationStrategy, ServiceArea, LocationSampling, RenditionProfile, SidecarExports, MetadataImport, WordPressSettings, PublishRecord, QueueSettings, MetadataStandards, ExifPreservation, EmbeddedMetadata, MetadataVerification } from './types';
 
 // @ts-ignore
 import JSZip from 'jszip';
 
 
 type AppMode = 'tagger' | 'techAdder';
-type ImageStatus = 'pending' | 'generating' | 'enhancing' | 'embedding' | 'ready' | 'error';
-
-interface ProcessedImage {
-  id: string;
-  file: File;
-  previewUrl: string;
-  status: ImageStatus;
-  statusText: string;
-  metadata: Metadata | null;
-  enhancedImage: string | null; // base64 data url
-  finalImageBlob: Blob | null;
-  error: string | null;
-  appliedOptions: ProcessingOptions;
-  appliedLocation: GeoLocation;
-}
 
 const ALL_LOCATIONS: GeoLocation[] = [
     // Melbourne CBD & Inner Suburbs
@@ -92,19 +99,94 @@ const ALL_LOCATIONS: GeoLocation[] = [
 
 const DEFAULT_PRESET_LOCATIONS: GeoLocation[] = ALL_LOCATIONS.slice(0, 10);
 
+const DEFAULT_BUSINESS_NAME = 'Citywide Melbourne Appliance Repairs';
+
 
 // --- Helper Functions ---
 
-const slugify = (text: string): string => {
-    return text
-        .toString()
-        .toLowerCase()
-        .trim()
-        .replace(/\s+/g, '-')           // Replace spaces with -
-        .replace(/[^\w\-]+/g, '')       // Remove all non-word chars
-        .replace(/\-\-+/g, '-')         // Replace multiple - with single -
-        .replace(/^-+/, '')             // Trim - from start of text
-        .replace(/-+$/, '');            // Trim - from end of text
+// Boxes drawn in during processing are part of the pixels, so removing one means redoing the image stages.
+// A reverted image is redacted from the original on output and needs nothing.
+const needsRedactionRerun = (image: ProcessedImage): boolean =>
+    image.status === 'ready' && image.enhancement?.accepted !== false &&
+    (image.bakedRedactionIds || []).some(id => !(image.redactions || []).some(box => box.id === id));
+
+const queueRedactionRerun = (image: ProcessedImage): ProcessedImage =>
+    needsRedactionRerun(image) ? { ...image, keepMetadata: true, status: 'pending', statusText: 'Re-redacting...', attempts: 0, retryAt: null } : image;
+
+const createProject = (name: string): Project => ({
+    id: `project-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    companyInfo: {
+        name: DEFAULT_BUSINESS_NAME,
+        website: 'https://example.com',
+        phone: '',
+        address: ''
+    },
+    tagCategories: [
+        { category: 'Service', tags: ['appliance repair', 'commercial repair', 'domestic repair'] },
+        { category: 'Location', tags: ['Melbourne', 'Victoria', 'Australia'] }
+    ],
+    languages: DEFAULT_LANGUAGES,
+    customPresets: DEFAULT_PRESET_LOCATIONS,
+    serviceAreas: [],
+    locationSampling: {
+        serviceAreaId: null,
+        jitterMeters: 250,
+        minSpacingMeters: 50
+    },
+    currentLocation: DEFAULT_PRESET_LOCATIONS[0],
+    options: {
+        generateMetadata: true,
+        enhanceImage: true,
+        embedExif: true,
+        locationStrategy: 'fixed',
+        useManualMetadata: false,
+        localEnhance: false,
+        applyBranding: false,
+        redactPrivacy: false
+    },
+    metadataStandards: DEFAULT_METADATA_STANDARDS,
+    exifPreservation: DEFAULT_EXIF_PRESERVATION,
+    renditionProfile: DEFAULT_RENDITION_PROFILE,
+    sidecarExports: DEFAULT_SIDECAR_EXPORTS,
+    metadataImport: null,
+    wordPress: DEFAULT_WORDPRESS_SETTINGS,
+    queueSettings: {
+        concurrency: 2,
+        requestsPerMinute: 10,
+        maxRetries: 3
+    },
+    lintSettings: {
+        blockOnErrors: false
+    },
+    hashIndex: [],
+    enhancementSettings: DEFAULT_ENHANCEMENT_SETTINGS,
+    branding: DEFAULT_BRANDING_SETTINGS,
+    redactionSettings: DEFAULT_REDACTION_SETTINGS,
+    promptTemplates: DEFAULT_PROMPT_TEMPLATES,
+    selectedTemplateId: DEFAULT_PROMPT_TEMPLATES[0].id
+});
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+};
+
+// A single rendition downloads as-is; several are bundled into one ZIP
+const downloadRenditions = async (renditions: Rendition[], zipName: string) => {
+    if (renditions.length === 1) {
+        downloadBlob(renditions[0].blob, renditions[0].fileName);
+        return;
+    }
+    const zip = new JSZip();
+    renditions.forEach(rendition => zip.file(rendition.fileName, rendition.blob));
+    downloadBlob(await zip.generateAsync({ type: 'blob' }), zipName);
 };
 
 const handleFileConversion = async (file: File): Promise<File> => {
@@ -122,7 +204,7 @@ const handleFileConversion = async (file: File): Promise<File> => {
             });
             const convertedBlob = Array.isArray(conversionResult) ? conversionResult[0] : conversionResult;
             const newFileName = file.name.replace(/\.(heic|heif)$/i, '.jpeg');
-            return new File([convertedBlob], newFileName, { type: 'image/jpeg' });
+            return new File([await carryHeicExif(file, convertedBlob)], newFileName, { type: 'image/jpeg' });
         } catch (error) {
             console.error("HEIC conversion failed:", error);
             return file; 
@@ -134,14 +216,52 @@ const handleFileConversion = async (file: File): Promise<File> => {
 
 // --- Helper Components ---
 
+const PROVIDER_OPTIONS: { id: VisionProviderId, label: string, description: string }[] = [
+    { id: 'gemini', label: 'Gemini', description: 'Google AI Studio' },
+    { id: 'openai', label: 'OpenAI API', description: 'Any compatible server' },
+    { id: 'mock', label: 'Local Mock', description: 'Offline & deterministic' },
+];
+
+const LOCATION_STRATEGY_OPTIONS: { id: LocationStrategy, label: string, description: string }[] = [
+    { id: 'original', label: 'Photo GPS', description: "Keep each photo's own GPS, named after the nearest suburb (no GPS: selected location)" },
+    { id: 'nearestPreset', label: 'Nearest Preset', description: "Snap each photo's GPS to the closest of My Locations (no GPS: selected location)" },
+    { id: 'fixed', label: 'Fixed', description: 'Use the selected location for every image' },
+    { id: 'random', label: 'Randomized', description: 'Pick a random location from My Locations per image, jittered around it' },
+    { id: 'serviceArea', label: 'Service Area', description: 'Random point inside the selected service area (none selected: selected location)' },
+];
+
+const ENHANCEMENT_MODES: { label: string, description: string, localEnhance: boolean, enhanceImage: boolean }[] = [
+    { label: 'Off', description: 'Keep the photo as uploaded', localEnhance: false, enhanceImage: false },
+    { label: 'Local', description: 'White balance, exposure, levels, sharpening and denoise in the browser: free, deterministic, original resolution', localEnhance: true, enhanceImage: false },
+    { label: 'AI', description: 'Regenerate the photo with the AI image model (uses quota, may change details and resolution)', localEnhance: false, enhanceImage: true },
+    { label: 'Local + AI', description: 'Local corrections first, then the AI pass', localEnhance: true, enhanceImage: true },
+];
+
+const ENHANCEMENT_SLIDERS: [Exclude<keyof EnhancementSettings, 'preset'>, string][] = [
+    ['whiteBalance', 'White Bal.'],
+    ['exposure', 'Exposure'],
+    ['levels', 'Levels'],
+    ['sharpen', 'Sharpen'],
+    ['denoise', 'Denoise'],
+];
+
 const ApiKeyModal: React.FC<{ 
     isOpen: boolean;
     apiKeyInput: string;
     setApiKeyInput: (key: string) => void;
+    providerSettings: ProviderSettings;
+    setProviderSettings: (settings: ProviderSettings) => void;
+    openAiKeyInput: string;
+    setOpenAiKeyInput: (key: string) => void;
     onSave: () => void;
-}> = ({ isOpen, apiKeyInput, setApiKeyInput, onSave }) => {
+}> = ({ isOpen, apiKeyInput, setApiKeyInput, providerSettings, setProviderSettings, openAiKeyInput, setOpenAiKeyInput, onSave }) => {
     if (!isOpen) return null;
 
+    const provider = providerSettings.provider;
+    const canSave = provider === 'mock'
+        || (provider === 'gemini' && (apiKeyInput.trim().length > 0 || !!localStorage.getItem('GEMINI_API_KEY')))
+        || (provider === 'openai' && providerSettings.openAiBaseUrl.trim().length > 0 && providerSettings.openAiModel.trim().length > 0);
+
     return (
         <div className="fixed inset-0 bg-black/90 backdrop-blur-sm flex items-center justify-center p-4 z-50 selection:bg-cyan-500/30">
             <div className="bg-gradient-to-br from-slate-900 to-slate-800 rounded-3xl shadow-2xl border-2 border-cyan-500/30 p-8 max-w-md w-full animate-in fade-in zoom-in duration-300">
@@ -151,37 +271,104 @@ const ApiKeyModal: React.FC<{
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
                         </svg>
                     </div>
-                    <h2 className="text-2xl font-black text-white mb-2 tracking-tight">Enter Your API Key</h2>
-                    <p className="text-slate-400 text-sm leading-relaxed">Paste your Google Gemini API key below</p>
+                    <h2 className="text-2xl font-black text-white mb-2 tracking-tight">Choose Your AI Provider</h2>
+                    <p className="text-slate-400 text-sm leading-relaxed">All analysis, enhancement and synthesis runs through this backend</p>
+                </div>
+
+                <div className="grid grid-cols-3 gap-2 mb-6">
+                    {PROVIDER_OPTIONS.map(option => (
+                        <button
+                            key={option.id}
+                            onClick={() => setProviderSettings({ ...providerSettings, provider: option.id })}
+                            className={`p-3 rounded-xl border text-left transition-all ${provider === option.id ? 'bg-cyan-600/20 border-cyan-500' : 'bg-slate-900/50 border-slate-700 hover:border-slate-600'}`}
+                        >
+                            <div className="text-[10px] font-black text-white uppercase tracking-widest">{option.label}</div>
+                            <div className="text-[9px] text-slate-500 leading-tight mt-0.5">{option.description}</div>
+                        </button>
+                    ))}
                 </div>
                 
-                <div className="space-y-4 mb-6">
-                    <div>
-                        <label className="text-xs text-slate-400 uppercase tracking-wider font-bold mb-2 block">Gemini API Key</label>
-                        <input
-                            type="password"
-                            value={apiKeyInput}
-                            onChange={(e) => setApiKeyInput(e.target.value)}
-                            onKeyPress={(e) => e.key === 'Enter' && onSave()}
-                            placeholder="AIzaSy..."
-                            className="w-full bg-slate-900/50 border border-slate-700 rounded-xl py-3 px-4 text-white focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent transition-all font-mono text-sm"
-                            autoFocus
-                        />
+                {provider === 'gemini' && (
+                    <div className="space-y-4 mb-6">
+                        <div>
+                            <label className="text-xs text-slate-400 uppercase tracking-wider font-bold mb-2 block">Gemini API Key</label>
+                            <input
+                                type="password"
+                                value={apiKeyInput}
+                                onChange={(e) => setApiKeyInput(e.target.value)}
+                                onKeyPress={(e) => e.key === 'Enter' && onSave()}
+                                placeholder="AIzaSy..."
+                                className="w-full bg-slate-900/50 border border-slate-700 rounded-xl py-3 px-4 text-white focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent transition-all font-mono text-sm"
+                                autoFocus
+                            />
+                        </div>
+
+                        <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-4">
+                            <p className="text-xs text-slate-400 mb-2">📝 <span className="font-semibold">Don't have an API key?</span></p>
+                            <ol className="text-xs text-slate-400 space-y-1.5 ml-5 list-decimal">
+                                <li>Visit <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:text-cyan-300 underline">Google AI Studio</a></li>
+                                <li>Create a new API key (free tier available)</li>
+                                <li>Copy and paste it above</li>
+                            </ol>
+                        </div>
                     </div>
+                )}
 
-                    <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-4">
-                        <p className="text-xs text-slate-400 mb-2">📝 <span className="font-semibold">Don't have an API key?</span></p>
-                        <ol className="text-xs text-slate-400 space-y-1.5 ml-5 list-decimal">
-                            <li>Visit <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:text-cyan-300 underline">Google AI Studio</a></li>
-                            <li>Create a new API key (free tier available)</li>
-                            <li>Copy and paste it above</li>
-                        </ol>
+                {provider === 'openai' && (
+                    <div className="space-y-3 mb-6">
+                        <div>
+                            <label className="text-xs text-slate-400 uppercase tracking-wider font-bold mb-2 block">Base URL</label>
+                            <input
+                                type="url"
+                                value={providerSettings.openAiBaseUrl}
+                                onChange={(e) => setProviderSettings({ ...providerSettings, openAiBaseUrl: e.target.value })}
+                                placeholder="https://api.openai.com/v1"
+                                className="w-full bg-slate-900/50 border border-slate-700 rounded-xl py-3 px-4 text-white focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent transition-all font-mono text-sm"
+                            />
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label className="text-xs text-slate-400 uppercase tracking-wider font-bold mb-2 block">Vision Model</label>
+                                <input
+                                    type="text"
+                                    value={providerSettings.openAiModel}
+                                    onChange={(e) => setProviderSettings({ ...providerSettings, openAiModel: e.target.value })}
+                                    className="w-full bg-slate-900/50 border border-slate-700 rounded-xl py-3 px-4 text-white focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent transition-all font-mono text-sm"
+                                />
+                            </div>
+                            <div>
+                                <label className="text-xs text-slate-400 uppercase tracking-wider font-bold mb-2 block">Image Model</label>
+                                <input
+                                    type="text"
+                                    value={providerSettings.openAiImageModel}
+                                    onChange={(e) => setProviderSettings({ ...providerSettings, openAiImageModel: e.target.value })}
+                                    className="w-full bg-slate-900/50 border border-slate-700 rounded-xl py-3 px-4 text-white focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent transition-all font-mono text-sm"
+                                />
+                            </div>
+                        </div>
+                        <div>
+                            <label className="text-xs text-slate-400 uppercase tracking-wider font-bold mb-2 block">API Key (optional)</label>
+                            <input
+                                type="password"
+                                value={openAiKeyInput}
+                                onChange={(e) => setOpenAiKeyInput(e.target.value)}
+                                onKeyPress={(e) => e.key === 'Enter' && onSave()}
+                                placeholder="sk-..."
+                                className="w-full bg-slate-900/50 border border-slate-700 rounded-xl py-3 px-4 text-white focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent transition-all font-mono text-sm"
+                            />
+                        </div>
                     </div>
-                </div>
+                )}
+
+                {provider === 'mock' && (
+                    <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-4 mb-6">
+                        <p className="text-xs text-slate-400">🧪 <span className="font-semibold">No network calls.</span> Metadata is generated deterministically from each image and enhancement returns the original photo. Use it for offline work and CI runs.</p>
+                    </div>
+                )}
 
                 <button 
                     onClick={onSave}
-                    disabled={!apiKeyInput.trim()}
+                    disabled={!canSave}
                     className="w-full bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 disabled:from-slate-700 disabled:to-slate-700 disabled:cursor-not-allowed text-white font-black py-4 px-6 rounded-2xl transition-all shadow-xl hover:shadow-2xl hover:shadow-cyan-500/20 active:scale-[0.98] uppercase tracking-widest text-sm">
                     Save & Continue
                 </button>
@@ -256,36 +443,317 @@ const ImageCard: React.FC<{
     onDownload: (id: string) => void, 
     isDownloading: string | null,
     onRetry?: () => void,
+    onInspect?: (id: string) => void,
+    onPublish?: (id: string) => void,
+    onEnhancementReview?: (id: string, accepted: boolean) => void,
+    onCropChange?: (id: string, crop: CropSettings | null) => void,
+    onRedactionsChange?: (id: string, redactions: RedactionBox[]) => void,
+    onApplyCropToAll?: (aspect: number | null) => void,
+    onSuggestFocalPoint?: (id: string) => void,
+    isSuggestingFocalPoint?: boolean,
+    brandingPreview?: { settings: BrandingSettings, companyInfo: CompanyInfo, logoSize: { width: number, height: number } | null } | null,
+    isPublishing?: boolean,
+    jsonLd?: string,
+    lintIssues?: LintIssue[],
     showRetry?: boolean,
     isRetrying?: boolean
-}> = ({ image, onMetadataChange, onDownload, isDownloading, onRetry, showRetry = false, isRetrying = false }) => {
+}> = ({ image, onMetadataChange, onDownload, isDownloading, onRetry, onInspect, onPublish, onEnhancementReview, onCropChange, onRedactionsChange, onApplyCropToAll, onSuggestFocalPoint, isSuggestingFocalPoint = false, brandingPreview = null, isPublishing = false, jsonLd, lintIssues = [], showRetry = false, isRetrying = false }) => {
+    const [jsonLdCopied, setJsonLdCopied] = useState(false);
+    const [compareMode, setCompareMode] = useState<'off' | 'slider' | 'sideBySide'>('off');
+    const [comparePosition, setComparePosition] = useState(50);
+    const [previewSize, setPreviewSize] = useState<{ width: number, height: number } | null>(null);
+    const [focalDraft, setFocalDraft] = useState<FocalPoint | null>(null);
+    const [drawingBox, setDrawingBox] = useState(false);
+    const [boxDraft, setBoxDraft] = useState<{ start: FocalPoint, end: FocalPoint } | null>(null);
+    const [selectedLanguage, setSelectedLanguage] = useState<string | null>(null);
+    const metadataIssues = image.status === 'ready' ? image.verification?.issueCount ?? 0 : 0;
+    const embedFailures = image.status === 'ready' ? image.embedFailures ?? [] : [];
+    // Reprocessing to take a removed box back out, as opposed to a first run or a retry
+    const rerunning = !!image.keepMetadata && !['ready', 'error', 'cancelled'].includes(image.status);
+    const languages = image.metadata ? getMetadataLanguages(image.metadata) : [];
+    const language = selectedLanguage && languages.includes(selectedLanguage) ? selectedLanguage : languages[0];
+    const localized = image.metadata ? getLocalizedMetadata(image.metadata, language) : null;
+    const review = image.status === 'ready' && image.enhancedImage ? image.enhancement : null;
+    const reverted = review?.accepted === false;
+    const divergent = !!review && isDivergent(review);
+    const crop = onCropChange ? image.crop : null;
+    const focal = focalDraft || (crop ? { x: crop.focalX, y: crop.focalY } : null);
+    const cropRect = crop && focal && previewSize ? getCropRect(previewSize.width, previewSize.height, crop.aspect, focal) : null;
+    const brandedCrop = image.branded?.crop ?? null;
+    // The logo sits inside the crop it was drawn for; a different crop may cut it off
+    // Until branding is drawn into the pixels (or after reverting to the original), show where it will go
+    const previewBranding = brandingPreview && image.appliedOptions.applyBranding && previewSize && image.status !== 'duplicate'
+        && (image.status !== 'ready' || (reverted && !!image.branded));
+    const brandingLayout = previewBranding
+        ? getBrandingLayout(previewSize.width, previewSize.height, brandingPreview.settings, brandingPreview.companyInfo, image.branded?.crop ?? crop ?? null, brandingPreview.settings.logo ? brandingPreview.logoSize : null)
+        : null;
+    const brandingMisplaced = image.status === 'ready' && !!image.branded && !!crop && !(brandedCrop && brandedCrop.aspect === crop.aspect && brandedCrop.focalX === crop.focalX && brandedCrop.focalY === crop.focalY);
+
+    const pointerToImagePoint = (e: React.PointerEvent<HTMLDivElement>): FocalPoint => {
+        const bounds = e.currentTarget.getBoundingClientRect();
+        const clamp = (value: number) => Math.max(0, Math.min(1, value));
+        return { x: clamp((e.clientX - bounds.left) / bounds.width), y: clamp((e.clientY - bounds.top) / bounds.height) };
+    };
+
+    // The frame follows the pointer while dragging; the image only changes on release
+    const handleFocalRelease = () => {
+        if (focalDraft && crop) {
+            onCropChange?.(image.id, { ...crop, focalX: focalDraft.x, focalY: focalDraft.y, focalSource: 'manual' });
+        }
+        setFocalDraft(null);
+    };
+
+    const redactions = image.redactions || [];
+    const draftBox = boxDraft ? { id: 'draft', kind: 'manual' as const, ...clampBox({ x: boxDraft.start.x, y: boxDraft.start.y, width: boxDraft.end.x - boxDraft.start.x, height: boxDraft.end.y - boxDraft.start.y }) } : null;
+
+    // Drawing a blur box takes precedence over moving the focal point
+    const handlePreviewPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const point = pointerToImagePoint(e);
+        if (drawingBox) setBoxDraft({ start: point, end: point });
+        else setFocalDraft(point);
+    };
+
+    const handlePreviewPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const point = pointerToImagePoint(e);
+        if (boxDraft) setBoxDraft({ ...boxDraft, end: point });
+        else setFocalDraft(point);
+    };
+
+    const handlePreviewPointerUp = () => {
+        if (!boxDraft) return handleFocalRelease();
+        if (draftBox && isUsableBox(draftBox)) {
+            onRedactionsChange?.(image.id, [...redactions, createRedactionBox('manual', draftBox)]);
+        }
+        setBoxDraft(null);
+        setDrawingBox(false);
+    };
+
+    const handleCropAspect = (aspect: number | null) => {
+        onCropChange?.(image.id, aspect === null ? null : { focalX: 0.5, focalY: 0.5, focalSource: 'center', ...crop, aspect });
+    };
+
     const handleFieldChange = (field: keyof Metadata, value: string | string[]) => {
         if (image.metadata) {
             onMetadataChange(image.id, { ...image.metadata, [field]: value });
         }
     };
 
+    const handleLocalizedChange = (field: LocalizedField, value: string) => {
+        if (image.metadata) {
+            onMetadataChange(image.id, setLocalizedField(image.metadata, language, field, value));
+        }
+    };
+
     return (
         <div className="bg-slate-800 rounded-3xl p-5 flex flex-col md:flex-row gap-6 border border-slate-700 shadow-2xl hover:border-slate-600 transition-all group">
             <div className="flex-shrink-0 w-full md:w-1/3">
-                <div className="relative overflow-hidden rounded-2xl border border-slate-700 shadow-inner">
-                    <img src={image.enhancedImage || image.previewUrl} alt="Preview" className="w-full h-auto object-cover transform transition-transform group-hover:scale-105" />
-                    {image.status === 'ready' && image.appliedOptions.enhanceImage && (
-                        <div className="absolute top-3 right-3 bg-cyan-600 text-[9px] font-black px-2 py-1 rounded-lg uppercase tracking-widest shadow-xl">AI-Enhanced</div>
-                    )}
-                </div>
+                {review && compareMode === 'sideBySide' ? (
+                    <div className="grid grid-cols-2 gap-2">
+                        {[{ label: 'Original', src: image.previewUrl }, { label: 'Enhanced', src: image.enhancedImage! }].map(side => (
+                            <div key={side.label} className="relative overflow-hidden rounded-2xl border border-slate-700 shadow-inner">
+                                <img src={side.src} alt={side.label} className="w-full h-auto object-cover" />
+                                <div className="absolute bottom-2 left-2 bg-slate-900/80 text-[8px] font-black px-1.5 py-0.5 rounded uppercase tracking-widest text-slate-300">{side.label}</div>
+                            </div>
+                        ))}
+                    </div>
+                ) : review && compareMode === 'slider' ? (
+                    <div className="relative overflow-hidden rounded-2xl border border-slate-700 shadow-inner select-none">
+                        <img src={image.previewUrl} alt="Original" className="w-full h-auto object-cover" />
+                        <img src={image.enhancedImage!} alt="Enhanced" className="absolute inset-0 w-full h-full object-cover" style={{ clipPath: `inset(0 0 0 ${comparePosition}%)` }} />
+                        <div className="absolute inset-y-0 w-0.5 bg-white/80 shadow-xl pointer-events-none" style={{ left: `${comparePosition}%` }} />
+                        <div className="absolute bottom-2 left-2 bg-slate-900/80 text-[8px] font-black px-1.5 py-0.5 rounded uppercase tracking-widest text-slate-300">Original</div>
+                        <div className="absolute bottom-2 right-2 bg-slate-900/80 text-[8px] font-black px-1.5 py-0.5 rounded uppercase tracking-widest text-slate-300">Enhanced</div>
+                        <input type="range" min={0} max={100} value={comparePosition} onChange={(e) => setComparePosition(Number(e.target.value))} aria-label="Compare position"
+                            className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize" />
+                    </div>
+                ) : (
+                    <div className={`relative overflow-hidden rounded-2xl border border-slate-700 shadow-inner ${cropRect || drawingBox ? 'cursor-crosshair touch-none select-none' : ''}`}
+                        onPointerDown={cropRect || drawingBox ? handlePreviewPointerDown : undefined}
+                        onPointerMove={focalDraft || boxDraft ? handlePreviewPointerMove : undefined}
+                        onPointerUp={focalDraft || boxDraft ? handlePreviewPointerUp : undefined}>
+                        <img src={reverted ? image.previewUrl : image.enhancedImage || image.previewUrl} alt="Preview" draggable={false}
+                            onLoad={(e) => setPreviewSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                            className={`w-full h-auto object-cover transform transition-transform ${crop || brandingLayout || redactions.length > 0 || drawingBox ? '' : 'group-hover:scale-105'}`} />
+                        {onRedactionsChange && [...redactions, ...(draftBox ? [draftBox] : [])].map(box => (
+                            <div key={box.id} className="absolute border-2 border-dashed border-red-400/90 bg-red-500/10 pointer-events-none"
+                                style={{ left: `${box.x * 100}%`, top: `${box.y * 100}%`, width: `${box.width * 100}%`, height: `${box.height * 100}%` }}>
+                                <span className="absolute top-0 left-0 bg-red-500/80 text-[7px] font-black px-1 uppercase tracking-widest text-white">
+                                    {REDACTION_TARGETS.find(target => target.id === box.kind)?.label || 'Manual'}
+                                </span>
+                                {box.id !== 'draft' && (
+                                    <button onPointerDown={(e) => e.stopPropagation()} onClick={() => onRedactionsChange(image.id, redactions.filter(other => other.id !== box.id))}
+                                        title="Remove this blur box" className="pointer-events-auto absolute top-0 right-0 h-4 w-4 bg-slate-900/90 text-red-300 hover:text-white text-[10px] leading-none font-black">
+                                        ×
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                        {brandingLayout && brandingPreview && previewSize && (
+                            <svg viewBox={`0 0 ${previewSize.width} ${previewSize.height}`} className="absolute inset-0 w-full h-full pointer-events-none" opacity={brandingPreview.settings.opacity / 100}>
+                                {brandingLayout.logo && brandingPreview.settings.logo && (
+                                    <image href={brandingPreview.settings.logo} preserveAspectRatio="none" {...brandingLayout.logo} />
+                                )}
+                                {brandingLayout.text && (
+                                    <text x={brandingLayout.text.x} y={brandingLayout.text.y} fontSize={brandingLayout.text.fontSize} fontFamily={WATERMARK_FONT_FAMILY} fontWeight={WATERMARK_FONT_WEIGHT}
+                                        dominantBaseline="text-before-edge" fill="#ffffff" style={{ filter: `drop-shadow(0 0 ${Math.round(brandingLayout.text.fontSize * 0.15)}px rgba(0, 0, 0, 0.6))` }}>
+                                        {brandingLayout.text.value}
+                                    </text>
+                                )}
+                            </svg>
+                        )}
+                        {cropRect && previewSize && focal && (
+                            <>
+                                <div className="absolute border-2 border-white/80 pointer-events-none"
+                                    style={{
+                                        left: `${cropRect.sx / previewSize.width * 100}%`, top: `${cropRect.sy / previewSize.height * 100}%`,
+                                        width: `${cropRect.sw / previewSize.width * 100}%`, height: `${cropRect.sh / previewSize.height * 100}%`,
+                                        boxShadow: '0 0 0 9999px rgba(2, 6, 23, 0.6)',
+                                    }} />
+                                <div className="absolute h-3 w-3 -ml-1.5 -mt-1.5 rounded-full bg-cyan-400 border-2 border-white shadow-xl pointer-events-none"
+                                    style={{ left: `${focal.x * 100}%`, top: `${focal.y * 100}%` }} />
+                            </>
+                        )}
+                        {image.status === 'ready' && (image.appliedOptions.enhanceImage || image.appliedOptions.localEnhance) && (
+                            <div className={`absolute top-3 right-3 ${reverted ? 'bg-slate-600' : 'bg-cyan-600'} text-[9px] font-black px-2 py-1 rounded-lg uppercase tracking-widest shadow-xl`}>
+                                {reverted ? 'Original' : image.appliedOptions.enhanceImage ? (image.appliedOptions.localEnhance ? 'Enhanced + AI' : 'AI-Enhanced') : 'Enhanced'}
+                            </div>
+                        )}
+                        {image.status === 'ready' && image.branded && (
+                            <div className="absolute top-3 left-3 bg-slate-900/80 text-[9px] font-black px-2 py-1 rounded-lg uppercase tracking-widest shadow-xl text-slate-300">Branded</div>
+                        )}
+                    </div>
+                )}
+                {review && (
+                    <div className="mt-3 space-y-2">
+                        <div className="flex flex-wrap gap-1.5">
+                            {([['off', 'Result'], ['slider', 'Slider'], ['sideBySide', 'Side by Side']] as const).map(([mode, label]) => (
+                                <button key={mode} onClick={() => setCompareMode(mode)}
+                                    className={`px-2.5 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all border ${compareMode === mode ? 'bg-cyan-600/20 border-cyan-500 text-cyan-300' : 'bg-slate-900/50 border-slate-700 text-slate-500 hover:text-slate-300'}`}>
+                                    {label}
+                                </button>
+                            ))}
+                            {onEnhancementReview && (
+                                <button onClick={() => onEnhancementReview(image.id, reverted)}
+                                    title={reverted ? 'Embed and download the enhanced image' : 'Embed and download the original upload instead'}
+                                    className="ml-auto px-2.5 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all border bg-slate-900/50 border-slate-700 text-slate-400 hover:text-white">
+                                    {reverted ? 'Use Enhanced' : 'Revert to Original'}
+                                </button>
+                            )}
+                        </div>
+                        {review.similarity !== null && review.worstRegion !== null && (
+                            <p className={`text-[10px] font-mono p-2 rounded-lg border ${divergent ? 'text-amber-400/80 bg-amber-950/20 border-amber-900/30' : 'text-slate-500 bg-slate-900/50 border-slate-700/50'}`}
+                                title="Structural similarity to the original upload, overall and in the least similar part of the image">
+                                {Math.round(review.similarity * 100)}% similar · least similar area {Math.round(review.worstRegion * 100)}%
+                                {divergent && !reverted && '. The enhancement changed parts of the photo; check logos and text before using it'}
+                            </p>
+                        )}
+                    </div>
+                )}
+                {onCropChange && image.status !== 'duplicate' && (
+                    <div className="mt-3 space-y-2">
+                        <div className="flex flex-wrap gap-1.5">
+                            {[{ id: 'none', label: 'No Crop', aspect: null as number | null }, ...CROP_PRESETS].map(preset => {
+                                const active = preset.aspect === null ? !crop : !!crop && Math.abs(crop.aspect - preset.aspect) < 0.001;
+                                return (
+                                    <button key={preset.id} onClick={() => handleCropAspect(preset.aspect)}
+                                        className={`px-2.5 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all border ${active ? 'bg-cyan-600/20 border-cyan-500 text-cyan-300' : 'bg-slate-900/50 border-slate-700 text-slate-500 hover:text-slate-300'}`}>
+                                        {preset.label}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                        <div className="flex flex-wrap items-center gap-1.5">
+                            {crop && cropRect && (
+                                <span className="text-[9px] text-slate-500 font-mono" title="Click or drag on the photo to move the focal point">
+                                    {cropRect.sw}×{cropRect.sh} · focal {crop.focalSource === 'ai' ? 'AI' : crop.focalSource}
+                                </span>
+                            )}
+                            {crop && onSuggestFocalPoint && (
+                                <button onClick={() => onSuggestFocalPoint(image.id)} disabled={isSuggestingFocalPoint}
+                                    className="ml-auto px-2.5 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all border bg-slate-900/50 border-slate-700 text-slate-400 hover:text-white disabled:opacity-50">
+                                    {isSuggestingFocalPoint ? 'Finding Subject...' : 'AI Focal Point'}
+                                </button>
+                            )}
+                            {onApplyCropToAll && (
+                                <button onClick={() => onApplyCropToAll(crop ? crop.aspect : null)} title="Use this aspect ratio for every image; each keeps its own focal point"
+                                    className={`${crop && onSuggestFocalPoint ? '' : 'ml-auto '}px-2.5 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all border bg-slate-900/50 border-slate-700 text-slate-400 hover:text-white`}>
+                                    Apply to All
+                                </button>
+                            )}
+                        </div>
+                        {onRedactionsChange && (
+                            <div className="flex flex-wrap items-center gap-1.5">
+                                <span className="text-[9px] text-slate-500 font-mono">
+                                    {redactions.length > 0 ? `${redactions.length} ${redactions.length === 1 ? 'area' : 'areas'} blurred` : image.redactions ? 'No faces or plates found' : 'Nothing blurred'}
+                                </span>
+                                <button onClick={() => setDrawingBox(prev => !prev)} title="Drag a rectangle on the photo to blur it in every download"
+                                    className={`ml-auto px-2.5 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all border ${drawingBox ? 'bg-cyan-600/20 border-cyan-500 text-cyan-300' : 'bg-slate-900/50 border-slate-700 text-slate-400 hover:text-white'}`}>
+                                    {drawingBox ? 'Drag on Photo...' : 'Add Blur Box'}
+                                </button>
+                                {redactions.length > 0 && (
+                                    <button onClick={() => onRedactionsChange(image.id, [])}
+                                        className="px-2.5 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all border bg-slate-900/50 border-slate-700 text-slate-400 hover:text-red-400">
+                                        Clear
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                        {brandingMisplaced && (
+                            <p className="text-amber-400/80 text-[10px] font-mono bg-amber-950/20 p-2 rounded-lg border border-amber-900/30">
+                                The branding was placed for {brandedCrop ? 'a different crop' : 'the full photo'} and may be cut off.
+                                {onRetry && <button onClick={onRetry} className="ml-1 underline hover:text-amber-300">Reprocess</button>}
+                            </p>
+                        )}
+                    </div>
+                )}
                 <div className="mt-4 text-center">
                     <div className="inline-flex items-center gap-2 bg-slate-900/50 px-3 py-1 rounded-full border border-slate-700/50">
-                         <div className={`h-2.5 w-2.5 rounded-full ${image.status === 'ready' ? 'bg-green-400 shadow-[0_0_8px_rgba(74,222,128,0.5)]' : image.status === 'error' ? 'bg-red-400' : 'bg-cyan-400 animate-pulse'}`}></div>
+                         <div className={`h-2.5 w-2.5 rounded-full ${embedFailures.length > 0 ? 'bg-red-400' : metadataIssues > 0 ? 'bg-amber-400' : image.status === 'ready' ? 'bg-green-400 shadow-[0_0_8px_rgba(74,222,128,0.5)]' : image.status === 'error' ? 'bg-red-400' : image.status === 'cancelled' ? 'bg-slate-500' : image.status === 'duplicate' ? 'bg-amber-400' : rerunning ? 'bg-violet-400 animate-pulse' : 'bg-cyan-400 animate-pulse'}`}></div>
                          <p className="font-black text-slate-300 text-[10px] uppercase tracking-[0.15em]">{image.statusText}</p>
+                         {rerunning && (
+                             <span className="text-[9px] font-black text-violet-400 uppercase tracking-widest border-l border-slate-700 pl-2" title="Processing again to un-blur a removed box; the metadata is kept">Re-redact</span>
+                         )}
+                         {image.attempts > 1 && (
+                             <span className="text-[9px] font-black text-amber-400 uppercase tracking-widest border-l border-slate-700 pl-2" title="Processing attempts, including automatic retries">×{image.attempts}</span>
+                         )}
                     </div>
+                    {embedFailures.length > 0 && (
+                        <p className="text-red-400 text-[10px] mt-2 font-mono bg-red-950/20 p-2 rounded-lg border border-red-900/30">
+                            Embedding failed: the file has no {embedFailures.map(standard => standard.toUpperCase()).join(', ')} metadata
+                        </p>
+                    )}
+                    {metadataIssues > 0 && (
+                        <button onClick={() => onInspect?.(image.id)} className="block w-full text-amber-400/80 text-[10px] mt-2 font-mono bg-amber-950/20 p-2 rounded-lg border border-amber-900/30 hover:border-amber-700/50 transition-colors">
+                            {metadataIssues} metadata {metadataIssues === 1 ? 'field' : 'fields'} failed read-back
+                        </button>
+                    )}
+                    {image.publish?.status === 'published' && (
+                        <a href={image.publish.mediaUrl} target="_blank" rel="noopener noreferrer" className="block text-green-400/80 text-[10px] mt-2 font-mono bg-green-950/20 p-2 rounded-lg border border-green-900/30 hover:border-green-700/50 truncate" title={image.publish.mediaUrl}>
+                            WordPress media #{image.publish.mediaId}
+                        </a>
+                    )}
+                    {image.publish?.status === 'published' && image.publish.warning && <p className="text-amber-400 text-[10px] mt-2 font-mono bg-amber-950/20 p-2 rounded-lg border border-amber-900/30">WordPress: {image.publish.warning}</p>}
+                    {image.publish?.status === 'error' && <p className="text-red-400 text-[10px] mt-2 font-mono bg-red-950/20 p-2 rounded-lg border border-red-900/30">WordPress: {image.publish.error}</p>}
+                    {image.status === 'duplicate' && image.duplicate && (
+                        <p className="text-amber-400/80 text-[10px] mt-2 font-mono bg-amber-950/20 p-2 rounded-lg border border-amber-900/30">
+                            {image.duplicate.source === 'batch' ? 'Matches' : 'Processed before as'} {image.duplicate.matchName}; waiting for keep or skip
+                        </p>
+                    )}
+                    {image.status === 'pending' && image.error && <p className="text-amber-400/80 text-[10px] mt-2 font-mono bg-amber-950/20 p-2 rounded-lg border border-amber-900/30">{image.error}</p>}
                     {image.status === 'error' && <p className="text-red-400 text-[10px] mt-2 font-mono bg-red-950/20 p-2 rounded-lg border border-red-900/30">{image.error}</p>}
                 </div>
                 <div className="mt-4 bg-slate-900/80 p-4 rounded-2xl border border-slate-700/50">
                     <div className="flex items-center gap-2 mb-2">
                         <svg className="h-3.5 w-3.5 text-cyan-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" /></svg>
                         <span className="text-[10px] font-black text-cyan-400 uppercase tracking-widest">{image.appliedLocation.name || 'Geo Location'}</span>
+                        {['original', 'nearestPreset'].includes(image.appliedOptions.locationStrategy) && (image.sourceExif?.gps ? (
+                            <span className="ml-auto text-[8px] font-black text-green-400 uppercase tracking-widest border border-green-900/50 bg-green-950/30 px-1.5 py-0.5 rounded" title="Derived from the GPS stored in the original photo">From Photo</span>
+                        ) : (
+                            <span className="ml-auto text-[8px] font-black text-amber-400 uppercase tracking-widest border border-amber-900/50 bg-amber-950/30 px-1.5 py-0.5 rounded" title="The photo has no GPS of its own, so the selected location was used instead">No Photo GPS</span>
+                        ))}
                     </div>
+                    {image.appliedLocation.address && <p className="text-[9px] text-slate-500 mb-2">{image.appliedLocation.address}</p>}
                     <div className="space-y-1 text-[10px] text-slate-500 font-mono">
                         <div className="flex justify-between"><span>LATITUDE</span> <span className="text-slate-300">{image.appliedLocation.lat.toFixed(6)}</span></div>
                         <div className="flex justify-between"><span>LONGITUDE</span> <span className="text-slate-300">{image.appliedLocation.lng.toFixed(6)}</span></div>
@@ -293,16 +761,69 @@ const ImageCard: React.FC<{
                 </div>
             </div>
             <div className="flex-grow w-full md:w-2/3 space-y-4">
-                {image.metadata && (
+                {image.metadata && localized && (
                     <div className="grid grid-cols-1 gap-4">
-                        <EditableField label="SEO Filename" value={image.metadata.name} onChange={(val) => handleFieldChange('name', val)} />
-                        <EditableField label="Alt Description (WCAG)" value={image.metadata.altText} onChange={(val) => handleFieldChange('altText', val)} />
-                        <EditableField label="Marketing Caption" type="textarea" value={image.metadata.caption} onChange={(val) => handleFieldChange('caption', val)} />
-                        <EditableField label="Technical Description" type="textarea" value={image.metadata.description} onChange={(val) => handleFieldChange('description', val)} />
-                        <EditableField label="Keywords / Tags" value={image.metadata.tags.join(', ')} onChange={(val) => handleFieldChange('tags', val.split(',').map(t => t.trim()))} />
+                        {languages.length > 1 && (
+                            <div className="flex flex-wrap gap-1.5">
+                                {languages.map(code => (
+                                    <button key={code} onClick={() => setSelectedLanguage(code)} title={code === languages[0] ? `${getLanguageName(code)} (primary: used for filenames, EXIF and IPTC)` : getLanguageName(code)}
+                                        className={`px-2.5 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all border ${code === language ? 'bg-cyan-600/20 border-cyan-500 text-cyan-300' : 'bg-slate-900/50 border-slate-700 text-slate-500 hover:text-slate-300'}`}>
+                                        {code}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        <EditableField label={language === languages[0] ? 'SEO Filename' : 'SEO Title'} value={localized.name} onChange={(val) => handleLocalizedChange('name', val)} />
+                        <EditableField label="Alt Description (WCAG)" value={localized.altText} onChange={(val) => handleLocalizedChange('altText', val)} />
+                        <EditableField label="Marketing Caption" type="textarea" value={localized.caption} onChange={(val) => handleLocalizedChange('caption', val)} />
+                        <EditableField label="Technical Description" type="textarea" value={localized.description} onChange={(val) => handleLocalizedChange('description', val)} />
+                        {image.metadata.tagCategories?.length ? (
+                            <div className="space-y-2">
+                                {image.metadata.tagCategories.map(cat => (
+                                    <TagListField key={cat.category} label={`Tags · ${cat.category}`} tags={cat.tags} onChange={(tags) => onMetadataChange(image.id, setCategoryTags(image.metadata!, cat.category, tags))} />
+                                ))}
+                                <TagListField label="Tags · Uncategorized" tags={getUncategorizedTags(image.metadata)} onChange={(tags) => onMetadataChange(image.id, setCategoryTags(image.metadata!, null, tags))} />
+                            </div>
+                        ) : (
+                            <EditableField label="Keywords / Tags" value={image.metadata.tags.join(', ')} onChange={(val) => handleFieldChange('tags', val.split(',').map(t => t.trim()))} />
+                        )}
+                        <div>
+                            <label className="block text-[9px] font-black uppercase tracking-[0.2em] text-slate-500 mb-1.5">Google Business Profile Category</label>
+                            <select value={image.metadata.gbpCategory ?? ''} onChange={(e) => handleFieldChange('gbpCategory', e.target.value)}
+                                className="block w-full bg-slate-900/50 border border-slate-700 rounded-xl shadow-inner py-2 px-4 focus:outline-none focus:ring-2 focus:ring-cyan-500/20 focus:border-cyan-500/50 text-sm text-slate-200 transition-all cursor-pointer">
+                                {!image.metadata.gbpCategory && <option value="">Auto ({GBP_CATEGORIES.find(c => c.id === getGbpCategory(image.metadata!))?.label})</option>}
+                                {GBP_CATEGORIES.map(category => <option key={category.id} value={category.id}>{category.label}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                )}
+
+                {image.status === 'ready' && lintIssues.length > 0 && (
+                    <div className="bg-slate-900/50 rounded-xl border border-slate-700/50 px-4 py-3 space-y-1">
+                        <div className="text-[9px] font-black uppercase tracking-[0.2em] text-slate-500 mb-1">Metadata Lint</div>
+                        {lintIssues.map((issue, i) => (
+                            <div key={`${issue.rule}-${issue.field}-${i}`} className="flex gap-2 text-[10px]">
+                                <span className={`flex-shrink-0 w-14 font-black uppercase ${LINT_STYLES[issue.severity]}`}>{issue.severity}</span>
+                                <span className="flex-shrink-0 w-24 font-mono text-slate-500 truncate" title={issue.field}>{issue.field}</span>
+                                <span className="text-slate-300">{issue.message}</span>
+                            </div>
+                        ))}
                     </div>
                 )}
 
+                {image.status === 'ready' && jsonLd && (
+                    <details className="bg-slate-900/50 rounded-xl border border-slate-700/50">
+                        <summary className="cursor-pointer px-4 py-2 text-[9px] font-black uppercase tracking-[0.2em] text-slate-500 hover:text-slate-300">Schema.org JSON-LD</summary>
+                        <div className="px-4 pb-3">
+                            <pre className="text-[10px] text-slate-400 font-mono whitespace-pre-wrap break-all max-h-64 overflow-y-auto">{jsonLd}</pre>
+                            <button onClick={() => navigator.clipboard.writeText(jsonLd).then(() => { setJsonLdCopied(true); setTimeout(() => setJsonLdCopied(false), 1500); })}
+                                className="mt-2 text-[9px] font-black uppercase tracking-widest text-cyan-500 hover:text-cyan-300">
+                                {jsonLdCopied ? 'Copied' : 'Copy'}
+                            </button>
+                        </div>
+                    </details>
+                )}
+
                 <div className="flex flex-col gap-2 pt-4 border-t border-slate-700/50">
                     {image.status === 'ready' && (
                         <button onClick={() => onDownload(image.id)} disabled={isDownloading === image.id}
@@ -310,8 +831,20 @@ const ImageCard: React.FC<{
                             {isDownloading === image.id ? 'Optimizing Jpeg...' : 'Download SEO Master'}
                         </button>
                     )}
+                    {image.status === 'ready' && image.metadata && onInspect && (
+                        <button onClick={() => onInspect(image.id)} disabled={isDownloading === image.id}
+                                className="w-full bg-slate-900/50 hover:bg-slate-700 text-slate-400 hover:text-white font-black py-2 px-4 rounded-xl transition-all text-[10px] uppercase tracking-widest border border-slate-700 active:scale-95">
+                            Inspect Embedded Metadata
+                        </button>
+                    )}
+                    {image.status === 'ready' && image.metadata && onPublish && (
+                        <button onClick={() => onPublish(image.id)} disabled={isPublishing || image.publish?.status === 'publishing'}
+                                className="w-full bg-slate-900/50 hover:bg-slate-700 disabled:opacity-50 text-slate-400 hover:text-white font-black py-2 px-4 rounded-xl transition-all text-[10px] uppercase tracking-widest border border-slate-700 active:scale-95">
+                            {image.publish?.status === 'publishing' ? 'Publishing...' : image.publish?.status === 'published' ? 'Update on WordPress' : 'Publish to WordPress'}
+                        </button>
+                    )}
                     
-                    {(image.status === 'error' || (showRetry && image.status === 'ready')) && onRetry && (
+                    {(image.status === 'error' || image.status === 'cancelled' || (showRetry && image.status === 'ready')) && onRetry && (
                         <button onClick={onRetry} disabled={isRetrying} className="w-full bg-slate-700 hover:bg-slate-600 text-slate-300 font-black py-2 px-4 rounded-xl transition-all text-[10px] uppercase tracking-widest border border-slate-600 active:scale-95">
                             {isRetrying ? 'Processing Retry...' : (image.status === 'ready' ? 'Regenerate Composition' : 'Retry Image Analysis')}
                         </button>
@@ -338,6 +871,367 @@ const EditableField: React.FC<{ label: string, value: string, onChange: (value:
     );
 };
 
+/**
+ * Comma-separated tag list that is only parsed on blur, so typing a comma doesn't drop the empty tag in progress.
+ */
+const TagListField: React.FC<{ label: string, tags: string[], onChange: (tags: string[]) => void }> = ({ label, tags, onChange }) => {
+    const joined = tags.join(', ');
+    const [draft, setDraft] = useState(joined);
+    useEffect(() => setDraft(joined), [joined]);
+
+    return (
+        <div>
+            <label className="block text-[9px] font-black uppercase tracking-[0.2em] text-slate-500 mb-1.5">{label}</label>
+            <input
+                type="text"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={() => onChange(draft.split(',').map(t => t.trim()).filter(Boolean))}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className="block w-full bg-slate-900/50 border border-slate-700 rounded-xl shadow-inner py-2 px-4 focus:outline-none focus:ring-2 focus:ring-cyan-500/20 focus:border-cyan-500/50 text-sm text-slate-200 transition-all placeholder-slate-700"
+            />
+        </div>
+    );
+};
+
+const CHECK_STYLES: Record<MetadataVerification['checks'][number]['status'], string> = {
+    ok: 'text-green-400',
+    missing: 'text-red-400',
+    mismatch: 'text-amber-400',
+};
+
+const LINT_STYLES: Record<LintIssue['severity'], string> = {
+    error: 'text-red-400',
+    warning: 'text-amber-400',
+};
+
+const formatEmbeddedValue = (value: string | string[]): string => Array.isArray(value) ? value.join('; ') : value;
+
+const MetadataInspector: React.FC<{
+    title: string;
+    embedded: EmbeddedMetadata;
+    verification: MetadataVerification | null;
+    onClose: () => void;
+}> = ({ title, embedded, verification, onClose }) => {
+    const sections: { label: string, fields: [string, string][] }[] = [
+        { label: 'EXIF', fields: Object.entries(embedded.exif) },
+        { label: 'GPS', fields: embedded.gps ? [['Latitude', embedded.gps.lat.toFixed(6)], ['Longitude', embedded.gps.lng.toFixed(6)]] : [] },
+        { label: 'XMP', fields: Object.keys(embedded.xmp).map(key => [key, formatEmbeddedValue(embedded.xmp[key])]) },
+        { label: 'IPTC', fields: Object.keys(embedded.iptc).map(key => [key, formatEmbeddedValue(embedded.iptc[key])]) },
+    ];
+
+    return (
+        <div className="fixed inset-0 bg-black/90 backdrop-blur-sm flex items-center justify-center p-4 z-50" onClick={onClose}>
+            <div className="bg-gradient-to-br from-slate-900 to-slate-800 rounded-3xl shadow-2xl border-2 border-cyan-500/30 p-8 max-w-3xl w-full max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+                <div className="flex items-start justify-between gap-4 mb-6">
+                    <div>
+                        <h2 className="text-2xl font-black text-white tracking-tight">Metadata Inspector</h2>
+                        <p className="text-slate-400 text-xs font-mono mt-1 break-all">{title}</p>
+                    </div>
+                    <button onClick={onClose} className="text-slate-500 hover:text-white text-xs font-black uppercase tracking-widest">Close</button>
+                </div>
+
+                {verification && (
+                    <div className="mb-6">
+                        <h3 className={`text-[10px] font-black uppercase tracking-[0.2em] mb-3 ${verification.issueCount > 0 ? 'text-amber-400' : 'text-green-400'}`}>
+                            {verification.issueCount > 0 ? `Verification: ${verification.issueCount} of ${verification.checks.length} checks failed` : `Verification: all ${verification.checks.length} checks passed`}
+                        </h3>
+                        <div className="space-y-1">
+                            {verification.checks.map(check => (
+                                <div key={`${check.standard}-${check.field}`} className="grid grid-cols-[4rem_1fr_5rem] gap-2 text-[10px] font-mono bg-slate-900/50 px-3 py-2 rounded-lg border border-slate-700/50">
+                                    <span className="text-slate-500">{check.standard}</span>
+                                    <div className="min-w-0">
+                                        <div className="text-slate-300">{check.field}</div>
+                                        {check.status !== 'ok' && (
+                                            <div className="text-slate-500 break-words mt-1">
+                                                <div>expected: <span className="text-slate-400">{check.expected || '(empty)'}</span></div>
+                                                <div>found: <span className="text-slate-400">{check.actual ?? '(not present)'}</span></div>
+                                            </div>
+                                        )}
+                                    </div>
+                                    <span className={`text-right font-black uppercase ${CHECK_STYLES[check.status]}`}>{check.status}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                <div className="space-y-4">
+                    {sections.map(section => (
+                        <div key={section.label}>
+                            <h3 className="text-[10px] font-black uppercase tracking-[0.2em] text-cyan-400 mb-2">{section.label}</h3>
+                            {section.fields.length === 0 ? (
+                                <p className="text-[10px] text-slate-600 font-mono">No {section.label} data found.</p>
+                            ) : (
+                                <div className="space-y-1">
+                                    {section.fields.map(([key, value]) => (
+                                        <div key={key} className="grid grid-cols-[12rem_1fr] gap-2 text-[10px] font-mono">
+                                            <span className="text-slate-500 truncate" title={key}>{key}</span>
+                                            <span className="text-slate-300 break-words">{value}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const LintReportModal: React.FC<{
+    images: ProcessedImage[];
+    results: Record<string, LintIssue[]>;
+    blockOnErrors: boolean;
+    onBlockOnErrorsChange: (value: boolean) => void;
+    onClose: () => void;
+}> = ({ images, results, blockOnErrors, onBlockOnErrorsChange, onClose }) => {
+    const flagged = images.filter(img => results[img.id]?.length > 0);
+    const counts = new Map<string, number>();
+    flagged.forEach(img => results[img.id].forEach(issue => counts.set(issue.rule, (counts.get(issue.rule) || 0) + 1)));
+    const ruleCounts = [...counts].sort((a, b) => b[1] - a[1]);
+
+    return (
+        <div className="fixed inset-0 bg-black/90 backdrop-blur-sm flex items-center justify-center p-4 z-50" onClick={onClose}>
+            <div className="bg-gradient-to-br from-slate-900 to-slate-800 rounded-3xl shadow-2xl border-2 border-cyan-500/30 p-8 max-w-3xl w-full max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+                <div className="flex items-start justify-between gap-4 mb-6">
+                    <div>
+                        <h2 className="text-2xl font-black text-white tracking-tight">Metadata Lint Report</h2>
+                        <p className="text-slate-400 text-xs mt-1">{flagged.length} of {Object.keys(results).length} ready images have issues</p>
+                    </div>
+                    <button onClick={onClose} className="text-slate-500 hover:text-white text-xs font-black uppercase tracking-widest">Close</button>
+                </div>
+
+                <div className="mb-6">
+                    <ToggleSwitch label="Block Images with Errors" description="Leave them out of downloads, the GBP export and WordPress publishing until fixed" checked={blockOnErrors} onChange={onBlockOnErrorsChange} />
+                </div>
+
+                {ruleCounts.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5 mb-6">
+                        {ruleCounts.map(([rule, count]) => (
+                            <span key={rule} className="text-[9px] font-mono bg-slate-900/50 border border-slate-700/50 px-2 py-1 rounded-lg text-slate-400">{rule} ×{count}</span>
+                        ))}
+                    </div>
+                )}
+
+                <div className="space-y-4">
+                    {flagged.map(image => (
+                        <div key={image.id}>
+                            <h3 className={`text-[10px] font-black uppercase tracking-[0.2em] mb-2 break-all ${hasLintErrors(results[image.id]) ? 'text-red-400' : 'text-amber-400'}`}>{image.metadata?.name || image.file.name}</h3>
+                            <div className="space-y-1">
+                                {results[image.id].map((issue, i) => (
+                                    <div key={`${issue.rule}-${issue.field}-${i}`} className="grid grid-cols-[4rem_8rem_1fr] gap-2 text-[10px] font-mono bg-slate-900/50 px-3 py-2 rounded-lg border border-slate-700/50">
+                                        <span className={`font-black uppercase ${LINT_STYLES[issue.severity]}`}>{issue.severity}</span>
+                                        <span className="text-slate-500 truncate" title={issue.field}>{issue.field}</span>
+                                        <span className="text-slate-300 break-words">{issue.message}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Uploads held as duplicates, grouped by the photo they match, each with a keep/skip choice.
+ */
+const DuplicateReview: React.FC<{
+    images: ProcessedImage[];
+    onKeep: (ids: string[]) => void;
+    onSkip: (ids: string[]) => void;
+}> = ({ images, onKeep, onSkip }) => {
+    const held = images.filter(img => img.status === 'duplicate' && img.duplicate);
+    if (held.length === 0) return null;
+
+    const groups = new Map<string, ProcessedImage[]>();
+    held.forEach(img => {
+        const key = img.duplicate!.source === 'batch' ? img.duplicate!.matchId! : `project:${img.duplicate!.matchName}`;
+        groups.set(key, [...(groups.get(key) || []), img]);
+    });
+
+    return (
+        <div className="mb-8 p-5 rounded-3xl bg-amber-950/10 border border-amber-900/40">
+            <div className="flex items-center justify-between gap-4 mb-4">
+                <div>
+                    <h3 className="text-[10px] font-black uppercase tracking-[0.2em] text-amber-400">{held.length} Possible {held.length === 1 ? 'Duplicate' : 'Duplicates'}</h3>
+                    <p className="text-[9px] text-slate-500 mt-1">Held back before any AI calls. Keep to process, skip to remove from the batch.</p>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                    <button onClick={() => onKeep(held.map(img => img.id))} className="bg-slate-700 hover:bg-slate-600 text-slate-200 px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all">Keep All</button>
+                    <button onClick={() => onSkip(held.map(img => img.id))} className="bg-amber-600/80 hover:bg-amber-500 text-white px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all">Skip All</button>
+                </div>
+            </div>
+            <div className="space-y-3">
+                {[...groups.entries()].map(([key, duplicates]) => {
+                    const match = duplicates[0].duplicate!;
+                    const original = match.source === 'batch' ? images.find(img => img.id === match.matchId) : undefined;
+                    return (
+                        <div key={key} className="flex flex-wrap items-start gap-3 bg-slate-900/50 p-3 rounded-2xl border border-slate-700/50">
+                            <div className="w-28">
+                                {original ? (
+                                    <img src={original.enhancedImage || original.previewUrl} alt={match.matchName} className="w-28 h-20 object-cover rounded-xl border border-slate-700" />
+                                ) : (
+                                    <div className="w-28 h-20 rounded-xl border border-dashed border-slate-700 flex items-center justify-center text-[8px] text-slate-500 font-black uppercase tracking-widest text-center p-2">
+                                        {match.source === 'batch' ? 'No longer in batch' : match.processedAt ? `Processed ${new Date(match.processedAt).toLocaleDateString()}` : 'Processed earlier'}
+                                    </div>
+                                )}
+                                <p className="text-[9px] text-slate-400 font-mono mt-1 truncate" title={match.matchName}>{match.matchName}</p>
+                            </div>
+                            {duplicates.map(img => (
+                                <div key={img.id} className="w-28">
+                                    <img src={img.previewUrl} alt={img.file.name} className="w-28 h-20 object-cover rounded-xl border border-amber-700/50" />
+                                    <p className="text-[9px] text-slate-400 font-mono mt-1 truncate" title={img.file.name}>{img.file.name}</p>
+                                    <p className="text-[8px] text-amber-400/80 font-black uppercase tracking-widest">{img.duplicate!.distance === 0 ? 'Identical' : `${img.duplicate!.distance} bits apart`}</p>
+                                    <div className="flex gap-1 mt-1">
+                                        <button onClick={() => onKeep([img.id])} className="flex-1 bg-slate-700 hover:bg-slate-600 text-slate-200 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest">Keep</button>
+                                        <button onClick={() => onSkip([img.id])} className="flex-1 bg-amber-600/70 hover:bg-amber-500 text-white py-1 rounded-lg text-[8px] font-black uppercase tracking-widest">Skip</button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+const WordPressModal: React.FC<{
+    settings: WordPressSettings;
+    password: string;
+    onSave: (settings: WordPressSettings, password: string) => void;
+    onClose: () => void;
+}> = ({ settings, password, onSave, onClose }) => {
+    const [draft, setDraft] = useState<WordPressSettings>(settings);
+    const [draftPassword, setDraftPassword] = useState(password);
+    const [testResult, setTestResult] = useState<{ ok: boolean, message: string } | null>(null);
+    const [isTesting, setIsTesting] = useState(false);
+
+    const handleTest = async () => {
+        setIsTesting(true);
+        setTestResult(null);
+        try {
+            const name = await testWordPressConnection(draft, draftPassword);
+            setTestResult({ ok: true, message: `Connected as ${name}` });
+        } catch (e) {
+            setTestResult({ ok: false, message: e instanceof Error ? e.message : 'Connection failed' });
+        } finally {
+            setIsTesting(false);
+        }
+    };
+
+    const inputClass = "w-full bg-slate-900/50 border border-slate-700 rounded-xl py-3 px-4 text-white focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent transition-all font-mono text-sm";
+
+    return (
+        <div className="fixed inset-0 bg-black/90 backdrop-blur-sm flex items-center justify-center p-4 z-50" onClick={onClose}>
+            <div className="bg-gradient-to-br from-slate-900 to-slate-800 rounded-3xl shadow-2xl border-2 border-cyan-500/30 p-8 max-w-md w-full" onClick={e => e.stopPropagation()}>
+                <div className="flex items-start justify-between gap-4 mb-6">
+                    <div>
+                        <h2 className="text-2xl font-black text-white tracking-tight">WordPress Publishing</h2>
+                        <p className="text-slate-400 text-xs mt-1">Uploads to the media library with title, alt text, caption and description set</p>
+                    </div>
+                    <button onClick={onClose} className="text-slate-500 hover:text-white text-xs font-black uppercase tracking-widest">Close</button>
+                </div>
+
+                <div className="space-y-3 mb-6">
+                    <div>
+                        <label className="text-xs text-slate-400 uppercase tracking-wider font-bold mb-2 block">Site URL</label>
+                        <input type="url" value={draft.siteUrl} placeholder="https://example.com" className={inputClass}
+                            onChange={e => {
+                                setDraft({ ...draft, siteUrl: e.target.value });
+                                setDraftPassword(getWordPressPassword(e.target.value) || draftPassword);
+                            }} />
+                    </div>
+                    <div>
+                        <label className="text-xs text-slate-400 uppercase tracking-wider font-bold mb-2 block">Username</label>
+                        <input type="text" value={draft.username} onChange={e => setDraft({ ...draft, username: e.target.value })} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="text-xs text-slate-400 uppercase tracking-wider font-bold mb-2 block">Application Password</label>
+                        <input type="password" value={draftPassword} onChange={e => setDraftPassword(e.target.value)} placeholder="xxxx xxxx xxxx xxxx xxxx xxxx" className={inputClass} />
+                        <p className="text-[10px] text-slate-500 mt-2">Create one under Users → Profile → Application Passwords. It is stored in this browser only.</p>
+                    </div>
+                    {testResult && (
+                        <p className={`text-[10px] font-mono p-2 rounded-lg border ${testResult.ok ? 'text-green-400 bg-green-950/20 border-green-900/30' : 'text-red-400 bg-red-950/20 border-red-900/30'}`}>{testResult.message}</p>
+                    )}
+                </div>
+
+                <div className="flex justify-end gap-3">
+                    <button onClick={handleTest} disabled={isTesting}
+                        className="px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-300 border border-slate-700 hover:border-cyan-600/50 disabled:opacity-40">
+                        {isTesting ? 'Testing...' : 'Test Connection'}
+                    </button>
+                    <button onClick={() => onSave({ siteUrl: normalizeSiteUrl(draft.siteUrl), username: draft.username.trim() }, draftPassword)}
+                        className="bg-cyan-600 hover:bg-cyan-500 px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest text-white transition-all">
+                        Save
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const MetadataImportModal: React.FC<{
+    fileName: string;
+    table: ImportTable;
+    initialMapping: ColumnMapping;
+    initialSkipAi: boolean;
+    onConfirm: (mapping: ColumnMapping, skipAiWhenComplete: boolean) => void;
+    onClose: () => void;
+}> = ({ fileName, table, initialMapping, initialSkipAi, onConfirm, onClose }) => {
+    const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+    const [skipAi, setSkipAi] = useState(initialSkipAi);
+    const preview = table.records.slice(0, 3);
+
+    return (
+        <div className="fixed inset-0 bg-black/90 backdrop-blur-sm flex items-center justify-center p-4 z-50" onClick={onClose}>
+            <div className="bg-gradient-to-br from-slate-900 to-slate-800 rounded-3xl shadow-2xl border-2 border-cyan-500/30 p-8 max-w-3xl w-full max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+                <div className="flex items-start justify-between gap-4 mb-6">
+                    <div>
+                        <h2 className="text-2xl font-black text-white tracking-tight">Import Metadata</h2>
+                        <p className="text-slate-400 text-xs font-mono mt-1 break-all">{fileName} · {table.records.length} rows</p>
+                    </div>
+                    <button onClick={onClose} className="text-slate-500 hover:text-white text-xs font-black uppercase tracking-widest">Close</button>
+                </div>
+
+                <h3 className="text-[10px] font-black uppercase tracking-[0.2em] text-cyan-400 mb-3">Column Mapping</h3>
+                <div className="space-y-2 mb-6">
+                    {IMPORT_COLUMNS.map(column => (
+                        <div key={column.id} className="grid grid-cols-[8rem_1fr_1fr] gap-3 items-center text-[10px]">
+                            <span className="font-black uppercase tracking-widest text-slate-300">{column.label}{column.id === 'fileName' && ' *'}</span>
+                            <select value={mapping[column.id] ?? ''}
+                                onChange={e => setMapping(prev => ({ ...prev, [column.id]: e.target.value || null }))}
+                                className="bg-slate-900/50 border border-slate-700 rounded-xl py-1.5 px-3 text-[10px] text-white focus:outline-none cursor-pointer">
+                                <option value="">(not imported)</option>
+                                {table.headers.map(header => <option key={header} value={header}>{header}</option>)}
+                            </select>
+                            <span className="text-slate-500 font-mono truncate" title={preview.map(record => mapping[column.id] ? record[mapping[column.id]!] : '').join(' | ')}>
+                                {mapping[column.id] ? preview[0]?.[mapping[column.id]!] || '(empty)' : ''}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="mb-6">
+                    <ToggleSwitch label="Skip AI for Complete Rows" description="Rows with title, description, alt text, caption and tags filled are used as-is, without an AI call" checked={skipAi} onChange={setSkipAi} />
+                </div>
+
+                <div className="flex justify-end gap-3">
+                    <button onClick={onClose} className="px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white">Cancel</button>
+                    <button onClick={() => onConfirm(mapping, skipAi)} disabled={!mapping.fileName}
+                        className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-slate-700 disabled:text-slate-500 px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest text-white transition-all">
+                        Import
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
 const ToggleSwitch: React.FC<{ label: string, description: string, checked: boolean, onChange: (val: boolean) => void }> = ({ label, description, checked, onChange }) => (
     <div className="flex items-center justify-between p-3 rounded-2xl bg-slate-700/20 border border-slate-700 hover:border-slate-600 transition-colors">
         <div className="flex flex-col pr-4">
@@ -359,19 +1253,11 @@ const TagCategoryManager: React.FC<{
 }> = ({ categories, onChange }) => {
     const [newTag, setNewTag] = useState('');
     const [selectedCategory, setSelectedCategory] = useState('Service');
+    const categoryNames = [...new Set([...DEFAULT_TAG_CATEGORY_NAMES, ...categories.map(c => c.category)])];
 
     const addTag = () => {
-        if (!newTag.trim()) return;
-        const categoryIndex = categories.findIndex(c => c.category === selectedCategory);
-        if (categoryIndex >= 0) {
-            const updated = [...categories];
-            if (!updated[categoryIndex].tags.includes(newTag.trim())) {
-                updated[categoryIndex].tags.push(newTag.trim());
-                onChange(updated);
-            }
-        } else {
-            onChange([...categories, { category: selectedCategory, tags: [newTag.trim()] }]);
-        }
+        if (!newTag.trim() || !selectedCategory.trim()) return;
+        onChange(mergeTagCategories(categories, [{ category: selectedCategory, tags: [newTag] }]));
         setNewTag('');
     };
 
@@ -388,17 +1274,18 @@ const TagCategoryManager: React.FC<{
     return (
         <div className="space-y-4">
             <div className="flex gap-2">
-                <select 
+                <input
+                    type="text"
+                    list="tag-category-names"
                     value={selectedCategory}
                     onChange={(e) => setSelectedCategory(e.target.value)}
-                    className="flex-shrink-0 bg-slate-900/50 border border-slate-700 rounded-xl py-2 px-3 text-[11px] text-white focus:outline-none"
-                >
-                    <option value="Service">Service</option>
-                    <option value="Product">Product</option>
-                    <option value="Location">Location</option>
-                    <option value="Industry">Industry</option>
-                    <option value="Feature">Feature</option>
-                </select>
+                    placeholder="Category"
+                    title="Pick a category or type a new one"
+                    className="w-28 flex-shrink-0 bg-slate-900/50 border border-slate-700 rounded-xl py-2 px-3 text-[11px] text-white focus:outline-none"
+                />
+                <datalist id="tag-category-names">
+                    {categoryNames.map(name => <option key={name} value={name} />)}
+                </datalist>
                 <input
                     type="text"
                     value={newTag}
@@ -439,45 +1326,195 @@ const TagCategoryManager: React.FC<{
 };
 
 
+const PromptTemplateEditor: React.FC<{
+    templates: PromptTemplate[],
+    selectedId: string,
+    onSelect: (id: string) => void,
+    onChange: (templates: PromptTemplate[]) => void
+}> = ({ templates, selectedId, onSelect, onChange }) => {
+    const template = templates.find(t => t.id === selectedId) || templates[0];
+
+    const updateTemplate = (changes: Partial<PromptTemplate>) => {
+        onChange(templates.map(t => t.id === template.id ? { ...t, ...changes } : t));
+    };
+
+    const duplicateTemplate = () => {
+        const copy: PromptTemplate = { ...template, id: `custom-${Date.now()}`, name: `${template.name} (Copy)`, builtIn: false };
+        onChange([...templates, copy]);
+        onSelect(copy.id);
+    };
+
+    const deleteTemplate = () => {
+        const remaining = templates.filter(t => t.id !== template.id);
+        onChange(remaining);
+        onSelect(remaining[0].id);
+    };
+
+    const resetTemplate = () => {
+        const original = DEFAULT_PROMPT_TEMPLATES.find(t => t.id === template.id);
+        if (original) updateTemplate(original);
+    };
+
+    const inputClass = "block w-full bg-slate-900/50 border border-slate-700 rounded-xl py-2 px-3 text-[11px] text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/20";
+    const labelClass = "text-[9px] text-slate-500 uppercase font-black tracking-widest ml-1";
+
+    return (
+        <div className="space-y-3">
+            <div className="flex gap-2">
+                <select
+                    value={template.id}
+                    onChange={(e) => onSelect(e.target.value)}
+                    className="flex-grow bg-slate-900/50 border border-slate-700 rounded-xl py-2 px-3 text-[11px] text-white focus:outline-none appearance-none cursor-pointer"
+                >
+                    {templates.map(t => <option key={t.id} value={t.id}>{t.name}{t.builtIn ? '' : ' (Custom)'}</option>)}
+                </select>
+                <button onClick={duplicateTemplate} className="bg-cyan-600 hover:bg-cyan-500 px-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all" title="Duplicate as custom template">Copy</button>
+                {template.builtIn ? (
+                    <button onClick={resetTemplate} className="bg-slate-700 hover:bg-slate-600 px-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all" title="Restore preset defaults">Reset</button>
+                ) : (
+                    <button onClick={deleteTemplate} className="bg-slate-700 hover:bg-red-600/60 text-red-300 px-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all" title="Delete template">×</button>
+                )}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+                <div>
+                    <label className={labelClass}>Template Name</label>
+                    <input type="text" value={template.name} onChange={(e) => updateTemplate({ name: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                    <label className={labelClass}>Industry</label>
+                    <input type="text" value={template.industry} onChange={(e) => updateTemplate({ industry: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                    <label className={labelClass}>Photo Subject</label>
+                    <input type="text" value={template.subject} onChange={(e) => updateTemplate({ subject: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                    <label className={labelClass}>Caption Tone</label>
+                    <input type="text" value={template.tone} onChange={(e) => updateTemplate({ tone: e.target.value })} className={inputClass} />
+                </div>
+            </div>
+            <div>
+                <label className={labelClass}>Subject Naming Rule</label>
+                <textarea value={template.subjectRule} onChange={(e) => updateTemplate({ subjectRule: e.target.value })} rows={2} className={inputClass} />
+            </div>
+            <div>
+                <label className={labelClass}>Filename Pattern</label>
+                <input type="text" value={template.filenamePattern} onChange={(e) => updateTemplate({ filenamePattern: e.target.value })} className={`${inputClass} font-mono`} />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+                <div>
+                    <label className={labelClass}>Required Tags</label>
+                    <input type="text" value={template.requiredTags.join(', ')} onChange={(e) => updateTemplate({ requiredTags: e.target.value.split(',').map(t => t.trim()) })} className={inputClass} />
+                </div>
+                <div>
+                    <label className={labelClass}>Description Keywords</label>
+                    <input type="text" value={template.descriptionKeywords.join(', ')} onChange={(e) => updateTemplate({ descriptionKeywords: e.target.value.split(',').map(t => t.trim()) })} className={inputClass} />
+                </div>
+            </div>
+            <p className="text-[9px] text-slate-600 leading-tight">Variables: <span className="font-mono text-slate-500">{'{{businessName}}'}</span>, <span className="font-mono text-slate-500">{'{{businessSlug}}'}</span>, <span className="font-mono text-slate-500">{'{{industry}}'}</span></p>
+        </div>
+    );
+};
+
+
 
 // --- Main App Component ---
 
 const App: React.FC = () => {
     const [apiKeyIsSet, setApiKeyIsSet] = useState<boolean | null>(null);
     const [showApiKeyModal, setShowApiKeyModal] = useState(false);
+    const [showWordPressModal, setShowWordPressModal] = useState(false);
     const [apiKeyInput, setApiKeyInput] = useState('');
+    const [providerSettings, setProviderSettings] = useState<ProviderSettings>(getProviderSettings);
+    const [openAiKeyInput, setOpenAiKeyInput] = useState(() => localStorage.getItem('OPENAI_API_KEY') || '');
     const [mode, setMode] = useState<AppMode>('tagger');
 
     // --- Global State ---
-    const [businessName, setBusinessName] = useState<string>('Citywide Melbourne Appliance Repairs');
-    const [companyInfo, setCompanyInfo] = useState<CompanyInfo>({
-        name: 'Citywide Melbourne Appliance Repairs',
-        website: 'https://example.com',
-        phone: '',
-        address: ''
-    });
-    const [tagCategories, setTagCategories] = useState<TagCategory[]>([
-        { category: 'Service', tags: ['appliance repair', 'commercial repair', 'domestic repair'] },
-        { category: 'Location', tags: ['Melbourne', 'Victoria', 'Australia'] }
-    ]);
-    const [options, setOptions] = useState<ProcessingOptions>({
-        generateMetadata: true,
-        enhanceImage: true,
-        embedExif: true,
-        randomizeLocation: false,
-        useManualMetadata: false
-    });
-    const [currentLocation, setCurrentLocation] = useState<GeoLocation>(DEFAULT_PRESET_LOCATIONS[0]);
+    const [initialProject] = useState<Project>(() => createProject('My First Project'));
+    const [companyInfo, setCompanyInfo] = useState<CompanyInfo>(initialProject.companyInfo);
+    // Prompts, tags, EXIF and the linter all name the project's company; blank falls back to the default
+    const businessName = companyInfo.name.trim() || DEFAULT_BUSINESS_NAME;
+    const [tagCategories, setTagCategories] = useState<TagCategory[]>(initialProject.tagCategories);
+    const [languages, setLanguages] = useState<string[]>(initialProject.languages);
+    const [languagesInput, setLanguagesInput] = useState(initialProject.languages.join(', '));
+    const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>(initialProject.promptTemplates);
+    const [selectedTemplateId, setSelectedTemplateId] = useState<string>(initialProject.selectedTemplateId);
+    const activeTemplate = promptTemplates.find(t => t.id === selectedTemplateId) || promptTemplates[0];
+    const [options, setOptions] = useState<ProcessingOptions>(initialProject.options);
+    const [queueSettings, setQueueSettings] = useState<QueueSettings>(initialProject.queueSettings);
+    const [lintSettings, setLintSettings] = useState<LintSettings>(initialProject.lintSettings);
+    const [hashIndex, setHashIndex] = useState<ImageHashEntry[]>(initialProject.hashIndex);
+    const [enhancementSettings, setEnhancementSettings] = useState<EnhancementSettings>(initialProject.enhancementSettings);
+    const [branding, setBranding] = useState<BrandingSettings>(initialProject.branding);
+    const [redactionSettings, setRedactionSettings] = useState<RedactionSettings>(initialProject.redactionSettings);
+    const logoInputRef = useRef<HTMLInputElement>(null);
+    const [logoSize, setLogoSize] = useState<{ width: number, height: number } | null>(null);
+    const [metadataStandards, setMetadataStandards] = useState<MetadataStandards>(initialProject.metadataStandards);
+    const [exifPreservation, setExifPreservation] = useState<ExifPreservation>(initialProject.exifPreservation);
+    const [renditionProfile, setRenditionProfile] = useState<RenditionProfile>(initialProject.renditionProfile);
+    const [renditionWidthsInput, setRenditionWidthsInput] = useState(initialProject.renditionProfile.widths.join(', '));
+    const [sidecarExports, setSidecarExports] = useState<SidecarExports>(initialProject.sidecarExports);
+    const embedOptions = useMemo(() => ({ companyInfo, standards: metadataStandards, preserveExif: exifPreservation }), [companyInfo, metadataStandards, exifPreservation]);
+
+    useEffect(() => {
+        if (!branding.logo) {
+            setLogoSize(null);
+            return;
+        }
+        let cancelled = false;
+        getLogoSize(branding.logo)
+            .then(size => { if (!cancelled) setLogoSize(size); })
+            .catch(() => { if (!cancelled) setLogoSize(null); });
+        return () => { cancelled = true; };
+    }, [branding.logo]);
+
+    const brandingPreview = useMemo(() => hasBranding(branding, companyInfo) ? { settings: branding, companyInfo, logoSize } : null, [branding, companyInfo, logoSize]);
+    const [currentLocation, setCurrentLocation] = useState<GeoLocation>(initialProject.currentLocation);
     const [isFetchingLocation, setIsFetchingLocation] = useState(false);
-    const [customPresets, setCustomPresets] = useState<GeoLocation[]>(DEFAULT_PRESET_LOCATIONS);
+    const [customPresets, setCustomPresets] = useState<GeoLocation[]>(initialProject.customPresets);
+    const [serviceAreas, setServiceAreas] = useState<ServiceArea[]>(initialProject.serviceAreas);
+    const [locationSampling, setLocationSampling] = useState<LocationSampling>(initialProject.locationSampling);
+    const serviceAreaInputRef = useRef<HTMLInputElement>(null);
     const [locationSearch, setLocationSearch] = useState('');
     const [searchResults, setSearchResults] = useState<GeoLocation[]>([]);
+    // Imported places are global (not per project); the built-in suburbs are always searchable
+    const [gazetteer, setGazetteer] = useState<GeoLocation[]>(loadGazetteer);
+    const searchableLocations = useMemo(() => mergeLocations(ALL_LOCATIONS, gazetteer), [gazetteer]);
+    const gazetteerInputRef = useRef<HTMLInputElement>(null);
+    const presetsInputRef = useRef<HTMLInputElement>(null);
+
+    // --- Project State ---
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [activeProjectId, setActiveProjectIdState] = useState<string>(initialProject.id);
+    const [projectsLoaded, setProjectsLoaded] = useState<boolean>(false);
+    const persistedImagesRef = useRef<Map<string, ProcessedImage>>(new Map());
 
     // --- Tagger State ---
     const [processedImages, setProcessedImages] = useState<ProcessedImage[]>([]);
     const [localDragActive, setLocalDragActive] = useState<boolean>(false);
     const [globalDragActive, setGlobalDragActive] = useState<boolean>(false);
     const [isDownloading, setIsDownloading] = useState<string | null>(null);
+    const [metadataImport, setMetadataImport] = useState<MetadataImport | null>(initialProject.metadataImport);
+    const [pendingImport, setPendingImport] = useState<{ fileName: string, table: ImportTable, mapping: ColumnMapping } | null>(null);
+    const metadataImportInputRef = useRef<HTMLInputElement>(null);
+    const [wordPress, setWordPress] = useState<WordPressSettings>(initialProject.wordPress);
+    const [isPublishingAll, setIsPublishingAll] = useState(false);
+    const [suggestingFocalIds, setSuggestingFocalIds] = useState<string[]>([]);
+    const [inspection, setInspection] = useState<{ title: string, embedded: EmbeddedMetadata, verification: MetadataVerification | null } | null>(null);
+    const [showLintReport, setShowLintReport] = useState(false);
+    const lintContext = useMemo(() => ({ businessName, requiredTags: getRequiredTags(activeTemplate, businessName) }), [businessName, activeTemplate]);
+    const lintResults = useMemo(() => lintBatch(
+        processedImages.filter((img): img is ProcessedImage & { metadata: Metadata } => img.status === 'ready' && !!img.metadata),
+        lintContext
+    ), [processedImages, lintContext]);
+    // File base names for batch exports, unique across the project so renditions and sidecars don't collide
+    const baseNames = useMemo(() => dedupeNames(processedImages.map(img => ({ id: img.id, name: slugify(img.metadata?.name || '') || `image-${img.id}` }))), [processedImages]);
+    const getBaseName = useCallback((image: ProcessedImage) => baseNames.get(image.id) || slugify(image.metadata?.name || '') || `image-${image.id}`, [baseNames]);
+    const inspectorInputRef = useRef<HTMLInputElement>(null);
+    const [queuePaused, setQueuePaused] = useState<boolean>(false);
+    const [queueTick, setQueueTick] = useState<number>(0);
+    const inFlightIdsRef = useRef<Set<string>>(new Set());
+    const cancelledIdsRef = useRef<Set<string>>(new Set());
 
     // --- Tech Adder State ---
     const [techAdderBaseImage, setTechAdderBaseImage] = useState<File | null>(null);
@@ -489,8 +1526,14 @@ const App: React.FC = () => {
 
 
 
-    useEffect(() => {
-        const checkKey = () => {
+    useEffect(() => {
+        const checkKey = () => {
+            // Only the Gemini backend needs a key before the app is usable
+            if (getProviderSettings().provider !== 'gemini') {
+                setApiKeyIsSet(true);
+                return;
+            }
+
             const storedKey = localStorage.getItem('GEMINI_API_KEY');
             
             // Validate that the stored key looks like a real API key
@@ -510,26 +1553,50 @@ const App: React.FC = () => {
     }, []);
 
     const handleSaveApiKey = () => {
-        const trimmedKey = apiKeyInput.trim();
-        
-        // Validate API key format
-        if (trimmedKey.length === 0) {
-            alert('Please enter an API key');
-            return;
-        }
-        
-        if (!trimmedKey.startsWith('AIza')) {
-            alert('Invalid API key format. Google Gemini API keys should start with "AIza".\n\nPlease get your key from: https://aistudio.google.com/app/apikey');
-            return;
+        if (providerSettings.provider === 'openai') {
+            if (!providerSettings.openAiBaseUrl.trim() || !providerSettings.openAiModel.trim()) {
+                alert('Please enter the base URL and model of your OpenAI-compatible server.');
+                return;
+            }
+            if (openAiKeyInput.trim()) {
+                localStorage.setItem('OPENAI_API_KEY', openAiKeyInput.trim());
+            } else {
+                localStorage.removeItem('OPENAI_API_KEY');
+            }
         }
-        
-        if (trimmedKey.length < 30) {
-            alert('API key seems too short. Please check you copied the complete key.');
-            return;
+
+        if (providerSettings.provider === 'gemini') {
+            const trimmedKey = apiKeyInput.trim();
+            
+            // Keep the previously stored key when the field is left blank
+            if (trimmedKey.length === 0 && localStorage.getItem('GEMINI_API_KEY')) {
+                saveProviderSettings(providerSettings);
+                setApiKeyIsSet(true);
+                setShowApiKeyModal(false);
+                return;
+            }
+
+            // Validate API key format
+            if (trimmedKey.length === 0) {
+                alert('Please enter an API key');
+                return;
+            }
+            
+            if (!trimmedKey.startsWith('AIza')) {
+                alert('Invalid API key format. Google Gemini API keys should start with "AIza".\n\nPlease get your key from: https://aistudio.google.com/app/apikey');
+                return;
+            }
+            
+            if (trimmedKey.length < 30) {
+                alert('API key seems too short. Please check you copied the complete key.');
+                return;
+            }
+            
+            console.log('[App] Saving valid API key:', trimmedKey.substring(0, 10) + '...');
+            localStorage.setItem('GEMINI_API_KEY', trimmedKey);
         }
-        
-        console.log('[App] Saving valid API key:', trimmedKey.substring(0, 10) + '...');
-        localStorage.setItem('GEMINI_API_KEY', trimmedKey);
+
+        saveProviderSettings(providerSettings);
         setApiKeyIsSet(true);
         setShowApiKeyModal(false);
         setApiKeyInput('');
@@ -541,6 +1608,143 @@ const App: React.FC = () => {
         setShowApiKeyModal(true);
     };
 
+    const applyProject = useCallback(async (stored: Project) => {
+        // Fill in settings added after the project was first saved; the old Auto-GPS switch became the 'random' strategy
+        const defaults = createProject(stored.name);
+        const { randomizeLocation, ...storedOptions } = stored.options as ProcessingOptions & { randomizeLocation?: boolean };
+        const project: Project = {
+            ...defaults,
+            ...stored,
+            options: { ...defaults.options, locationStrategy: randomizeLocation ? 'random' : defaults.options.locationStrategy, ...storedOptions },
+            sidecarExports: { ...defaults.sidecarExports, ...stored.sidecarExports },
+        };
+        const images = (await loadProjectImages(project.id)).map(fromStoredImage);
+
+        persistedImagesRef.current = new Map(images.map(img => [img.id, img]));
+        setProcessedImages(prev => {
+            prev.forEach(img => URL.revokeObjectURL(img.previewUrl));
+            return images;
+        });
+        setCompanyInfo(project.companyInfo);
+        setTagCategories(project.tagCategories);
+        setLanguages(project.languages);
+        setLanguagesInput(project.languages.join(', '));
+        setCustomPresets(project.customPresets);
+        setServiceAreas(project.serviceAreas);
+        setLocationSampling(project.locationSampling);
+        setCurrentLocation(project.currentLocation);
+        setOptions(project.options);
+        setQueueSettings(project.queueSettings);
+        setLintSettings(project.lintSettings);
+        setHashIndex(project.hashIndex);
+        setEnhancementSettings(project.enhancementSettings);
+        setBranding(project.branding);
+        setRedactionSettings(project.redactionSettings);
+        setMetadataStandards(project.metadataStandards);
+        setExifPreservation(project.exifPreservation);
+        setRenditionProfile(project.renditionProfile);
+        setRenditionWidthsInput(project.renditionProfile.widths.join(', '));
+        setSidecarExports(project.sidecarExports);
+        setMetadataImport(project.metadataImport);
+        setWordPress(project.wordPress);
+        setPromptTemplates(project.promptTemplates);
+        setSelectedTemplateId(project.selectedTemplateId);
+        setActiveProjectIdState(project.id);
+        setActiveProjectId(project.id);
+    }, []);
+
+    useEffect(() => {
+        const loadProjects = async () => {
+            try {
+                let stored = await listProjects();
+                if (stored.length === 0) {
+                    await saveProject(initialProject);
+                    stored = [initialProject];
+                }
+                setProjects(stored);
+                await applyProject(stored.find(p => p.id === getActiveProjectId()) || stored[0]);
+            } catch (error) {
+                console.error('[App] Could not load projects:', error);
+            } finally {
+                setProjectsLoaded(true);
+            }
+        };
+        loadProjects();
+    }, [initialProject, applyProject]);
+
+    // Persist project settings shortly after they change
+    useEffect(() => {
+        if (!projectsLoaded) return;
+        const project = projects.find(p => p.id === activeProjectId);
+        if (!project) return;
+
+        const timer = setTimeout(() => {
+            saveProject({ ...project, companyInfo, tagCategories, languages, customPresets, currentLocation, serviceAreas, locationSampling, options, queueSettings, lintSettings, hashIndex, enhancementSettings, branding, redactionSettings, metadataStandards, exifPreservation, renditionProfile, sidecarExports, metadataImport, wordPress, promptTemplates, selectedTemplateId })
+                .catch(error => console.error('[App] Could not save project:', error));
+        }, 300);
+        return () => clearTimeout(timer);
+    }, [projectsLoaded, projects, activeProjectId, companyInfo, tagCategories, languages, customPresets, currentLocation, serviceAreas, locationSampling, options, queueSettings, lintSettings, hashIndex, enhancementSettings, branding, redactionSettings, metadataStandards, exifPreservation, renditionProfile, sidecarExports, metadataImport, wordPress, promptTemplates, selectedTemplateId]);
+
+    // Persist only the images whose state object changed since the last write
+    useEffect(() => {
+        if (!projectsLoaded) return;
+        const previous = persistedImagesRef.current;
+        const next = new Map<string, ProcessedImage>();
+
+        processedImages.forEach((image, index) => {
+            next.set(image.id, image);
+            if (previous.get(image.id) !== image) {
+                saveImage(toStoredImage(image, activeProjectId, index))
+                    .catch(error => console.error('[App] Could not save image:', error));
+            }
+        });
+        previous.forEach((_, id) => {
+            if (!next.has(id)) {
+                deleteImage(id).catch(error => console.error('[App] Could not delete image:', error));
+            }
+        });
+        persistedImagesRef.current = next;
+    }, [processedImages, projectsLoaded, activeProjectId]);
+
+    const handleSwitchProject = async (projectId: string) => {
+        const project = await getProject(projectId);
+        if (project) await applyProject(project);
+    };
+
+    const handleCreateProject = async () => {
+        const name = prompt('Name for the new project:', `Project ${projects.length + 1}`);
+        if (!name || !name.trim()) return;
+
+        // Start from the current company profile and settings, with an empty batch and duplicate history
+        const project: Project = {
+            ...createProject(name.trim()),
+            companyInfo, tagCategories, languages, customPresets, currentLocation, serviceAreas, locationSampling, options, queueSettings, lintSettings, enhancementSettings, branding, redactionSettings, metadataStandards, exifPreservation, renditionProfile, sidecarExports, metadataImport, wordPress, promptTemplates, selectedTemplateId
+        };
+        await saveProject(project);
+        setProjects(prev => [...prev, project]);
+        await applyProject(project);
+    };
+
+    const handleRenameProject = () => {
+        const project = projects.find(p => p.id === activeProjectId);
+        if (!project) return;
+        const name = prompt('Rename project:', project.name);
+        if (!name || !name.trim()) return;
+        setProjects(prev => prev.map(p => p.id === project.id ? { ...p, name: name.trim() } : p));
+    };
+
+    const handleDeleteProject = async () => {
+        const project = projects.find(p => p.id === activeProjectId);
+        if (!project || projects.length < 2) return;
+        if (!confirm(`Delete "${project.name}" and all of its images? This cannot be undone.`)) return;
+
+        await deleteProject(project.id);
+        const remaining = projects.filter(p => p.id !== project.id);
+        setProjects(remaining);
+        const next = await getProject(remaining[0].id);
+        if (next) await applyProject(next);
+    };
+
     const fetchBrowserLocation = () => {
         setIsFetchingLocation(true);
         navigator.geolocation.getCurrentPosition(
@@ -564,13 +1768,73 @@ const App: React.FC = () => {
             return;
         }
         
-        // Search through local database of Australian suburbs
-        const results = ALL_LOCATIONS.filter(loc =>
-            loc.name.toLowerCase().includes(query.toLowerCase()) ||
-            (loc.address && loc.address.toLowerCase().includes(query.toLowerCase()))
-        ).slice(0, 10); // Show top 10 matches
-        
-        setSearchResults(results);
+        // Search the built-in suburbs plus any imported gazetteer (name, postcode, typos)
+        setSearchResults(searchLocations(query, searchableLocations, 10));
+    };
+
+    const handleImportGazetteer = async (file: File) => {
+        try {
+            const merged = mergeLocations(gazetteer, await parseLocationFile(file));
+            saveGazetteer(merged);
+            setGazetteer(merged);
+            alert(`Gazetteer now has ${merged.length} places.`);
+        } catch (e) {
+            console.error('[Gazetteer] Import failed:', e);
+            alert(`Could not import gazetteer: ${e instanceof Error ? e.message : 'Unknown error'}`);
+        }
+    };
+
+    const handleImportMetadataFile = async (file: File) => {
+        try {
+            const table = parseImportTable(await file.text(), file.name);
+            setPendingImport({ fileName: file.name, table, mapping: guessColumnMapping(table.headers) });
+        } catch (e) {
+            console.error('[Metadata Import] Parse failed:', e);
+            alert(`Could not read metadata file: ${e instanceof Error ? e.message : 'Unknown error'}`);
+        }
+    };
+
+    const handleConfirmMetadataImport = (mapping: ColumnMapping, skipAiWhenComplete: boolean) => {
+        if (!pendingImport) return;
+        try {
+            const imported = buildMetadataImport(pendingImport.table, mapping, pendingImport.fileName, skipAiWhenComplete);
+            setMetadataImport(imported);
+            setPendingImport(null);
+            const matched = processedImages.filter(img => findImportedMetadata(imported, img.file.name)).length;
+            alert(`Imported metadata for ${Object.keys(imported.rows).length} files${processedImages.length > 0 ? ` (${matched} of ${processedImages.length} current images match; reprocess them to apply)` : ''}.${options.useManualMetadata ? '' : ' Turn on Manual Override to use it.'}`);
+        } catch (e) {
+            alert(`Could not import metadata: ${e instanceof Error ? e.message : 'Unknown error'}`);
+        }
+    };
+
+    const handleClearGazetteer = () => {
+        if (!confirm(`Remove all ${gazetteer.length} imported places? The built-in suburbs stay available.`)) return;
+        saveGazetteer([]);
+        setGazetteer([]);
+    };
+
+    const handleExportPresets = () => {
+        const projectName = projects.find(p => p.id === activeProjectId)?.name || 'project';
+        const url = URL.createObjectURL(new Blob([exportLocationsGeoJson(customPresets)], { type: 'application/geo+json' }));
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${slugify(projectName) || 'project'}-locations.geojson`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImportPresets = async (file: File) => {
+        try {
+            const imported = await parseLocationFile(file);
+            // Presets are keyed by name, so a name already in the library keeps its existing entry
+            const existingNames = new Set(customPresets.map(p => p.name));
+            const added = imported.filter((loc, index) => !existingNames.has(loc.name) && imported.findIndex(other => other.name === loc.name) === index);
+            setCustomPresets(prev => [...prev, ...added]);
+            alert(`Added ${added.length} of ${imported.length} locations.`);
+        } catch (e) {
+            console.error('[Locations] Preset import failed:', e);
+            alert(`Could not import locations: ${e instanceof Error ? e.message : 'Unknown error'}`);
+        }
     };
 
     const addLocationToPresets = (location: GeoLocation) => {
@@ -590,34 +1854,80 @@ const App: React.FC = () => {
     };
 
 
+    const handleImportServiceAreas = async (file: File) => {
+        try {
+            const areas = parseServiceAreasGeoJson(await file.text(), file.name.replace(/\.[^/.]+$/, ''));
+            setServiceAreas(prev => [...prev, ...areas]);
+            setLocationSampling(prev => prev.serviceAreaId ? prev : { ...prev, serviceAreaId: areas[0].id });
+        } catch (e) {
+            console.error('[Service Areas] Import failed:', e);
+            alert(`Could not import service areas: ${e instanceof Error ? e.message : 'Unknown error'}`);
+        }
+    };
+
+    const handleAddRadiusArea = () => {
+        const input = prompt(`Service radius around ${currentLocation.name || 'the selected location'} (km):`, '5');
+        const radiusKm = input ? parseFloat(input) : NaN;
+        if (!(radiusKm > 0)) return;
+        const area = createRadiusArea(`${currentLocation.name || 'Manual'} (${radiusKm} km)`, currentLocation, radiusKm);
+        setServiceAreas(prev => [...prev, area]);
+        setLocationSampling(prev => ({ ...prev, serviceAreaId: area.id }));
+    };
+
+    const handleRemoveServiceArea = (id: string) => {
+        setServiceAreas(prev => prev.filter(area => area.id !== id));
+        setLocationSampling(prev => prev.serviceAreaId === id ? { ...prev, serviceAreaId: null } : prev);
+    };
+
     const handleAddFiles = useCallback(async (files: File[]) => {
         const convertedFiles = await Promise.all(files.map(file => handleFileConversion(file)));
         const newImages: ProcessedImage[] = [];
+        const serviceArea = serviceAreas.find(area => area.id === locationSampling.serviceAreaId) || null;
+        // Randomized points keep their distance from every image already in the project
+        const taken = processedImages.map(img => img.appliedLocation);
+        // Hashes to compare each upload against: the batch so far, including earlier files in this drop
+        const hashed = processedImages
+            .filter(img => img.perceptualHash)
+            .map(img => ({ id: img.id, hash: img.perceptualHash!, name: img.metadata?.name || img.file.name }));
 
         for (const file of convertedFiles) {
-            const locationToUse = options.randomizeLocation
-                ? customPresets[Math.floor(Math.random() * customPresets.length)]
-                : { ...currentLocation };
+            // Captured up front: enhancement and re-encoding both discard the camera's EXIF
+            const sourceExif = await readSourceExif(file);
+            const id = `${file.name}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+            const perceptualHash = await computePerceptualHash(file).catch(error => {
+                console.warn('[Duplicates] Could not hash', file.name, error);
+                return null;
+            });
+            const duplicate = perceptualHash ? findDuplicate(perceptualHash, hashed, hashIndex) : null;
+            if (perceptualHash) hashed.push({ id, hash: perceptualHash, name: file.name });
+            const locationToUse = resolveUploadLocation(options.locationStrategy, sourceExif?.gps, {
+                fixed: currentLocation, presets: customPresets, gazetteer: searchableLocations, serviceArea, sampling: locationSampling, taken
+            });
+            taken.push(locationToUse);
 
             try {
                 // No validation - accept all image sizes
                 newImages.push({
-                    id: `${file.name}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+                    id,
                     file,
                     previewUrl: URL.createObjectURL(file),
-                    status: 'pending',
-                    statusText: 'Waiting...',
+                    status: duplicate ? 'duplicate' : 'pending',
+                    statusText: duplicate ? (duplicate.distance === 0 ? 'Duplicate' : 'Near-Duplicate') : 'Waiting...',
                     metadata: null,
                     enhancedImage: null,
                     finalImageBlob: null,
                     error: null,
                     appliedOptions: { ...options },
-                    appliedLocation: locationToUse
+                    appliedLocation: locationToUse,
+                    attempts: 0,
+                    sourceExif,
+                    perceptualHash,
+                    duplicate
                 });
             } catch (error) {
                 const errorMessage = error instanceof Error ? error.message : "Image validation failed.";
                 newImages.push({
-                    id: `${file.name}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+                    id,
                     file,
                     previewUrl: URL.createObjectURL(file),
                     status: 'error',
@@ -627,101 +1937,284 @@ const App: React.FC = () => {
                     finalImageBlob: null,
                     error: errorMessage,
                     appliedOptions: { ...options },
-                    appliedLocation: locationToUse
+                    appliedLocation: locationToUse,
+                    attempts: 0
                 });
             }
         }
         setProcessedImages(prev => [...prev, ...newImages]);
-    }, [options, currentLocation, companyInfo, tagCategories, customPresets]);
+    }, [options, currentLocation, companyInfo, tagCategories, customPresets, serviceAreas, locationSampling, processedImages, searchableLocations, hashIndex]);
+
+    // The processed image, or the original upload (redacted and branded again) when its enhancement was reverted.
+    // Boxes added after processing are applied here; the ones drawn during processing already are, and
+    // removing one of those reruns the image stages (see needsRedactionRerun).
+    const getProcessedSource = useCallback(async (image: ProcessedImage): Promise<Blob> => {
+        if (image.enhancement?.accepted === false) {
+            const redacted = await applyRedactions(image.file, image.redactions || [], redactionSettings.style);
+            return image.branded ? applyBranding(redacted, branding, companyInfo, image.branded.crop) : redacted;
+        }
+        const processed = image.finalImageBlob || (image.enhancedImage ? await (await fetch(image.enhancedImage)).blob() : image.file);
+        const added = (image.redactions || []).filter(box => !image.bakedRedactionIds?.includes(box.id));
+        return applyRedactions(processed, added, redactionSettings.style);
+    }, [redactionSettings.style, branding, companyInfo]);
+
+    // What downloads, exports and publishing start from: the processed image with its crop applied
+    const getRenditionSource = useCallback(async (image: ProcessedImage): Promise<Blob> => {
+        const source = await getProcessedSource(image);
+        return image.crop ? resizeImage(source, image.crop.aspect, { x: image.crop.focalX, y: image.crop.focalY }) : source;
+    }, [getProcessedSource]);
+
+    // Embeds the image's current metadata into each encoded rendition
+    const createMetadataWriter = useCallback((image: ProcessedImage & { metadata: Metadata }): RenditionMetadataWriter => {
+        const options = { ...embedOptions, sourceExif: image.sourceExif };
+        return (blob, format, size) => embedRenditionMetadata(blob, format, size, image.metadata, businessName, image.appliedLocation, options);
+    }, [businessName, embedOptions]);
+
+    // The file a download leads with: the profile's primary rendition, with the image's current metadata
+    const buildPrimaryRendition = useCallback(async (image: ProcessedImage & { metadata: Metadata }, fallbackName: string): Promise<Rendition> =>
+        pickPrimaryRendition(await buildRenditions(await getRenditionSource(image), slugify(image.metadata.name) || fallbackName, getPrimaryProfile(renditionProfile), createMetadataWriter(image))),
+    [renditionProfile, createMetadataWriter, getRenditionSource]);
+
+    // Reads the primary rendition back and checks what its format can hold; AVIF carries no metadata to check
+    const verifyPrimaryRendition = useCallback(async (image: ProcessedImage & { metadata: Metadata }) => {
+        const rendition = await buildPrimaryRendition(image, 'seo-image');
+        const embedded = await readEmbeddedMetadata(rendition.blob);
+        const standards = getRenditionStandards(rendition.format, metadataStandards);
+        const verification = Object.values(standards).some(Boolean)
+            ? verifyEmbeddedMetadata(embedded, image.metadata, image.appliedLocation, businessName, standards)
+            : null;
+        return { rendition, embedded, verification };
+    }, [buildPrimaryRendition, businessName, metadataStandards]);
 
     const processSingleImage = useCallback(async (id: string) => {
         const imageIndex = processedImages.findIndex(img => img.id === id);
-        if (imageIndex === -1 || (processedImages[imageIndex].status !== 'pending' && processedImages[imageIndex].status !== 'error')) return;
+        if (imageIndex === -1 || !['pending', 'error', 'cancelled'].includes(processedImages[imageIndex].status)) return;
 
         const currentImage = processedImages[imageIndex];
         const imageFile = currentImage.file;
         const currentOptions = currentImage.appliedOptions;
         const locationToEmbed = currentImage.appliedLocation;
+        const attempt = currentImage.attempts + 1;
+        // A cancelled job finishes its in-flight request but never writes its result
+        const isCancelled = () => cancelledIdsRef.current.has(id);
+
+        cancelledIdsRef.current.delete(id);
+        setProcessedImages(prev => prev.map(img => img.id === id ? { ...img, attempts: attempt, retryAt: null, error: null, status: 'generating', statusText: attempt > 1 ? `Attempt ${attempt}...` : img.keepMetadata ? 'Re-redacting...' : 'Starting...' } : img));
         
         try {
             let activeMetadata: Metadata | null = null;
             let currentBlob: Blob = imageFile;
             let currentPreviewUrl: string = currentImage.previewUrl;
-
-            // Step 1: Generate Metadata
-            if (currentOptions.generateMetadata) {
+            // Images saved before source EXIF was captured read it on their first run
+            const sourceExif = currentImage.sourceExif !== undefined ? currentImage.sourceExif : await readSourceExif(imageFile);
+
+            // Step 1: Generate Metadata (kept as is when only the pixels are being redone)
+            const keptMetadata = currentImage.keepMetadata ? currentImage.metadata : null;
+            const imported = !keptMetadata && currentOptions.useManualMetadata ? findImportedMetadata(metadataImport, imageFile.name) : null;
+            const skipAi = !!imported && !!metadataImport?.skipAiWhenComplete && isCompleteImport(imported);
+            if (keptMetadata) {
+                activeMetadata = keptMetadata;
+            } else if (currentOptions.generateMetadata && !skipAi) {
                 setProcessedImages(prev => prev.map(img => img.id === id ? { ...img, status: 'generating', statusText: 'AI Analyzing...' } : img));
-                activeMetadata = await generateImageMetadata(imageFile, businessName);
-                
-                // Merge with manual inputs if enabled
-                if (currentOptions.useManualMetadata) {
-                    // Add website from company info
-                    if (companyInfo.website) {
-                        activeMetadata.website = companyInfo.website;
-                    }
-                    
-                    // Merge custom tags with AI-generated tags
-                    const customTags: string[] = [];
-                    tagCategories.forEach(cat => {
-                        customTags.push(...cat.tags);
-                    });
-                    
-                    // Combine and deduplicate tags
-                    const allTags = [...new Set([...activeMetadata.tags, ...customTags])];
-                    activeMetadata.tags = allTags;
-                    
-                    // Include company NAP info if provided
-                    const napTags: string[] = [];
-                    if (companyInfo.phone) napTags.push(companyInfo.phone);
-                    if (companyInfo.address) napTags.push(companyInfo.address);
-                    activeMetadata.tags = [...new Set([...activeMetadata.tags, ...napTags])];
-                }
+                activeMetadata = await generateImageMetadata(imageFile, businessName, activeTemplate, tagCategories.map(c => c.category), languages);
+                if (isCancelled()) return;
             } else {
                 activeMetadata = {
                     name: imageFile.name.replace(/\.[^/.]+$/, ""),
                     description: `Image of ${imageFile.name}`,
                     altText: `Image: ${imageFile.name}`,
                     caption: `Check out our latest work at ${businessName}`,
-                    tags: [businessName, 'appliance repair']
+                    tags: getRequiredTags(activeTemplate, businessName)
                 };
             }
 
-            // Step 2: Enhance Image
+            // Imported spreadsheet values win over the AI, field by field
+            if (imported) {
+                activeMetadata = { ...activeMetadata, ...imported };
+                if (imported.tags) {
+                    activeMetadata.tagCategories = syncTagCategories(activeMetadata.tagCategories || [], imported.tags);
+                }
+            }
+
+            // Merge with manual inputs if enabled
+            if (!keptMetadata && currentOptions.useManualMetadata && (currentOptions.generateMetadata || imported)) {
+                // Add website from company info
+                if (companyInfo.website && !imported?.website) {
+                    activeMetadata.website = companyInfo.website;
+                }
+                
+                // Merge custom tags with AI-generated tags, keeping their categories
+                activeMetadata.tagCategories = mergeTagCategories(activeMetadata.tagCategories, tagCategories);
+                
+                // Combine and deduplicate tags
+                const allTags = [...new Set([...activeMetadata.tags, ...flattenTagCategories(tagCategories)])];
+                activeMetadata.tags = allTags;
+                
+                // Include company NAP info if provided
+                const napTags: string[] = [];
+                if (companyInfo.phone) napTags.push(companyInfo.phone);
+                if (companyInfo.address) napTags.push(companyInfo.address);
+                activeMetadata.tags = [...new Set([...activeMetadata.tags, ...napTags])];
+            }
+
+            if (!activeMetadata.gbpCategory) {
+                activeMetadata.gbpCategory = deriveGbpCategory(activeMetadata.tags);
+            }
+
+            // Step 2: Privacy redaction, before enhancement so every later stage works on the redacted photo.
+            // Boxes from an earlier run (including the user's edits) are reused instead of detecting again.
+            let redactions = currentImage.redactions ?? null;
+            if (currentOptions.redactPrivacy && redactions === null) {
+                setProcessedImages(prev => prev.map(img => img.id === id ? { ...img, metadata: activeMetadata, status: 'enhancing', statusText: 'Finding Faces & Plates...' } : img));
+                const regions = await detectSensitiveRegions(imageFile, redactionSettings.targets);
+                if (isCancelled()) return;
+                redactions = regions.map(region => createRedactionBox(region.kind, region)).filter(isUsableBox);
+            }
+            const bakedRedactionIds = (redactions || []).map(box => box.id);
+            if (redactions && redactions.length > 0) {
+                setProcessedImages(prev => prev.map(img => img.id === id ? { ...img, metadata: activeMetadata, redactions, status: 'enhancing', statusText: 'Redacting...' } : img));
+                currentBlob = await applyRedactions(currentBlob, redactions, redactionSettings.style);
+                if (isCancelled()) return;
+                currentPreviewUrl = await blobToDataURL(currentBlob);
+            }
+            const enhancementInput = currentBlob;
+
+            // Step 3: Enhance Image (local corrections first, so the AI pass starts from the corrected photo)
+            if (currentOptions.localEnhance) {
+                setProcessedImages(prev => prev.map(img => img.id === id ? { ...img, metadata: activeMetadata, status: 'enhancing', statusText: 'Enhancing...' } : img));
+                currentBlob = await enhanceImageLocally(currentBlob, enhancementSettings);
+                if (isCancelled()) return;
+                currentPreviewUrl = await blobToDataURL(currentBlob);
+            }
             if (currentOptions.enhanceImage) {
                 setProcessedImages(prev => prev.map(img => img.id === id ? { ...img, metadata: activeMetadata, status: 'enhancing', statusText: 'AI Enhancing...' } : img));
-                const { base64: enhancedImageBase64, mimeType: enhancedMimeType } = await enhanceImage(imageFile);
+                const aiInput = currentBlob !== imageFile ? new File([currentBlob], imageFile.name, { type: currentBlob.type }) : imageFile;
+                const { base64: enhancedImageBase64, mimeType: enhancedMimeType } = await enhanceImage(aiInput);
+                if (isCancelled()) return;
                 currentPreviewUrl = `data:${enhancedMimeType};base64,${enhancedImageBase64}`;
                 currentBlob = await (await fetch(currentPreviewUrl)).blob();
             }
 
-            // Step 3: Embed Metadata & GPS
+            const isEnhanced = currentOptions.localEnhance || currentOptions.enhanceImage;
+            let enhancement: EnhancementReview | null = null;
+            if (isEnhanced) {
+                // Scored against the (redacted) upload so enhancements that changed the content can be caught before they ship
+                const score = await compareImages(enhancementInput, currentBlob).catch(err => {
+                    console.warn('[ImageSimilarity] Could not compare with the original:', err);
+                    return null;
+                });
+                enhancement = { accepted: true, similarity: score?.similarity ?? null, worstRegion: score?.worstRegion ?? null };
+            }
+
+            // Step 4: Branding, placed inside the image's crop so the crop on download keeps it in frame
+            const branded = currentOptions.applyBranding && hasBranding(branding, companyInfo) ? { crop: currentImage.crop ?? null } : null;
+            if (branded) {
+                setProcessedImages(prev => prev.map(img => img.id === id ? { ...img, metadata: activeMetadata, status: 'enhancing', statusText: 'Branding...' } : img));
+                currentBlob = await applyBranding(currentBlob, branding, companyInfo, branded.crop);
+                if (isCancelled()) return;
+                currentPreviewUrl = await blobToDataURL(currentBlob);
+            }
+            const hasProcessedPreview = currentBlob !== imageFile;
+
+            // Step 5: Embed Metadata & GPS, then read the file back to confirm it stuck
+            let verification: MetadataVerification | null = null;
+            let embedFailures: (keyof MetadataStandards)[] = [];
             if (currentOptions.embedExif && activeMetadata) {
-                setProcessedImages(prev => prev.map(img => img.id === id ? { ...img, enhancedImage: currentOptions.enhanceImage ? currentPreviewUrl : null, metadata: activeMetadata, status: 'embedding', statusText: 'Geo Tagger...' } : img));
-                currentBlob = await embedMetadata(currentBlob, activeMetadata, businessName, locationToEmbed);
+                setProcessedImages(prev => prev.map(img => img.id === id ? { ...img, enhancedImage: hasProcessedPreview ? currentPreviewUrl : null, metadata: activeMetadata, status: 'embedding', statusText: 'Geo Tagger...' } : img));
+                const embedded = await embedMetadata(currentBlob, activeMetadata, businessName, locationToEmbed, { ...embedOptions, sourceExif });
+                currentBlob = embedded.blob;
+                embedFailures = embedded.failed;
+                const processed = { ...currentImage, metadata: activeMetadata, finalImageBlob: currentBlob, enhancement, branded, redactions, bakedRedactionIds, sourceExif };
+                verification = (await verifyPrimaryRendition(processed)).verification;
+                if (isCancelled()) return;
             }
 
             setProcessedImages(prev => prev.map(img => img.id === id ? { 
                 ...img, 
                 metadata: activeMetadata,
-                enhancedImage: currentOptions.enhanceImage ? currentPreviewUrl : null,
+                enhancedImage: hasProcessedPreview ? currentPreviewUrl : null,
+                enhancement,
+                branded,
+                redactions,
+                bakedRedactionIds,
                 finalImageBlob: currentBlob, 
+                verification,
+                embedFailures,
+                sourceExif,
+                keepMetadata: false,
                 status: 'ready', 
                 statusText: 'SEO Ready' 
             } : img));
+            if (currentImage.perceptualHash) {
+                const entry = { hash: currentImage.perceptualHash, fileName: currentImage.file.name, name: activeMetadata.name, processedAt: Date.now() };
+                setHashIndex(prev => addToHashIndex(prev, entry));
+            }
         } catch (err) {
+            if (isCancelled()) return;
             const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
+
+            // Quota and server errors go back to the queue with exponential backoff
+            if (isRetryableError(err) && attempt <= queueSettings.maxRetries) {
+                const delay = getBackoffDelay(attempt, err);
+                setProcessedImages(prev => prev.map(img => img.id === id ? { ...img, status: 'pending', statusText: `Retry in ${Math.ceil(delay / 1000)}s...`, error: errorMessage, retryAt: Date.now() + delay } : img));
+                return;
+            }
             setProcessedImages(prev => prev.map(img => img.id === id ? { ...img, status: 'error', statusText: 'Error', error: errorMessage } : img));
         }
-    }, [processedImages, businessName]);
+    }, [processedImages, businessName, activeTemplate, companyInfo, tagCategories, languages, metadataImport, queueSettings.maxRetries, embedOptions, metadataStandards, enhancementSettings, branding, redactionSettings, verifyPrimaryRendition]);
 
 
     useEffect(() => {
-        const isAnyImageProcessing = processedImages.some(img => ['generating', 'enhancing', 'embedding'].includes(img.status));
-        if (!isAnyImageProcessing) {
-            const nextImageToProcess = processedImages.find(img => img.status === 'pending');
-            if (nextImageToProcess) processSingleImage(nextImageToProcess.id);
+        setRequestsPerMinute(queueSettings.requestsPerMinute);
+    }, [queueSettings.requestsPerMinute]);
+
+    // Job scheduler: keeps up to `concurrency` images in flight and wakes up for backed-off retries
+    useEffect(() => {
+        if (queuePaused) return;
+        const now = Date.now();
+        const inFlight = inFlightIdsRef.current;
+        const freeSlots = Math.max(1, queueSettings.concurrency) - inFlight.size;
+
+        processedImages
+            .filter(img => img.status === 'pending' && !inFlight.has(img.id) && (!img.retryAt || img.retryAt <= now))
+            .slice(0, Math.max(0, freeSlots))
+            .forEach(img => {
+                inFlight.add(img.id);
+                processSingleImage(img.id).finally(() => {
+                    inFlight.delete(img.id);
+                    setQueueTick(tick => tick + 1);
+                });
+            });
+
+        const nextRetryAt = Math.min(...processedImages
+            .filter(img => img.status === 'pending' && img.retryAt && img.retryAt > now)
+            .map(img => img.retryAt as number));
+        if (Number.isFinite(nextRetryAt)) {
+            const timer = setTimeout(() => setQueueTick(tick => tick + 1), nextRetryAt - now);
+            return () => clearTimeout(timer);
         }
-    }, [processedImages, processSingleImage]);
+    }, [processedImages, processSingleImage, queuePaused, queueSettings.concurrency, queueTick]);
+
+    // Duplicates wait outside the queue until the user decides; skipping drops the upload entirely
+    const handleKeepDuplicates = (ids: string[]) =>
+        setProcessedImages(prev => prev.map(img => ids.includes(img.id) && img.status === 'duplicate' ? { ...img, status: 'pending', statusText: 'Waiting...', duplicate: null } : img));
+
+    const handleSkipDuplicates = (ids: string[]) =>
+        setProcessedImages(prev => prev.filter(img => {
+            const skip = ids.includes(img.id) && img.status === 'duplicate';
+            if (skip) URL.revokeObjectURL(img.previewUrl);
+            return !skip;
+        }));
+
+    const handleRetryImage = (id: string) => {
+        setProcessedImages(prev => prev.map(img => img.id === id ? { ...img, status: 'pending', statusText: 'Waiting...', attempts: 0, retryAt: null, keepMetadata: false } : img));
+    };
+
+    const handleCancelQueue = () => {
+        const isQueued = (img: ProcessedImage) => ['pending', 'generating', 'enhancing', 'embedding'].includes(img.status);
+        processedImages.filter(isQueued).forEach(img => cancelledIdsRef.current.add(img.id));
+        setProcessedImages(prev => prev.map(img => isQueued(img) ? { ...img, status: 'cancelled', statusText: 'Cancelled', retryAt: null } : img));
+    };
     
     useEffect(() => {
         const handleDragEnter = (e: DragEvent) => { if (e.dataTransfer && Array.from(e.dataTransfer.types).includes('Files')) setGlobalDragActive(true); };
@@ -748,49 +2241,230 @@ const App: React.FC = () => {
     }, [handleAddFiles]);
 
 
+    // A rerun repeats every image stage, so check before spending another AI enhancement on it
+    const confirmRedactionRerun = (image: ProcessedImage): boolean =>
+        !needsRedactionRerun(image) || !image.appliedOptions.enhanceImage ||
+        confirm('A box that was blurred in before enhancement can only be removed by processing the image again, which runs AI enhancement again (another API call, and a new result to review). Metadata is kept. Continue?');
+
     const handleMetadataChange = (id: string, newMetadata: Metadata) => {
-        setProcessedImages(prev => prev.map(img => img.id === id ? { ...img, metadata: newMetadata } : img));
+        // Edits are embedded at download time, so the earlier read-back no longer applies
+        setProcessedImages(prev => prev.map(img => img.id === id ? { ...img, metadata: newMetadata, verification: null, embedFailures: [] } : img));
+    };
+
+    // Accepting or reverting an enhancement picks the file downloads start from, so the earlier read-back no longer applies
+    const handleEnhancementReview = (id: string, accepted: boolean) => {
+        const image = processedImages.find(img => img.id === id);
+        if (image?.enhancement && !confirmRedactionRerun({ ...image, enhancement: { ...image.enhancement, accepted } })) return;
+        setProcessedImages(prev => prev.map(img => img.id === id && img.enhancement ? queueRedactionRerun({ ...img, enhancement: { ...img.enhancement, accepted }, verification: null, embedFailures: [] }) : img));
+    };
+
+    const handleCropChange = (id: string, crop: CropSettings | null) => {
+        setProcessedImages(prev => prev.map(img => img.id === id ? { ...img, crop } : img));
+    };
+
+    // Same aspect ratio for the whole batch; focal points stay per image
+    const handleApplyCropToAll = (aspect: number | null) => {
+        setProcessedImages(prev => prev.map(img => img.status === 'duplicate' ? img : {
+            ...img,
+            crop: aspect === null ? null : { focalX: 0.5, focalY: 0.5, focalSource: 'center', ...img.crop, aspect },
+        }));
+    };
+
+    const handleRedactionsChange = (id: string, redactions: RedactionBox[]) => {
+        const image = processedImages.find(img => img.id === id);
+        if (image && !confirmRedactionRerun({ ...image, redactions })) return;
+        setProcessedImages(prev => prev.map(img => img.id === id ? queueRedactionRerun({ ...img, redactions }) : img));
+    };
+
+    const handleSuggestFocalPoints = async (ids: string[]) => {
+        setSuggestingFocalIds(prev => [...new Set([...prev, ...ids])]);
+        const failures: string[] = [];
+        await Promise.all(ids.map(async id => {
+            const image = processedImages.find(img => img.id === id);
+            if (!image) return;
+            try {
+                const source = await getProcessedSource(image);
+                const point = await suggestFocalPoint(new File([source], image.file.name, { type: source.type }));
+                setProcessedImages(prev => prev.map(img => img.id === id && img.crop ? { ...img, crop: { ...img.crop, focalX: point.x, focalY: point.y, focalSource: 'ai' } } : img));
+            } catch (err) {
+                failures.push(`${image.file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+            } finally {
+                setSuggestingFocalIds(prev => prev.filter(suggestingId => suggestingId !== id));
+            }
+        }));
+        if (failures.length > 0) {
+            alert(`Could not find a focal point for ${failures.length} image${failures.length === 1 ? '' : 's'}:\n${failures.join('\n')}`);
+        }
+    };
+
+    // Every file a download produces for one image, per the project's rendition profile
+    const buildImageRenditions = useCallback(async (image: ProcessedImage & { metadata: Metadata }, fallbackName: string, source?: Blob): Promise<Rendition[]> =>
+        buildRenditions(source ?? await getRenditionSource(image), slugify(image.metadata.name) || fallbackName, renditionProfile, createMetadataWriter(image)),
+    [renditionProfile, createMetadataWriter, getRenditionSource]);
+
+    const handleInspectImage = useCallback(async (id: string) => {
+        const image = processedImages.find(img => img.id === id);
+        if (!image || !image.metadata) return;
+        setIsDownloading(id);
+        try {
+            const { rendition, embedded, verification } = await verifyPrimaryRendition({ ...image, metadata: image.metadata });
+            setProcessedImages(prev => prev.map(img => img.id === id ? { ...img, verification } : img));
+            setInspection({ title: rendition.fileName, embedded, verification });
+        } catch (e) {
+            console.error('[Metadata Inspector] Read-back failed:', e);
+            alert(`Could not read metadata: ${e instanceof Error ? e.message : 'Unknown error'}`);
+        } finally { setIsDownloading(null); }
+    }, [processedImages, verifyPrimaryRendition]);
+
+    // Any file can be inspected; without a batch entry there is nothing to diff against
+    const handleInspectFile = async (file: File) => {
+        try {
+            setInspection({ title: file.name, embedded: await readEmbeddedMetadata(file), verification: null });
+        } catch (e) {
+            console.error('[Metadata Inspector] Read failed:', e);
+            alert(`Could not read metadata: ${e instanceof Error ? e.message : 'Unknown error'}`);
+        }
     };
     
+    // With blocking on, images with lint errors stay out of every download, export and publish
+    const isLintBlocked = useCallback((image: ProcessedImage) =>
+        lintSettings.blockOnErrors && hasLintErrors(lintResults[image.id]), [lintSettings.blockOnErrors, lintResults]);
+
+    const alertLintErrors = (image: ProcessedImage) =>
+        alert(`Fix the metadata errors on this image first:\n\n${lintResults[image.id].filter(issue => issue.severity === 'error').map(issue => issue.message).join('\n')}`);
+
+    const reportLintBlocked = (blocked: ProcessedImage[], action: string) => {
+        if (blocked.length === 0) return;
+        alert(`${blocked.length} image(s) left out of the ${action} because of metadata errors:\n\n${blocked.map(img => img.metadata?.name || img.file.name).join('\n')}\n\nFix them on the cards or turn off blocking in the lint report.`);
+    };
+
     const handleDownload = useCallback(async (id: string) => {
         const image = processedImages.find(img => img.id === id);
         if (!image || !image.metadata) return;
+        if (isLintBlocked(image)) {
+            alertLintErrors(image);
+            return;
+        }
         setIsDownloading(id);
         try {
-            const blobToProcess = image.finalImageBlob || (image.enhancedImage ? await (await fetch(image.enhancedImage)).blob() : image.file);
-            const finalBlob = await embedMetadata(blobToProcess, image.metadata, businessName, image.appliedLocation);
-            const url = URL.createObjectURL(finalBlob);
-            const a = document.createElement('a');
-            a.href = url;
-            const cleanFilename = slugify(image.metadata.name) || 'seo-image';
-            a.download = `${cleanFilename}.jpeg`;
-            a.click();
-            URL.revokeObjectURL(url);
+            const renditions = await buildImageRenditions({ ...image, metadata: image.metadata }, 'seo-image');
+            await downloadRenditions(renditions, `${slugify(image.metadata.name) || 'seo-image'}.zip`);
         } catch (e) { console.error(e); } finally { setIsDownloading(null); }
-    }, [processedImages, businessName]);
+    }, [processedImages, buildImageRenditions, isLintBlocked, lintResults]);
     
     const handleDownloadAll = useCallback(async () => {
         setIsDownloading('all');
         const zip = new JSZip();
         try {
-            const readyImages = processedImages.filter(img => img.status === 'ready');
+            const readyImages = processedImages.filter(img => img.status === 'ready' && !isLintBlocked(img));
+            const sidecarImages: SidecarImage[] = [];
             for (const image of readyImages) {
                 if (image.metadata) {
-                    const blobToProcess = image.finalImageBlob || (image.enhancedImage ? await (await fetch(image.enhancedImage)).blob() : image.file);
-                    const finalBlob = await embedMetadata(blobToProcess, image.metadata, businessName, image.appliedLocation);
-                    const cleanFilename = slugify(image.metadata.name) || `image-${image.id}`;
-                    zip.file(`${cleanFilename}.jpeg`, finalBlob);
+                    const baseName = getBaseName(image);
+                    const renditions = await buildImageRenditions({ ...image, metadata: image.metadata }, baseName);
+                    renditions.forEach(rendition => zip.file(rendition.fileName, rendition.blob));
+                    sidecarImages.push({ baseName, metadata: image.metadata, location: image.appliedLocation, renditions });
                 }
             }
-            const content = await zip.generateAsync({ type: 'blob' });
-            const url = URL.createObjectURL(content);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = 'geo_tagged_seo_assets.zip';
-            a.click();
-            URL.revokeObjectURL(url);
+            buildSidecarFiles(sidecarImages, sidecarExports, tagCategories, { companyInfo, businessName }).forEach(file => zip.file(file.fileName, file.content));
+            downloadBlob(await zip.generateAsync({ type: 'blob' }), 'geo_tagged_seo_assets.zip');
+            reportLintBlocked(processedImages.filter(img => img.status === 'ready' && isLintBlocked(img)), 'download');
         } catch (e) { console.error(e); } finally { setIsDownloading(null); }
-    }, [processedImages, businessName]);
+    }, [processedImages, buildImageRenditions, sidecarExports, tagCategories, companyInfo, businessName, isLintBlocked, getBaseName]);
+
+    // JSON-LD shown on the card, pointing at the file name the download will produce
+    const buildCardJsonLd = (image: ProcessedImage): string | undefined => {
+        if (!image.metadata) return undefined;
+        const fileName = predictPrimaryFileName(getBaseName(image), renditionProfile);
+        const contentUrl = resolveContentUrl(sidecarExports.contentUrlPattern, sidecarExports.imageBaseUrl, fileName, image.appliedLocation);
+        return toJsonLdScript(toJsonLdDocument([buildImageObject(image.metadata, image.appliedLocation, companyInfo, businessName, contentUrl)]));
+    };
+
+    const handleExportGbp = useCallback(async () => {
+        setIsDownloading('gbp');
+        try {
+            const readyImages = processedImages.filter((img): img is ProcessedImage & { metadata: Metadata } => img.status === 'ready' && !!img.metadata && !isLintBlocked(img));
+            reportLintBlocked(processedImages.filter(img => img.status === 'ready' && isLintBlocked(img)), 'Google Business Profile export');
+            const gbpPackage = await buildGbpPackage(await Promise.all(readyImages.map(async image => ({
+                baseName: getBaseName(image),
+                source: await getRenditionSource(image),
+                metadata: image.metadata,
+                location: image.appliedLocation,
+                writeMetadata: createMetadataWriter(image),
+            }))));
+            if (gbpPackage.files.length === 0) {
+                alert(`No images meet Google Business Profile's minimum size.\n\n${gbpPackage.skipped.map(s => `${s.name}: ${s.reason}`).join('\n')}`);
+                return;
+            }
+
+            const zip = new JSZip();
+            gbpPackage.files.forEach(file => zip.file(file.fileName, file.blob));
+            zip.file('gbp-manifest.json', buildGbpManifestJson(gbpPackage.manifest, companyInfo));
+            downloadBlob(await zip.generateAsync({ type: 'blob' }), 'google_business_profile_photos.zip');
+            if (gbpPackage.skipped.length > 0) {
+                alert(`Skipped ${gbpPackage.skipped.length} image(s) Google would reject:\n\n${gbpPackage.skipped.map(s => `${s.name}: ${s.reason}`).join('\n')}`);
+            }
+        } catch (e) { console.error(e); } finally { setIsDownloading(null); }
+    }, [processedImages, companyInfo, createMetadataWriter, getRenditionSource, isLintBlocked, getBaseName]);
+
+    const setPublishRecord = (id: string, publish: PublishRecord) =>
+        setProcessedImages(prev => prev.map(img => img.id === id ? { ...img, publish } : img));
+
+    // Uploads the primary rendition; a record for the same site makes re-publishing update that media item
+    const publishImage = useCallback(async (image: ProcessedImage) => {
+        if (!image.metadata) return;
+        const siteUrl = normalizeSiteUrl(wordPress.siteUrl);
+        const existing = image.publish?.siteUrl === siteUrl ? image.publish : undefined;
+        setPublishRecord(image.id, { ...image.publish, status: 'publishing', siteUrl, error: undefined, warning: undefined });
+        try {
+            const source = await getRenditionSource(image);
+            const renditions = await buildImageRenditions({ ...image, metadata: image.metadata }, `image-${image.id}`, source);
+            const primary = pickPrimaryRendition(renditions);
+            const file = { blob: primary.blob, fileName: primary.fileName, contentHash: await hashPublishContent(source, primary) };
+            const result = await publishToWordPress(file, image.metadata, wordPress, getWordPressPassword(siteUrl), existing);
+            setPublishRecord(image.id, { status: 'published', siteUrl, ...result, publishedAt: Date.now() });
+        } catch (e) {
+            console.error('[WordPress] Publish failed:', e);
+            setPublishRecord(image.id, { ...image.publish, status: 'error', siteUrl, error: e instanceof Error ? e.message : 'Unknown error' });
+        }
+    }, [wordPress, buildImageRenditions, getRenditionSource]);
+
+    const handlePublish = useCallback((id: string) => {
+        if (!wordPress.siteUrl) {
+            setShowWordPressModal(true);
+            return;
+        }
+        const image = processedImages.find(img => img.id === id);
+        if (!image) return;
+        if (isLintBlocked(image)) {
+            alertLintErrors(image);
+            return;
+        }
+        publishImage(image);
+    }, [processedImages, wordPress.siteUrl, publishImage, isLintBlocked, lintResults]);
+
+    const handlePublishAll = useCallback(async () => {
+        if (!wordPress.siteUrl) {
+            setShowWordPressModal(true);
+            return;
+        }
+        setIsPublishingAll(true);
+        try {
+            // One at a time: WordPress generates its thumbnails synchronously on upload
+            reportLintBlocked(processedImages.filter(img => img.status === 'ready' && isLintBlocked(img)), 'publish');
+            for (const image of processedImages.filter(img => img.status === 'ready' && img.metadata && !isLintBlocked(img))) {
+                await publishImage(image);
+            }
+        } finally {
+            setIsPublishingAll(false);
+        }
+    }, [processedImages, wordPress.siteUrl, publishImage, isLintBlocked]);
+
+    const handleSaveWordPress = (settings: WordPressSettings, password: string) => {
+        saveWordPressPassword(settings.siteUrl, password);
+        setWordPress(settings);
+        setShowWordPressModal(false);
+    };
 
     const TechAdderUploader: React.FC<{onFile: (f: File) => void, preview: string | null, title: string}> = ({onFile, preview, title}) => {
         const ref = useRef<HTMLInputElement>(null);
@@ -839,7 +2513,8 @@ const App: React.FC = () => {
                 finalImageBlob: null,
                 error: errorMessage,
                 appliedOptions: options,
-                appliedLocation: currentLocation // Or a dummy location if not applicable
+                appliedLocation: currentLocation, // Or a dummy location if not applicable
+                attempts: 0
             });
         }
     };
@@ -864,7 +2539,8 @@ const App: React.FC = () => {
             finalImageBlob: null, 
             error: null, 
             appliedOptions: options, 
-            appliedLocation: currentLocation 
+            appliedLocation: currentLocation,
+            attempts: 0
         });
 
         try {
@@ -878,9 +2554,15 @@ const App: React.FC = () => {
             const blob = await (await fetch(`data:${mimeType};base64,${base64}`)).blob();
             const file = new File([blob], 'composite_scene.png', { type: mimeType });
             
-            const locationToUse = options.randomizeLocation 
-                ? customPresets[Math.floor(Math.random() * customPresets.length)]
-                : { ...currentLocation };
+            // The composite has no EXIF of its own, so GPS strategies use the base photo's
+            const baseExif = await readSourceExif(techAdderBaseImage);
+            const locationToUse = resolveUploadLocation(options.locationStrategy, baseExif?.gps, {
+                fixed: currentLocation,
+                presets: customPresets,
+                gazetteer: searchableLocations,
+                serviceArea: serviceAreas.find(area => area.id === locationSampling.serviceAreaId),
+                sampling: locationSampling
+            });
 
             setTechAdderResult(prev => ({ 
                 ...prev!,
@@ -892,7 +2574,7 @@ const App: React.FC = () => {
                 appliedLocation: locationToUse 
             }));
             
-            const metadata = await generateImageMetadata(file, businessName);
+            const metadata = await generateImageMetadata(file, businessName, activeTemplate, tagCategories.map(c => c.category), languages);
             setTechAdderResult(prev => prev ? { ...prev, metadata, status: 'ready', statusText: 'Synthesized', finalImageBlob: blob } : null);
         } catch (err) { 
             const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
@@ -905,7 +2587,8 @@ const App: React.FC = () => {
                     enhancedImage: null,
                     finalImageBlob: null,
                     appliedOptions: options,
-                    appliedLocation: currentLocation
+                    appliedLocation: currentLocation,
+                    attempts: 0
                 };
                 return { ...base, status: 'error', statusText: 'Error', error: errorMessage };
             });
@@ -920,15 +2603,8 @@ const App: React.FC = () => {
         if (!techAdderResult || !techAdderResult.metadata) return;
         setIsDownloading(techAdderResult.id);
         try {
-            const blob = techAdderResult.finalImageBlob || (techAdderResult.enhancedImage ? await (await fetch(techAdderResult.enhancedImage)).blob() : techAdderResult.file);
-            const final = await embedMetadata(blob, techAdderResult.metadata, businessName, techAdderResult.appliedLocation);
-            const url = URL.createObjectURL(final);
-            const a = document.createElement('a'); 
-            a.href = url;
-            const cleanFilename = slugify(techAdderResult.metadata.name) || 'composite-seo';
-            a.download = `${cleanFilename}.jpeg`;
-            a.click();
-            URL.revokeObjectURL(url);
+            const renditions = await buildImageRenditions({ ...techAdderResult, metadata: techAdderResult.metadata }, 'composite-seo');
+            await downloadRenditions(renditions, `${slugify(techAdderResult.metadata.name) || 'composite-seo'}.zip`);
         } finally { 
             setIsDownloading(null); 
         }
@@ -944,8 +2620,26 @@ const App: React.FC = () => {
                 isOpen={showApiKeyModal} 
                 apiKeyInput={apiKeyInput} 
                 setApiKeyInput={setApiKeyInput} 
+                providerSettings={providerSettings}
+                setProviderSettings={setProviderSettings}
+                openAiKeyInput={openAiKeyInput}
+                setOpenAiKeyInput={setOpenAiKeyInput}
                 onSave={handleSaveApiKey} 
             />
+            {inspection && <MetadataInspector {...inspection} onClose={() => setInspection(null)} />}
+            {showLintReport && (
+                <LintReportModal images={processedImages} results={lintResults} blockOnErrors={lintSettings.blockOnErrors}
+                    onBlockOnErrorsChange={(value) => setLintSettings(prev => ({ ...prev, blockOnErrors: value }))} onClose={() => setShowLintReport(false)} />
+            )}
+            {showWordPressModal && (
+                <WordPressModal settings={wordPress} password={getWordPressPassword(wordPress.siteUrl)}
+                    onSave={handleSaveWordPress} onClose={() => setShowWordPressModal(false)} />
+            )}
+            {pendingImport && (
+                <MetadataImportModal fileName={pendingImport.fileName} table={pendingImport.table} initialMapping={pendingImport.mapping}
+                    initialSkipAi={metadataImport?.skipAiWhenComplete ?? false}
+                    onConfirm={handleConfirmMetadataImport} onClose={() => setPendingImport(null)} />
+            )}
             {globalDragActive && <DragOverlay />}
             <div className="min-h-screen bg-slate-900 text-white p-4 sm:p-8 lg:p-12 font-sans relative overflow-x-hidden">
                 <div className="max-w-5xl mx-auto">
@@ -967,17 +2661,41 @@ const App: React.FC = () => {
                             Professional SEO metadata generation for image libraries
                         </p>
 
-                        {/* API Key Settings Button */}
-                        <div className="absolute top-0 right-0">
+                        {/* API Key Settings & Inspector Buttons */}
+                        <div className="absolute top-0 right-0 flex flex-col items-end gap-2">
                             <button
                                 onClick={() => setShowApiKeyModal(true)}
                                 className="flex items-center gap-2 bg-slate-800/50 hover:bg-slate-700/50 text-slate-300 hover:text-white px-4 py-2 rounded-xl text-xs font-semibold transition-all border border-slate-700 hover:border-cyan-600/50"
-                                title="Manage API Key"
+                                title="Manage AI Provider"
                             >
                                 <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
                                 </svg>
-                                <span>API Key</span>
+                                <span>{PROVIDER_OPTIONS.find(p => p.id === providerSettings.provider)?.label || 'API Key'}</span>
+                            </button>
+                            <input ref={inspectorInputRef} type="file" accept="image/jpeg,image/png,image/webp" className="hidden" onChange={e => {
+                                if (e.target.files?.[0]) handleInspectFile(e.target.files[0]);
+                                e.target.value = '';
+                            }} />
+                            <button
+                                onClick={() => inspectorInputRef.current?.click()}
+                                className="flex items-center gap-2 bg-slate-800/50 hover:bg-slate-700/50 text-slate-300 hover:text-white px-4 py-2 rounded-xl text-xs font-semibold transition-all border border-slate-700 hover:border-cyan-600/50"
+                                title="Read the metadata embedded in any JPEG, PNG or WebP"
+                            >
+                                <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                                </svg>
+                                <span>Inspector</span>
+                            </button>
+                            <button
+                                onClick={() => setShowWordPressModal(true)}
+                                className="flex items-center gap-2 bg-slate-800/50 hover:bg-slate-700/50 text-slate-300 hover:text-white px-4 py-2 rounded-xl text-xs font-semibold transition-all border border-slate-700 hover:border-cyan-600/50"
+                                title={wordPress.siteUrl ? `Publishing to ${wordPress.siteUrl}` : 'Set up WordPress publishing'}
+                            >
+                                <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+                                </svg>
+                                <span>WordPress</span>
                             </button>
                         </div>
                     </header>
@@ -997,6 +2715,27 @@ const App: React.FC = () => {
                         <div className="absolute -top-24 -left-24 w-96 h-96 bg-cyan-600/5 blur-[120px] pointer-events-none"></div>
                         <div className="absolute -bottom-24 -right-24 w-96 h-96 bg-cyan-600/5 blur-[120px] pointer-events-none"></div>
                         
+                        {/* Project Switcher */}
+                        <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-6 bg-slate-800/60 p-4 rounded-3xl border border-slate-700/50 relative z-10">
+                            <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-[0.2em] text-cyan-400">
+                                <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" /></svg>
+                                Project
+                            </div>
+                            <select
+                                value={activeProjectId}
+                                onChange={(e) => handleSwitchProject(e.target.value)}
+                                disabled={!projectsLoaded}
+                                className="flex-grow bg-slate-900/50 border border-slate-700 rounded-xl py-2 px-3 text-[11px] text-white focus:outline-none appearance-none cursor-pointer"
+                            >
+                                {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                            </select>
+                            <div className="flex gap-2">
+                                <button onClick={handleCreateProject} disabled={!projectsLoaded} className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-slate-800 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all">New</button>
+                                <button onClick={handleRenameProject} disabled={!projectsLoaded} className="bg-slate-700 hover:bg-slate-600 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all">Rename</button>
+                                <button onClick={handleDeleteProject} disabled={!projectsLoaded || projects.length < 2} className="bg-slate-700 hover:bg-red-600/60 disabled:opacity-40 text-red-300 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all">Delete</button>
+                            </div>
+                        </div>
+
                         {/* Global Controls - Shared across all modes */}
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
                             <div className="bg-slate-800/60 p-5 rounded-3xl border border-slate-700/50 shadow-sm relative z-10">
@@ -1042,28 +2781,81 @@ const App: React.FC = () => {
                                 <TagCategoryManager categories={tagCategories} onChange={setTagCategories} />
                             </div>
 
+                            <div className="bg-slate-800/60 p-5 rounded-3xl border border-slate-700/50 shadow-sm relative z-10 md:col-span-2">
+                                <h3 className="text-[10px] font-black uppercase tracking-[0.2em] text-cyan-400 mb-4 flex items-center gap-2">
+                                    <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+                                    Prompt Template
+                                </h3>
+                                <PromptTemplateEditor templates={promptTemplates} selectedId={activeTemplate.id} onSelect={setSelectedTemplateId} onChange={setPromptTemplates} />
+                                <div className="mt-4 p-3 rounded-2xl bg-slate-700/20 border border-slate-700" title="The first language fills filenames, EXIF and IPTC; the others are generated alongside and written as XMP language alternatives">
+                                    <label className="text-[8px] text-slate-500 uppercase font-black tracking-widest mb-1 block">Languages (first is primary)</label>
+                                    <input type="text" value={languagesInput} placeholder="en, es"
+                                        onChange={(e) => setLanguagesInput(e.target.value)}
+                                        onBlur={() => {
+                                            try {
+                                                const parsed = parseLanguageList(languagesInput);
+                                                const next = parsed.length > 0 ? parsed : DEFAULT_LANGUAGES;
+                                                setLanguages(next);
+                                                setLanguagesInput(next.join(', '));
+                                            } catch (error) {
+                                                alert(error instanceof Error ? error.message : 'Invalid language list.');
+                                                setLanguagesInput(languages.join(', '));
+                                            }
+                                        }}
+                                        className="w-full bg-slate-900/50 border border-slate-700 rounded-xl py-2 px-3 text-[11px] text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/20" />
+                                    <p className="text-[9px] text-slate-500 mt-1.5">{languages.map(getLanguageName).join(' · ')}</p>
+                                </div>
+                            </div>
+
                             <div className="bg-slate-800/60 p-5 rounded-3xl border border-slate-700/50 shadow-sm relative z-10">
                                 <h3 className="text-[10px] font-black uppercase tracking-[0.2em] text-cyan-400 mb-4 flex items-center gap-2">
                                     <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
                                     GEO Hub
                                 </h3>
                                 <div className="space-y-3">
+                                    {/* How uploads get their GPS */}
+                                    <div>
+                                        <label className="text-[9px] text-slate-500 uppercase font-black tracking-widest ml-1 mb-1 block">Location Source</label>
+                                        <div className="grid grid-cols-2 gap-1.5">
+                                            {LOCATION_STRATEGY_OPTIONS.map(option => (
+                                                <button key={option.id}
+                                                    onClick={() => setOptions(prev => ({ ...prev, locationStrategy: option.id }))}
+                                                    title={option.description}
+                                                    className={`py-1.5 px-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all border ${options.locationStrategy === option.id ? 'bg-cyan-600/20 border-cyan-500 text-cyan-300' : 'bg-slate-900/50 border-slate-700 text-slate-500 hover:border-slate-600'}`}>
+                                                    {option.label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+
                                     {/* Search for new locations */}
                                     <div className="relative">
-                                        <label className="text-[9px] text-slate-500 uppercase font-black tracking-widest ml-1 mb-1 block">Search Suburbs</label>
+                                        <div className="flex items-center justify-between ml-1 mb-1">
+                                            <label className="text-[9px] text-slate-500 uppercase font-black tracking-widest">Search Places</label>
+                                            <div className="flex items-center gap-2 text-[8px] font-black uppercase tracking-widest">
+                                                <input ref={gazetteerInputRef} type="file" accept=".csv,.geojson,.json" className="hidden" onChange={e => {
+                                                    if (e.target.files?.[0]) handleImportGazetteer(e.target.files[0]);
+                                                    e.target.value = '';
+                                                }} />
+                                                <button onClick={() => gazetteerInputRef.current?.click()} className="text-slate-500 hover:text-cyan-400" title="Import a gazetteer: CSV (name, lat, lng, postcode, region) or GeoJSON points">Import Gazetteer</button>
+                                                {gazetteer.length > 0 && (
+                                                    <button onClick={handleClearGazetteer} className="text-slate-600 hover:text-red-400" title="Remove imported places">{gazetteer.length} imported ×</button>
+                                                )}
+                                            </div>
+                                        </div>
                                         <input
                                             type="text"
                                             value={locationSearch}
                                             onChange={(e) => handleLocationSearch(e.target.value)}
-                                            placeholder="Type suburb or state..."
+                                            placeholder="Type place, postcode or state..."
                                             className="w-full bg-slate-900/50 border border-slate-700 rounded-xl py-2 px-3 text-[11px] text-white focus:outline-none focus:ring-2 focus:ring-cyan-500/20"
-                                            disabled={options.randomizeLocation}
+                                            disabled={options.locationStrategy === 'random'}
                                         />
                                         {searchResults.length > 0 && (
                                             <div className="absolute top-full left-0 right-0 mt-1 bg-slate-800 border border-slate-700 rounded-xl shadow-2xl max-h-64 overflow-y-auto z-50">
                                                 {searchResults.map(loc => (
                                                     <button
-                                                        key={loc.name}
+                                                        key={`${loc.name}-${loc.lat}-${loc.lng}`}
                                                         onClick={() => addLocationToPresets(loc)}
                                                         className="w-full text-left px-3 py-2 hover:bg-cyan-600/20 transition-colors border-b border-slate-700/50 last:border-0"
                                                     >
@@ -1079,21 +2871,21 @@ const App: React.FC = () => {
                                     <div className="flex gap-2">
                                         <select className="flex-grow bg-slate-900/50 border border-slate-700 rounded-xl py-2 px-3 text-[11px] text-white focus:outline-none appearance-none cursor-pointer"
                                             value={currentLocation.name}
-                                            disabled={options.randomizeLocation}
+                                            disabled={options.locationStrategy === 'random'}
                                             onChange={(e) => {
                                                 const loc = customPresets.find(l => l.name === e.target.value);
                                                 if (loc) setCurrentLocation(loc);
                                             }}>
                                             {customPresets.map(l => <option key={l.name} value={l.name}>{l.name}</option>)}
                                         </select>
-                                        <button onClick={fetchBrowserLocation} disabled={isFetchingLocation || options.randomizeLocation}
+                                        <button onClick={fetchBrowserLocation} disabled={isFetchingLocation || options.locationStrategy === 'random'}
                                             className="bg-cyan-600 hover:bg-cyan-500 p-2.5 rounded-xl disabled:bg-slate-800 transition-all shadow-lg active:scale-95" title="Fetch Live GPS">
                                             <svg className={`h-4 w-4 ${isFetchingLocation ? 'animate-spin' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" /></svg>
                                         </button>
                                     </div>
 
                                     {/* Lat/Lng display */}
-                                    <div className={`flex gap-2 transition-opacity ${options.randomizeLocation ? 'opacity-30 pointer-events-none' : 'opacity-100'}`}>
+                                    <div className={`flex gap-2 transition-opacity ${options.locationStrategy === 'random' ? 'opacity-30 pointer-events-none' : 'opacity-100'}`}>
                                         <div className="relative w-1/2">
                                             <input type="number" step="0.000001" value={currentLocation.lat} onChange={e => setCurrentLocation({...currentLocation, lat: parseFloat(e.target.value), name: 'Manual'})} className="w-full bg-slate-900/50 border border-slate-700 rounded-xl py-2 px-3 text-[10px] text-slate-300 font-mono" placeholder="LAT" />
                                         </div>
@@ -1103,27 +2895,84 @@ const App: React.FC = () => {
                                     </div>
 
                                     {/* Custom presets list */}
-                                    {customPresets.length > 0 && (
-                                        <div className="bg-slate-900/30 p-3 rounded-xl border border-slate-700/50 max-h-48 overflow-y-auto">
-                                            <div className="text-[9px] font-black text-cyan-400 uppercase tracking-widest mb-2">My Locations ({customPresets.length})</div>
-                                            <div className="space-y-1">
-                                                {customPresets.map(preset => (
-                                                    <div key={preset.name} className="flex items-center justify-between bg-slate-800/50 px-2 py-1.5 rounded-lg group hover:bg-slate-700/50 transition-colors">
-                                                        <span className="text-[10px] text-slate-300">{preset.name}</span>
-                                                        {customPresets.length > 1 && (
+                                    <div className="bg-slate-900/30 p-3 rounded-xl border border-slate-700/50 max-h-48 overflow-y-auto">
+                                        <div className="flex items-center justify-between mb-2">
+                                            <div className="text-[9px] font-black text-cyan-400 uppercase tracking-widest">My Locations ({customPresets.length})</div>
+                                            <div className="flex gap-1">
+                                                <input ref={presetsInputRef} type="file" accept=".csv,.geojson,.json" className="hidden" onChange={e => {
+                                                    if (e.target.files?.[0]) handleImportPresets(e.target.files[0]);
+                                                    e.target.value = '';
+                                                }} />
+                                                <button onClick={() => presetsInputRef.current?.click()} className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-white bg-slate-800 px-2 py-1 rounded-lg border border-slate-700" title="Add locations from a shared GeoJSON or CSV file">Import</button>
+                                                {customPresets.length > 0 && <button onClick={handleExportPresets} className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-white bg-slate-800 px-2 py-1 rounded-lg border border-slate-700" title="Download My Locations as GeoJSON">Export</button>}
+                                            </div>
+                                        </div>
+                                        {customPresets.length > 0 && <div className="space-y-1">
+                                            {customPresets.map(preset => (
+                                                <div key={preset.name} className="flex items-center justify-between bg-slate-800/50 px-2 py-1.5 rounded-lg group hover:bg-slate-700/50 transition-colors">
+                                                    <span className="text-[10px] text-slate-300">{preset.name}</span>
+                                                    {customPresets.length > 1 && (
+                                                        <button
+                                                            onClick={() => removeLocationFromPresets(preset.name)}
+                                                            className="text-red-400 hover:text-red-300 opacity-0 group-hover:opacity-100 transition-opacity"
+                                                            title="Remove"
+                                                        >
+                                                            ×
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            ))}
+                                        </div>}
+                                    </div>
+
+                                    {/* Service areas & randomization spacing */}
+                                    <div className="bg-slate-900/30 p-3 rounded-xl border border-slate-700/50">
+                                        <div className="flex items-center justify-between mb-2">
+                                            <div className="text-[9px] font-black text-cyan-400 uppercase tracking-widest">Service Areas ({serviceAreas.length})</div>
+                                            <div className="flex gap-1">
+                                                <input ref={serviceAreaInputRef} type="file" accept=".geojson,.json,application/geo+json,application/json" className="hidden" onChange={e => {
+                                                    if (e.target.files?.[0]) handleImportServiceAreas(e.target.files[0]);
+                                                    e.target.value = '';
+                                                }} />
+                                                <button onClick={() => serviceAreaInputRef.current?.click()} className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-white bg-slate-800 px-2 py-1 rounded-lg border border-slate-700" title="Import Polygon, MultiPolygon or Point+radius features">GeoJSON</button>
+                                                <button onClick={handleAddRadiusArea} className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-white bg-slate-800 px-2 py-1 rounded-lg border border-slate-700" title="Circle around the selected location">+ Radius</button>
+                                            </div>
+                                        </div>
+                                        {serviceAreas.length > 0 && (
+                                            <div className="space-y-1 mb-2 max-h-32 overflow-y-auto">
+                                                {serviceAreas.map(area => (
+                                                    <div key={area.id} className={`flex items-center justify-between px-2 py-1.5 rounded-lg group transition-colors cursor-pointer ${locationSampling.serviceAreaId === area.id ? 'bg-cyan-600/20 border border-cyan-500/50' : 'bg-slate-800/50 border border-transparent hover:bg-slate-700/50'}`}
+                                                        onClick={() => setLocationSampling(prev => ({ ...prev, serviceAreaId: area.id }))}>
+                                                        <span className="text-[10px] text-slate-300 truncate">{area.name}</span>
+                                                        <div className="flex items-center gap-2">
+                                                            <span className="text-[8px] text-slate-500 uppercase tracking-widest">{area.kind === 'radius' ? `${area.radiusKm} km` : 'polygon'}</span>
                                                             <button
-                                                                onClick={() => removeLocationFromPresets(preset.name)}
+                                                                onClick={(e) => { e.stopPropagation(); handleRemoveServiceArea(area.id); }}
                                                                 className="text-red-400 hover:text-red-300 opacity-0 group-hover:opacity-100 transition-opacity"
                                                                 title="Remove"
                                                             >
                                                                 ×
                                                             </button>
-                                                        )}
+                                                        </div>
                                                     </div>
                                                 ))}
                                             </div>
+                                        )}
+                                        <div className="flex gap-2">
+                                            <label className="w-1/2">
+                                                <span className="text-[8px] text-slate-500 uppercase font-black tracking-widest ml-1 block" title="Random offset around presets for the Randomized source">Jitter (m)</span>
+                                                <input type="number" min={0} step={50} value={locationSampling.jitterMeters}
+                                                    onChange={e => setLocationSampling(prev => ({ ...prev, jitterMeters: Math.max(0, parseInt(e.target.value) || 0) }))}
+                                                    className="w-full bg-slate-900/50 border border-slate-700 rounded-xl py-1.5 px-3 text-[10px] text-slate-300 font-mono" />
+                                            </label>
+                                            <label className="w-1/2">
+                                                <span className="text-[8px] text-slate-500 uppercase font-black tracking-widest ml-1 block" title="Randomized images stay at least this far apart">Min Spacing (m)</span>
+                                                <input type="number" min={0} step={10} value={locationSampling.minSpacingMeters}
+                                                    onChange={e => setLocationSampling(prev => ({ ...prev, minSpacingMeters: Math.max(0, parseInt(e.target.value) || 0) }))}
+                                                    className="w-full bg-slate-900/50 border border-slate-700 rounded-xl py-1.5 px-3 text-[10px] text-slate-300 font-mono" />
+                                            </label>
                                         </div>
-                                    )}
+                                    </div>
                                 </div>
                             </div>
 
@@ -1134,8 +2983,262 @@ const App: React.FC = () => {
                                 </h3>
                                 <div className="space-y-2">
                                     <ToggleSwitch label="AI Meta" description="SEO-tuned data" checked={options.generateMetadata} onChange={(val) => setOptions(prev => ({ ...prev, generateMetadata: val }))} />
-                                    <ToggleSwitch label="Auto-GPS" description="Bulk shuffle" checked={options.randomizeLocation} onChange={(val) => setOptions(prev => ({ ...prev, randomizeLocation: val }))} />
                                     <ToggleSwitch label="Manual Override" description="Use custom tags" checked={options.useManualMetadata} onChange={(val) => setOptions(prev => ({ ...prev, useManualMetadata: val }))} />
+                                    <div className="p-3 rounded-2xl bg-slate-700/20 border border-slate-700" title="Per-image titles, alt text and tags from a CSV/JSON keyed by original filename; applied when Manual Override is on">
+                                        <div className="flex items-center justify-between">
+                                            <span className="text-[10px] font-black text-slate-200 uppercase tracking-widest">Bulk Metadata</span>
+                                            <input ref={metadataImportInputRef} type="file" accept=".csv,.json" className="hidden" onChange={e => {
+                                                if (e.target.files?.[0]) handleImportMetadataFile(e.target.files[0]);
+                                                e.target.value = '';
+                                            }} />
+                                            <button onClick={() => metadataImportInputRef.current?.click()} className="text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-cyan-400">Import CSV/JSON</button>
+                                        </div>
+                                        {metadataImport && (
+                                            <div className="mt-2 space-y-2">
+                                                <div className="flex items-center justify-between gap-2 text-[9px]">
+                                                    <span className="text-slate-400 font-mono truncate" title={metadataImport.sourceName}>{metadataImport.sourceName} · {Object.keys(metadataImport.rows).length} files</span>
+                                                    <button onClick={() => setMetadataImport(null)} className="text-slate-600 hover:text-red-400 font-black uppercase tracking-widest shrink-0">Clear ×</button>
+                                                </div>
+                                                <button onClick={() => setMetadataImport(prev => prev && ({ ...prev, skipAiWhenComplete: !prev.skipAiWhenComplete }))}
+                                                    className={`w-full py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all border ${metadataImport.skipAiWhenComplete ? 'bg-cyan-600/20 border-cyan-500 text-cyan-300' : 'bg-slate-900/50 border-slate-700 text-slate-500'}`}>
+                                                    Skip AI for Complete Rows
+                                                </button>
+                                            </div>
+                                        )}
+                                    </div>
+                                    <div className="p-3 rounded-2xl bg-slate-700/20 border border-slate-700 space-y-2" title="Applies to photos added from now on">
+                                        <span className="text-[10px] font-black text-slate-200 uppercase tracking-widest">Image Enhancement</span>
+                                        <div className="grid grid-cols-4 gap-1.5">
+                                            {ENHANCEMENT_MODES.map(mode => (
+                                                <button key={mode.label} title={mode.description}
+                                                    onClick={() => setOptions(prev => ({ ...prev, localEnhance: mode.localEnhance, enhanceImage: mode.enhanceImage }))}
+                                                    className={`py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all border ${options.localEnhance === mode.localEnhance && options.enhanceImage === mode.enhanceImage ? 'bg-cyan-600/20 border-cyan-500 text-cyan-300' : 'bg-slate-900/50 border-slate-700 text-slate-500'}`}>
+                                                    {mode.label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        {options.localEnhance && (
+                                            <>
+                                                <div className="flex gap-1.5">
+                                                    {(Object.keys(ENHANCEMENT_PRESETS) as (keyof typeof ENHANCEMENT_PRESETS)[]).map(preset => (
+                                                        <button key={preset}
+                                                            onClick={() => setEnhancementSettings({ preset, ...ENHANCEMENT_PRESETS[preset].settings })}
+                                                            className={`flex-1 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest transition-all border ${enhancementSettings.preset === preset ? 'bg-cyan-600/20 border-cyan-500 text-cyan-300' : 'bg-slate-900/50 border-slate-700 text-slate-500'}`}>
+                                                            {ENHANCEMENT_PRESETS[preset].label}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                                {ENHANCEMENT_SLIDERS.map(([key, label]) => (
+                                                    <label key={key} className="grid grid-cols-[5.5rem_1fr_2rem] items-center gap-2">
+                                                        <span className="text-[8px] text-slate-500 uppercase font-black tracking-widest">{label}</span>
+                                                        <input type="range" min={0} max={100} value={enhancementSettings[key]}
+                                                            onChange={e => setEnhancementSettings(prev => ({ ...prev, preset: 'custom', [key]: parseInt(e.target.value) }))}
+                                                            className="accent-cyan-500" />
+                                                        <span className="text-[9px] text-slate-400 font-mono text-right">{enhancementSettings[key]}</span>
+                                                    </label>
+                                                ))}
+                                            </>
+                                        )}
+                                    </div>
+                                    <div className="p-3 rounded-2xl bg-slate-700/20 border border-slate-700 space-y-2" title="The vision provider finds the selected details and they are blurred before enhancement; applies to photos added from now on">
+                                        <div className="flex items-center justify-between">
+                                            <span className="text-[10px] font-black text-slate-200 uppercase tracking-widest">Privacy Redaction</span>
+                                            <button onClick={() => setOptions(prev => ({ ...prev, redactPrivacy: !prev.redactPrivacy }))}
+                                                className={`px-2.5 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all border ${options.redactPrivacy ? 'bg-cyan-600/20 border-cyan-500 text-cyan-300' : 'bg-slate-900/50 border-slate-700 text-slate-500'}`}>
+                                                {options.redactPrivacy ? 'On' : 'Off'}
+                                            </button>
+                                        </div>
+                                        {options.redactPrivacy && (
+                                            <>
+                                                <div className="flex gap-1.5">
+                                                    {REDACTION_TARGETS.map(target => (
+                                                        <button key={target.id}
+                                                            onClick={() => setRedactionSettings(prev => ({ ...prev, targets: prev.targets.includes(target.id) ? prev.targets.filter(t => t !== target.id) : [...prev.targets, target.id] }))}
+                                                            className={`flex-1 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest transition-all border ${redactionSettings.targets.includes(target.id) ? 'bg-cyan-600/20 border-cyan-500 text-cyan-300' : 'bg-slate-900/50 border-slate-700 text-slate-500'}`}>
+                                                            {target.label}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                                <div className="flex gap-1.5">
+                                                    {(['blur', 'pixelate'] as RedactionSettings['style'][]).map(style => (
+                                                        <button key={style} onClick={() => setRedactionSettings(prev => ({ ...prev, style }))}
+                                                            className={`flex-1 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest transition-all border ${redactionSettings.style === style ? 'bg-cyan-600/20 border-cyan-500 text-cyan-300' : 'bg-slate-900/50 border-slate-700 text-slate-500'}`}>
+                                                            {style}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                            </>
+                                        )}
+                                    </div>
+                                    <div className="p-3 rounded-2xl bg-slate-700/20 border border-slate-700 space-y-2" title="Drawn after enhancement and before the metadata is embedded; applies to photos added from now on">
+                                        <div className="flex items-center justify-between">
+                                            <span className="text-[10px] font-black text-slate-200 uppercase tracking-widest">Branding</span>
+                                            <button onClick={() => setOptions(prev => ({ ...prev, applyBranding: !prev.applyBranding }))}
+                                                className={`px-2.5 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all border ${options.applyBranding ? 'bg-cyan-600/20 border-cyan-500 text-cyan-300' : 'bg-slate-900/50 border-slate-700 text-slate-500'}`}>
+                                                {options.applyBranding ? 'On' : 'Off'}
+                                            </button>
+                                        </div>
+                                        {options.applyBranding && (
+                                            <>
+                                                <input ref={logoInputRef} type="file" accept="image/png,image/svg+xml" className="hidden" onChange={async e => {
+                                                    const file = e.target.files?.[0];
+                                                    e.target.value = '';
+                                                    if (!file) return;
+                                                    try {
+                                                        const logo = await readLogoFile(file);
+                                                        setBranding(prev => ({ ...prev, logo, logoName: file.name }));
+                                                    } catch (err) {
+                                                        alert(`Could not use logo: ${err instanceof Error ? err.message : 'Unknown error'}`);
+                                                    }
+                                                }} />
+                                                <div className="flex items-center gap-2">
+                                                    {branding.logo ? (
+                                                        <>
+                                                            <img src={branding.logo} alt="Logo" className="h-8 w-16 object-contain rounded-lg bg-slate-900/50 border border-slate-700 p-1" />
+                                                            <span className="flex-1 text-[9px] text-slate-400 font-mono truncate" title={branding.logoName}>{branding.logoName}</span>
+                                                            <button onClick={() => setBranding(prev => ({ ...prev, logo: null, logoName: '' }))} className="text-[9px] text-slate-600 hover:text-red-400 font-black uppercase tracking-widest shrink-0">Clear ×</button>
+                                                        </>
+                                                    ) : (
+                                                        <button onClick={() => logoInputRef.current?.click()}
+                                                            className="w-full py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all border bg-slate-900/50 border-slate-700 text-slate-500 hover:text-cyan-400">
+                                                            Upload Logo (PNG/SVG)
+                                                        </button>
+                                                    )}
+                                                </div>
+                                                <div className="grid grid-cols-5 gap-1">
+                                                    {WATERMARK_POSITIONS.map(position => (
+                                                        <button key={position.id} title={position.label} onClick={() => setBranding(prev => ({ ...prev, position: position.id }))}
+                                                            className={`py-1 rounded-lg text-[8px] font-black uppercase tracking-widest transition-all border ${branding.position === position.id ? 'bg-cyan-600/20 border-cyan-500 text-cyan-300' : 'bg-slate-900/50 border-slate-700 text-slate-500'}`}>
+                                                            {position.label.split(' ').map(word => word[0]).join('')}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                                {([
+                                                    ['scale', 'Logo Size', 5, 50, '%'],
+                                                    ['opacity', 'Opacity', 10, 100, '%'],
+                                                    ['margin', 'Margin', 0, 10, '%'],
+                                                ] as ['scale' | 'opacity' | 'margin', string, number, number, string][]).map(([key, label, min, max, unit]) => (
+                                                    <label key={key} className="grid grid-cols-[5.5rem_1fr_2rem] items-center gap-2">
+                                                        <span className="text-[8px] text-slate-500 uppercase font-black tracking-widest">{label}</span>
+                                                        <input type="range" min={min} max={max} value={branding[key]}
+                                                            onChange={e => setBranding(prev => ({ ...prev, [key]: parseInt(e.target.value) }))}
+                                                            className="accent-cyan-500" />
+                                                        <span className="text-[9px] text-slate-400 font-mono text-right">{branding[key]}{unit}</span>
+                                                    </label>
+                                                ))}
+                                                <div className="flex items-center gap-1.5">
+                                                    <span className="text-[8px] text-slate-500 uppercase font-black tracking-widest w-[5.5rem] shrink-0">Text</span>
+                                                    {WATERMARK_TEXT_FIELDS.map(field => (
+                                                        <button key={field.id}
+                                                            onClick={() => setBranding(prev => ({ ...prev, textFields: prev.textFields.includes(field.id) ? prev.textFields.filter(f => f !== field.id) : WATERMARK_TEXT_FIELDS.map(f => f.id).filter(f => f === field.id || prev.textFields.includes(f)) }))}
+                                                            className={`flex-1 py-1 rounded-lg text-[8px] font-black uppercase tracking-widest transition-all border ${branding.textFields.includes(field.id) ? 'bg-cyan-600/20 border-cyan-500 text-cyan-300' : 'bg-slate-900/50 border-slate-700 text-slate-500'}`}>
+                                                            {field.label}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                                {branding.textFields.length > 0 && (
+                                                    <p className="text-[9px] text-slate-400 font-mono truncate" title="Built from Company Info">{getWatermarkText(branding, companyInfo) || 'Fill in Company Info to add text'}</p>
+                                                )}
+                                            </>
+                                        )}
+                                    </div>
+                                    <div className="p-3 rounded-2xl bg-slate-700/20 border border-slate-700">
+                                        <span className="text-[10px] font-black text-slate-200 uppercase tracking-widest">Embed Standards</span>
+                                        <div className="flex gap-2 mt-2">
+                                            {(['exif', 'xmp', 'iptc'] as (keyof MetadataStandards)[]).map(standard => (
+                                                <button key={standard}
+                                                    onClick={() => setMetadataStandards(prev => ({ ...prev, [standard]: !prev[standard] }))}
+                                                    className={`flex-1 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all border ${metadataStandards[standard] ? 'bg-cyan-600/20 border-cyan-500 text-cyan-300' : 'bg-slate-900/50 border-slate-700 text-slate-500'}`}>
+                                                    {standard}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                    <div className="p-3 rounded-2xl bg-slate-700/20 border border-slate-700" title="Carry these fields over from the camera's original EXIF; titles, GPS and copyright are always ours">
+                                        <span className="text-[10px] font-black text-slate-200 uppercase tracking-widest">Keep Original EXIF</span>
+                                        <div className="flex gap-2 mt-2">
+                                            {([['captureDate', 'Date'], ['camera', 'Camera'], ['exposure', 'Exposure']] as [keyof ExifPreservation, string][]).map(([group, label]) => (
+                                                <button key={group}
+                                                    onClick={() => setExifPreservation(prev => ({ ...prev, [group]: !prev[group] }))}
+                                                    disabled={!metadataStandards.exif}
+                                                    className={`flex-1 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all border disabled:opacity-40 ${exifPreservation[group] ? 'bg-cyan-600/20 border-cyan-500 text-cyan-300' : 'bg-slate-900/50 border-slate-700 text-slate-500'}`}>
+                                                    {label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                    <div className="p-3 rounded-2xl bg-slate-700/20 border border-slate-700 space-y-2">
+                                        <span className="text-[10px] font-black text-slate-200 uppercase tracking-widest">Output Renditions</span>
+                                        <div className="flex gap-2">
+                                            {RENDITION_FORMATS.map(format => {
+                                                const supported = isFormatSupported(format.id);
+                                                const active = renditionProfile.formats.includes(format.id);
+                                                return (
+                                                    <button key={format.id}
+                                                        onClick={() => setRenditionProfile(prev => ({
+                                                            ...prev,
+                                                            // Always keep at least one format selected
+                                                            formats: active ? (prev.formats.length > 1 ? prev.formats.filter(f => f !== format.id) : prev.formats) : [...prev.formats, format.id],
+                                                        }))}
+                                                        disabled={!supported}
+                                                        title={!supported ? `This browser can't encode ${format.label}` : format.id === 'avif' ? 'AVIF files carry no embedded metadata' : undefined}
+                                                        className={`flex-1 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all border disabled:opacity-40 ${active ? 'bg-cyan-600/20 border-cyan-500 text-cyan-300' : 'bg-slate-900/50 border-slate-700 text-slate-500'}`}>
+                                                        {format.label}
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                        <label className="block">
+                                            <span className="text-[8px] text-slate-500 uppercase font-black tracking-widest ml-1 block" title="Comma-separated pixel widths; 0 or blank keeps the original size. Images are never upscaled">Widths (px)</span>
+                                            <input type="text" value={renditionWidthsInput} placeholder="0, 1600, 800"
+                                                onChange={e => setRenditionWidthsInput(e.target.value)}
+                                                onBlur={() => {
+                                                    const widths = [...new Set(renditionWidthsInput.split(/[\s,]+/).map(w => parseInt(w)).filter(w => Number.isFinite(w) && w >= 0))];
+                                                    const next = widths.length > 0 ? widths : [0];
+                                                    setRenditionProfile(prev => ({ ...prev, widths: next }));
+                                                    setRenditionWidthsInput(next.join(', '));
+                                                }}
+                                                className="w-full bg-slate-900/50 border border-slate-700 rounded-xl py-1.5 px-3 text-[10px] text-slate-300 font-mono" />
+                                        </label>
+                                        <div className="flex gap-2">
+                                            <label className="w-1/2">
+                                                <span className="text-[8px] text-slate-500 uppercase font-black tracking-widest ml-1 block">Quality (%)</span>
+                                                <input type="number" min={40} max={100} step={5} value={Math.round(renditionProfile.quality * 100)}
+                                                    onChange={e => setRenditionProfile(prev => ({ ...prev, quality: Math.min(100, Math.max(40, parseInt(e.target.value) || 95)) / 100 }))}
+                                                    className="w-full bg-slate-900/50 border border-slate-700 rounded-xl py-1.5 px-3 text-[10px] text-slate-300 font-mono" />
+                                            </label>
+                                            <label className="w-1/2">
+                                                <span className="text-[8px] text-slate-500 uppercase font-black tracking-widest ml-1 block" title="Lossy formats lower their quality until the file fits; 0 disables">Max Size (KB)</span>
+                                                <input type="number" min={0} step={50} value={renditionProfile.maxFileSizeKb}
+                                                    onChange={e => setRenditionProfile(prev => ({ ...prev, maxFileSizeKb: Math.max(0, parseInt(e.target.value) || 0) }))}
+                                                    className="w-full bg-slate-900/50 border border-slate-700 rounded-xl py-1.5 px-3 text-[10px] text-slate-300 font-mono" />
+                                            </label>
+                                        </div>
+                                    </div>
+                                    <div className="p-3 rounded-2xl bg-slate-700/20 border border-slate-700 space-y-2" title="Extra files added to the Download All ZIP">
+                                        <span className="text-[10px] font-black text-slate-200 uppercase tracking-widest">ZIP Sidecars</span>
+                                        <div className="flex flex-wrap gap-2">
+                                            {([['csv', 'CSV'], ['json', 'JSON'], ['html', 'HTML'], ['sitemap', 'Sitemap'], ['jsonLd', 'JSON-LD']] as [Exclude<keyof SidecarExports, 'imageBaseUrl' | 'contentUrlPattern'>, string][]).map(([kind, label]) => (
+                                                <button key={kind}
+                                                    onClick={() => setSidecarExports(prev => ({ ...prev, [kind]: !prev[kind] }))}
+                                                    className={`flex-1 px-2 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all border ${sidecarExports[kind] ? 'bg-cyan-600/20 border-cyan-500 text-cyan-300' : 'bg-slate-900/50 border-slate-700 text-slate-500'}`}>
+                                                    {label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <label className="block">
+                                            <span className="text-[8px] text-slate-500 uppercase font-black tracking-widest ml-1 block" title="Prefix for image URLs in the HTML snippets and sitemap; blank keeps relative file names">Image Base URL</span>
+                                            <input type="url" value={sidecarExports.imageBaseUrl} placeholder="https://example.com/wp-content/uploads"
+                                                onChange={e => setSidecarExports(prev => ({ ...prev, imageBaseUrl: e.target.value }))}
+                                                className="w-full bg-slate-900/50 border border-slate-700 rounded-xl py-1.5 px-3 text-[10px] text-slate-300 font-mono" />
+                                        </label>
+                                        <label className="block">
+                                            <span className="text-[8px] text-slate-500 uppercase font-black tracking-widest ml-1 block" title="Overrides the base URL. Variables: {{filename}}, {{slug}}, {{ext}}, {{location}}">Content URL Pattern</span>
+                                            <input type="text" value={sidecarExports.contentUrlPattern} placeholder="https://cdn.example.com/{{location}}/{{filename}}"
+                                                onChange={e => setSidecarExports(prev => ({ ...prev, contentUrlPattern: e.target.value }))}
+                                                className="w-full bg-slate-900/50 border border-slate-700 rounded-xl py-1.5 px-3 text-[10px] text-slate-300 font-mono" />
+                                        </label>
+                                    </div>
                                 </div>
                             </div>
                         </div>
@@ -1146,8 +3249,56 @@ const App: React.FC = () => {
                                     <Uploader onFilesAdded={handleAddFiles} dragActive={localDragActive} setDragActive={setLocalDragActive} setGlobalDragActive={setGlobalDragActive} />
                                 </div>
                                 
+                                {processedImages.length > 0 && (
+                                    <div className="mb-4 bg-slate-800/60 p-4 rounded-3xl border border-slate-700/50 flex flex-col lg:flex-row lg:items-center gap-4">
+                                        <div className="flex flex-wrap gap-3 text-[10px] font-black uppercase tracking-widest">
+                                            <span className="text-green-400">{processedImages.filter(img => img.status === 'ready').length} Ready</span>
+                                            <span className="text-cyan-400">{processedImages.filter(img => ['generating', 'enhancing', 'embedding'].includes(img.status)).length} Running</span>
+                                            <span className="text-slate-400">{processedImages.filter(img => img.status === 'pending').length} Queued</span>
+                                            <span className="text-red-400">{processedImages.filter(img => img.status === 'error').length} Failed</span>
+                                        </div>
+                                        <div className="flex flex-wrap items-center gap-3 lg:ml-auto">
+                                            {([
+                                                ['concurrency', 'Parallel', 1, 8],
+                                                ['requestsPerMinute', 'Req/Min', 0, 1000],
+                                                ['maxRetries', 'Retries', 0, 10],
+                                            ] as [keyof QueueSettings, string, number, number][]).map(([key, label, min, max]) => (
+                                                <label key={key} className="flex items-center gap-1.5 text-[9px] text-slate-500 uppercase font-black tracking-widest">
+                                                    {label}
+                                                    <input type="number" min={min} max={max} value={queueSettings[key]}
+                                                        onChange={(e) => {
+                                                            const value = Math.min(max, Math.max(min, parseInt(e.target.value, 10) || min));
+                                                            setQueueSettings(prev => ({ ...prev, [key]: value }));
+                                                        }}
+                                                        className="w-14 bg-slate-900/50 border border-slate-700 rounded-lg py-1 px-2 text-[11px] text-white font-mono focus:outline-none" />
+                                                </label>
+                                            ))}
+                                            <button onClick={() => setQueuePaused(prev => !prev)}
+                                                className={`${queuePaused ? 'bg-cyan-600 hover:bg-cyan-500' : 'bg-slate-700 hover:bg-slate-600'} px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all`}>
+                                                {queuePaused ? 'Resume' : 'Pause'}
+                                            </button>
+                                            <button onClick={handleCancelQueue} disabled={!processedImages.some(img => ['pending', 'generating', 'enhancing', 'embedding'].includes(img.status))}
+                                                className="bg-slate-700 hover:bg-red-600/60 disabled:opacity-40 text-red-300 px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all">
+                                                Cancel
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+
                                 {processedImages.length > 0 && (
                                     <div className="mb-8">
+                                        {Object.keys(lintResults).length > 0 && (() => {
+                                            const issues = processedImages.flatMap(img => lintResults[img.id] || []);
+                                            const errors = issues.filter(issue => issue.severity === 'error').length;
+                                            const warnings = issues.length - errors;
+                                            return (
+                                                <button onClick={() => setShowLintReport(true)}
+                                                        className={`w-full mb-3 px-4 py-2.5 rounded-2xl border text-[10px] font-black uppercase tracking-widest flex items-center justify-between transition-all ${errors > 0 ? 'bg-red-950/20 border-red-900/40 text-red-300 hover:border-red-700/60' : warnings > 0 ? 'bg-amber-950/20 border-amber-900/40 text-amber-300 hover:border-amber-700/60' : 'bg-green-950/20 border-green-900/40 text-green-300'}`}>
+                                                    <span>Metadata Lint: {errors} {errors === 1 ? 'error' : 'errors'} · {warnings} {warnings === 1 ? 'warning' : 'warnings'}</span>
+                                                    <span className="text-slate-500">{lintSettings.blockOnErrors && errors > 0 ? 'Errors blocked · ' : ''}View Report</span>
+                                                </button>
+                                            );
+                                        })()}
                                         <button onClick={handleDownloadAll} disabled={isDownloading === 'all' || !processedImages.some(img => img.status === 'ready')}
                                                 className="w-full bg-slate-800 hover:bg-slate-700 disabled:bg-slate-900 text-cyan-400 border border-slate-700 font-black py-4 px-6 rounded-3xl transition-all shadow-2xl flex items-center justify-center gap-3 uppercase tracking-[0.2em] text-xs active:scale-[0.98]">
                                             {isDownloading === 'all' ? (
@@ -1159,12 +3310,39 @@ const App: React.FC = () => {
                                                 </>
                                             )}
                                         </button>
+                                        <button onClick={handleExportGbp} disabled={isDownloading === 'gbp' || !processedImages.some(img => img.status === 'ready')}
+                                                className="w-full mt-3 bg-slate-800/60 hover:bg-slate-700 disabled:opacity-40 text-slate-300 border border-slate-700 font-black py-3 px-6 rounded-3xl transition-all flex items-center justify-center gap-3 uppercase tracking-[0.2em] text-[10px] active:scale-[0.98]"
+                                                title="JPEGs sized and cropped for Google Business Profile, filed into folders by photo category">
+                                            {isDownloading === 'gbp' ? (
+                                                 <><div className="h-4 w-4 border-2 border-cyan-400/30 border-t-cyan-400 rounded-full animate-spin"></div> Preparing GBP Package...</>
+                                            ) : 'Export for Google Business Profile (ZIP)'}
+                                        </button>
+                                        <button onClick={handlePublishAll} disabled={isPublishingAll || !processedImages.some(img => img.status === 'ready')}
+                                                className="w-full mt-3 bg-slate-800/60 hover:bg-slate-700 disabled:opacity-40 text-slate-300 border border-slate-700 font-black py-3 px-6 rounded-3xl transition-all flex items-center justify-center gap-3 uppercase tracking-[0.2em] text-[10px] active:scale-[0.98]">
+                                            {isPublishingAll ? (
+                                                 <><div className="h-4 w-4 border-2 border-cyan-400/30 border-t-cyan-400 rounded-full animate-spin"></div> Publishing to WordPress...</>
+                                            ) : wordPress.siteUrl ? `Publish All to ${wordPress.siteUrl.replace(/^https?:\/\//, '')}` : 'Publish All to WordPress'}
+                                        </button>
+                                        {processedImages.some(img => img.crop) && (() => {
+                                            const unplaced = processedImages.filter(img => img.crop && img.crop.focalSource !== 'manual').map(img => img.id);
+                                            return (
+                                                <button onClick={() => handleSuggestFocalPoints(unplaced)} disabled={suggestingFocalIds.length > 0 || unplaced.length === 0}
+                                                        className="w-full mt-3 bg-slate-800/60 hover:bg-slate-700 disabled:opacity-40 text-slate-300 border border-slate-700 font-black py-3 px-6 rounded-3xl transition-all flex items-center justify-center gap-3 uppercase tracking-[0.2em] text-[10px] active:scale-[0.98]"
+                                                        title="Asks the AI where the subject of each cropped photo is; focal points placed by hand are kept">
+                                                    {suggestingFocalIds.length > 0 ? (
+                                                         <><div className="h-4 w-4 border-2 border-cyan-400/30 border-t-cyan-400 rounded-full animate-spin"></div> Finding Subjects ({suggestingFocalIds.length})...</>
+                                                    ) : `AI Focal Points for ${unplaced.length} Cropped ${unplaced.length === 1 ? 'Image' : 'Images'}`}
+                                                </button>
+                                            );
+                                        })()}
                                     </div>
                                 )}
 
+                                <DuplicateReview images={processedImages} onKeep={handleKeepDuplicates} onSkip={handleSkipDuplicates} />
+
                                 <div className="space-y-6">
                                     {processedImages.map((image) => (
-                                        <ImageCard key={image.id} image={image} onMetadataChange={handleMetadataChange} onDownload={handleDownload} isDownloading={isDownloading} onRetry={() => processSingleImage(image.id)}/>
+                                        <ImageCard key={image.id} image={image} onMetadataChange={handleMetadataChange} onDownload={handleDownload} isDownloading={isDownloading} onRetry={() => handleRetryImage(image.id)} onInspect={handleInspectImage} onPublish={handlePublish} onEnhancementReview={handleEnhancementReview} onCropChange={handleCropChange} onRedactionsChange={handleRedactionsChange} onApplyCropToAll={handleApplyCropToAll} onSuggestFocalPoint={(id) => handleSuggestFocalPoints([id])} isSuggestingFocalPoint={suggestingFocalIds.includes(image.id)} brandingPreview={brandingPreview} isPublishing={isPublishingAll} jsonLd={buildCardJsonLd(image)} lintIssues={lintResults[image.id]}/>
                                     ))}
                                 </div>
                             </div>
@@ -1196,6 +3374,8 @@ const App: React.FC = () => {
                                             onDownload={handleTechAdderDownload} 
                                             isDownloading={isDownloading} 
                                             onRetry={handleAddTechAndProcess}
+                                            jsonLd={buildCardJsonLd(techAdderResult)}
+                                            lintIssues={techAdderResult.metadata ? lintMetadata(techAdderResult.metadata, lintContext) : undefined}
                                             showRetry={true}
                                             isRetrying={isAddingTech}
                                         />
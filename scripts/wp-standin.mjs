@@ -0,0 +1,118 @@
+// Local stand-in for the WordPress media REST API, for trying the publisher without a real site.
+// Usage: npm run wp:standin  (then use http://localhost:8787, any username, password "standin")
+// Media is kept in memory and served from /wp-content/uploads/.
+import http from 'node:http';
+
+const PORT = Number(process.env.WP_STANDIN_PORT) || 8787;
+const PASSWORD = process.env.WP_STANDIN_PASSWORD || 'standin';
+
+const media = new Map();
+let nextId = 1;
+
+const send = (res, status, body, headers = {}) => {
+    res.writeHead(status, {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Authorization, Content-Type, Content-Disposition',
+        'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+        ...(Buffer.isBuffer(body) ? {} : { 'Content-Type': 'application/json' }),
+        ...headers,
+    });
+    res.end(Buffer.isBuffer(body) ? body : JSON.stringify(body));
+};
+
+const error = (res, status, code, message) => send(res, status, { code, message, data: { status } });
+
+const readBody = (req) => new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+});
+
+const toJson = (item) => {
+    const { file, mimeType, ...rest } = item;
+    return { ...rest, mime_type: mimeType, title: { raw: item.title, rendered: item.title }, caption: { raw: item.caption }, description: { raw: item.description } };
+};
+
+const authenticate = (req) => {
+    const [scheme, encoded] = (req.headers.authorization || '').split(' ');
+    if (scheme !== 'Basic' || !encoded) return null;
+    const [username, password] = Buffer.from(encoded, 'base64').toString('utf8').split(/:(.*)/s);
+    return password?.replace(/\s/g, '') === PASSWORD.replace(/\s/g, '') ? username : null;
+};
+
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url, `http://localhost:${PORT}`);
+    if (req.method === 'OPTIONS') return send(res, 204, Buffer.alloc(0));
+
+    const upload = url.pathname.match(/^\/wp-content\/uploads\/(.+)$/);
+    if (upload && req.method === 'GET') {
+        const item = [...media.values()].find(m => m.fileName === decodeURIComponent(upload[1]));
+        return item ? send(res, 200, item.file, { 'Content-Type': item.mimeType }) : error(res, 404, 'rest_no_route', 'Not found');
+    }
+
+    const route = url.pathname.replace(/^\/wp-json\/wp\/v2/, '');
+    const username = authenticate(req);
+    if (!username) return error(res, 401, 'rest_not_logged_in', 'Incorrect username or application password.');
+
+    if (route === '/users/me' && req.method === 'GET') {
+        return send(res, 200, { id: 1, name: username, slug: username });
+    }
+
+    if (route === '/media' && req.method === 'GET') {
+        const slug = url.searchParams.get('slug');
+        return send(res, 200, [...media.values()].filter(m => !slug || m.slug === slug).map(toJson));
+    }
+
+    if (route === '/media' && req.method === 'POST') {
+        const disposition = req.headers['content-disposition'] || '';
+        const encoded = disposition.match(/filename\*=UTF-8''([^;]+)/i)?.[1];
+        const fileName = encoded ? decodeURIComponent(encoded) : disposition.match(/filename="?([^";]+)"?/)?.[1];
+        if (!fileName) return error(res, 400, 'rest_upload_no_content_disposition', 'No Content-Disposition supplied.');
+        const id = nextId++;
+        const item = {
+            id,
+            slug: fileName.replace(/\.[^.]+$/, '').toLowerCase(),
+            title: fileName.replace(/\.[^.]+$/, ''),
+            alt_text: '',
+            caption: '',
+            description: '',
+            fileName,
+            source_url: `http://localhost:${PORT}/wp-content/uploads/${encodeURIComponent(fileName)}`,
+            mimeType: req.headers['content-type'] || 'application/octet-stream',
+            file: await readBody(req),
+        };
+        media.set(id, item);
+        console.log(`[wp-standin] Uploaded #${id} ${fileName} (${item.file.length} bytes)`);
+        return send(res, 201, toJson(item));
+    }
+
+    const single = route.match(/^\/media\/(\d+)$/);
+    if (single && req.method === 'POST') {
+        const item = media.get(Number(single[1]));
+        if (!item) return error(res, 404, 'rest_post_invalid_id', 'Invalid post ID.');
+        const fields = JSON.parse((await readBody(req)).toString('utf8') || '{}');
+        ['title', 'slug', 'alt_text', 'caption', 'description'].forEach(key => {
+            if (typeof fields[key] === 'string') item[key] = fields[key];
+        });
+        // Like WordPress, a slug another item already has gets a numeric suffix
+        const taken = new Set([...media.values()].filter(m => m !== item).map(m => m.slug));
+        const base = item.slug;
+        for (let n = 2; taken.has(item.slug); n++) item.slug = `${base}-${n}`;
+        console.log(`[wp-standin] Updated #${item.id} "${item.title}"`);
+        return send(res, 200, toJson(item));
+    }
+
+    if (single && req.method === 'DELETE') {
+        const item = media.get(Number(single[1]));
+        if (!item) return error(res, 404, 'rest_post_invalid_id', 'Invalid post ID.');
+        if (url.searchParams.get('force') !== 'true') return error(res, 501, 'rest_trash_not_supported', 'The post does not support trashing. Set \'force=true\' to delete.');
+        media.delete(item.id);
+        console.log(`[wp-standin] Deleted #${item.id} ${item.fileName}`);
+        return send(res, 200, { deleted: true, previous: toJson(item) });
+    }
+
+    return error(res, 404, 'rest_no_route', 'No route was found matching the URL and request method.');
+});
+
+server.listen(PORT, () => console.log(`[wp-standin] WordPress stand-in listening on http://localhost:${PORT} (password "${PASSWORD}")`));
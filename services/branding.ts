@@ -0,0 +1,182 @@
+import type { BrandingSettings, CompanyInfo, CropSettings, WatermarkPosition, WatermarkTextField } from '../types';
+import { getCropRect } from './imageProcessor';
+
+/**
+ * Logo and text watermark drawn onto processed photos, so they leave the app already branded.
+ */
+
+export const DEFAULT_BRANDING_SETTINGS: BrandingSettings = {
+    logo: null,
+    logoName: '',
+    position: 'bottomRight',
+    scale: 20,
+    opacity: 80,
+    margin: 3,
+    textFields: [],
+};
+
+export const WATERMARK_POSITIONS: { id: WatermarkPosition, label: string }[] = [
+    { id: 'topLeft', label: 'Top Left' },
+    { id: 'topRight', label: 'Top Right' },
+    { id: 'center', label: 'Center' },
+    { id: 'bottomLeft', label: 'Bottom Left' },
+    { id: 'bottomRight', label: 'Bottom Right' },
+];
+
+export const WATERMARK_TEXT_FIELDS: { id: WatermarkTextField, label: string }[] = [
+    { id: 'name', label: 'Name' },
+    { id: 'phone', label: 'Phone' },
+    { id: 'website', label: 'Website' },
+];
+
+const LOGO_TYPES = ['image/png', 'image/svg+xml'];
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;    // Stored with the project
+
+const ANCHORS: Record<WatermarkPosition, ['start' | 'center' | 'end', 'start' | 'center' | 'end']> = {
+    topLeft: ['start', 'start'],
+    topRight: ['start', 'end'],
+    center: ['center', 'center'],
+    bottomLeft: ['end', 'start'],
+    bottomRight: ['end', 'end'],
+};
+
+/**
+ * Reads an uploaded logo into a data URL. Throws for anything but a PNG or SVG under 2 MB.
+ */
+export const readLogoFile = (file: File): Promise<string> => {
+    if (!LOGO_TYPES.includes(file.type)) {
+        return Promise.reject(new Error(`${file.name} is not a PNG or SVG file.`));
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+        return Promise.reject(new Error(`${file.name} is ${(file.size / 1024 / 1024).toFixed(1)} MB; logos must be under 2 MB.`));
+    }
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error || new Error(`Could not read ${file.name}.`));
+        reader.readAsDataURL(file);
+    });
+};
+
+export const getWatermarkText = (settings: BrandingSettings, companyInfo: CompanyInfo): string =>
+    settings.textFields.map(field => (companyInfo[field] || '').trim()).filter(Boolean).join('  ·  ');
+
+export const hasBranding = (settings: BrandingSettings, companyInfo: CompanyInfo): boolean =>
+    !!settings.logo || !!getWatermarkText(settings, companyInfo);
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Could not load image for branding.'));
+        img.src = src;
+    });
+
+// SVGs without width/height report no natural size; fall back to the default object size
+const naturalSize = (img: HTMLImageElement) => ({ width: img.naturalWidth || 300, height: img.naturalHeight || 150 });
+
+export const getLogoSize = async (logo: string): Promise<{ width: number, height: number }> => naturalSize(await loadImage(logo));
+
+export const WATERMARK_FONT_FAMILY = 'system-ui, -apple-system, "Segoe UI", sans-serif';
+export const WATERMARK_FONT_WEIGHT = 600;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const measureText = (text: string, fontSize: number): number => {
+    measureContext = measureContext || document.createElement('canvas').getContext('2d');
+    if (!measureContext) return text.length * fontSize * 0.55;
+    measureContext.font = `${WATERMARK_FONT_WEIGHT} ${fontSize}px ${WATERMARK_FONT_FAMILY}`;
+    return measureContext.measureText(text).width;
+};
+
+export interface BrandingLayout {
+    logo: { x: number, y: number, width: number, height: number } | null;
+    text: { value: string, x: number, y: number, width: number, fontSize: number } | null; // x, y: top-left corner
+}
+
+/**
+ * Where the logo and text line go on an image of the given size, in image pixels. With a crop,
+ * they are placed inside the cropped area so the crop applied on download doesn't cut them off.
+ */
+export const getBrandingLayout = (
+    width: number,
+    height: number,
+    settings: BrandingSettings,
+    companyInfo: CompanyInfo,
+    crop: CropSettings | null,
+    logoSize: { width: number, height: number } | null
+): BrandingLayout => {
+    const frame = crop
+        ? getCropRect(width, height, crop.aspect, { x: crop.focalX, y: crop.focalY })
+        : { sx: 0, sy: 0, sw: width, sh: height };
+    const shortSide = Math.min(frame.sw, frame.sh);
+    const margin = Math.round(shortSide * settings.margin / 100);
+
+    const logoWidth = logoSize ? Math.round(frame.sw * settings.scale / 100) : 0;
+    const logoHeight = logoSize ? Math.round(logoWidth * logoSize.height / logoSize.width) : 0;
+
+    const text = getWatermarkText(settings, companyInfo);
+    const fontSize = Math.max(12, Math.round(shortSide * 0.035));
+    const textWidth = text ? measureText(text, fontSize) : 0;
+    const textHeight = text ? Math.round(fontSize * 1.2) : 0;
+    const gap = logoSize && text ? Math.round(fontSize * 0.5) : 0;
+
+    const blockWidth = Math.max(logoWidth, textWidth);
+    const blockHeight = logoHeight + gap + textHeight;
+    const [vertical, horizontal] = ANCHORS[settings.position];
+    const place = (anchor: 'start' | 'center' | 'end', start: number, length: number, size: number) =>
+        anchor === 'start' ? start + margin : anchor === 'end' ? start + length - margin - size : start + (length - size) / 2;
+    const x = place(horizontal, frame.sx, frame.sw, blockWidth);
+    const y = place(vertical, frame.sy, frame.sh, blockHeight);
+    // Logo and text line up with each other on the side nearest the edge
+    const alignX = (itemWidth: number) => horizontal === 'start' ? x : horizontal === 'end' ? x + blockWidth - itemWidth : x + (blockWidth - itemWidth) / 2;
+
+    return {
+        logo: logoSize ? { x: alignX(logoWidth), y, width: logoWidth, height: logoHeight } : null,
+        text: text ? { value: text, x: alignX(textWidth), y: y + logoHeight + gap, width: textWidth, fontSize } : null,
+    };
+};
+
+/**
+ * Draws the logo and text line onto the image; see `getBrandingLayout` for the placement.
+ */
+export const applyBranding = async (
+    imageBlob: Blob,
+    settings: BrandingSettings,
+    companyInfo: CompanyInfo,
+    crop: CropSettings | null = null
+): Promise<Blob> => {
+    const imageUrl = URL.createObjectURL(imageBlob);
+    try {
+        const [img, logo] = await Promise.all([loadImage(imageUrl), settings.logo ? loadImage(settings.logo) : Promise.resolve(null)]);
+        const canvas = document.createElement('canvas');
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Could not get canvas context');
+        canvas.width = img.width;
+        canvas.height = img.height;
+        ctx.drawImage(img, 0, 0);
+
+        const layout = getBrandingLayout(img.width, img.height, settings, companyInfo, crop, logo ? naturalSize(logo) : null);
+        ctx.globalAlpha = settings.opacity / 100;
+        if (logo && layout.logo) {
+            ctx.drawImage(logo, layout.logo.x, layout.logo.y, layout.logo.width, layout.logo.height);
+        }
+        if (layout.text) {
+            ctx.font = `${WATERMARK_FONT_WEIGHT} ${layout.text.fontSize}px ${WATERMARK_FONT_FAMILY}`;
+            ctx.fillStyle = '#ffffff';
+            ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+            ctx.shadowBlur = Math.round(layout.text.fontSize * 0.3);
+            ctx.textBaseline = 'top';
+            ctx.fillText(layout.text.value, layout.text.x, layout.text.y);
+        }
+
+        return await new Promise<Blob>((resolve, reject) => {
+            canvas.toBlob(
+                (blob) => blob ? resolve(blob) : reject(new Error('Failed to create blob from canvas for branding.')),
+                'image/jpeg', 0.95
+            );
+        });
+    } finally {
+        URL.revokeObjectURL(imageUrl);
+    }
+};
@@ -0,0 +1,214 @@
+import type { GeoLocation } from '../types';
+import { parseCsv, normalizeSearchText } from './textUtils';
+
+/**
+ * Offline place-name lookup. Imported gazetteers (CSV or GeoJSON) are kept in localStorage
+ * next to the built-in suburb list and shared by every project.
+ */
+
+const GAZETTEER_STORAGE_KEY = 'GAZETTEER';
+
+// Stored as compact tuples: a national postcode list is ~15k rows. The address is only kept when
+// it differs from the one toLocation derives (e.g. a GeoJSON feature's own address).
+type StoredEntry = [name: string, lat: number, lng: number, postcode?: string | null, region?: string | null, address?: string];
+
+const COLUMN_ALIASES: Record<'name' | 'lat' | 'lng' | 'postcode' | 'region', string[]> = {
+    name: ['name', 'locality', 'suburb', 'place', 'city', 'town'],
+    lat: ['lat', 'latitude', 'y'],
+    lng: ['lng', 'lon', 'long', 'longitude', 'x'],
+    postcode: ['postcode', 'postal_code', 'postalcode', 'zip', 'zipcode', 'zip_code'],
+    region: ['region', 'state', 'province', 'county', 'admin1'],
+};
+
+const toLocation = (name: string, lat: number, lng: number, postcode?: string, region?: string, address?: string): GeoLocation => ({
+    name,
+    lat,
+    lng,
+    address: address || [name, region, postcode].filter(Boolean).join(', '),
+    ...(postcode ? { postcode } : {}),
+    ...(region ? { region } : {}),
+});
+
+const isValidCoordinate = (lat: number, lng: number): boolean =>
+    Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+export const parseGazetteerCsv = (text: string): GeoLocation[] => {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) throw new Error('CSV file is empty.');
+
+    const columns = header.map(h => normalizeSearchText(h).replace(/\s+/g, '_'));
+    const indexOf = (field: keyof typeof COLUMN_ALIASES) => columns.findIndex(c => COLUMN_ALIASES[field].includes(c));
+    const [nameCol, latCol, lngCol, postcodeCol, regionCol] = (['name', 'lat', 'lng', 'postcode', 'region'] as const).map(indexOf);
+    if (nameCol === -1 || latCol === -1 || lngCol === -1) {
+        throw new Error('CSV needs a header row with name, lat and lng columns (postcode and region are optional).');
+    }
+
+    return rows.flatMap(row => {
+        const name = row[nameCol]?.trim();
+        const lat = parseFloat(row[latCol]);
+        const lng = parseFloat(row[lngCol]);
+        if (!name || !isValidCoordinate(lat, lng)) return [];
+        return [toLocation(name, lat, lng, row[postcodeCol]?.trim() || undefined, row[regionCol]?.trim() || undefined)];
+    });
+};
+
+/**
+ * Reads Point features; name/postcode/region come from the feature properties (same aliases as CSV).
+ */
+export const parseGazetteerGeoJson = (text: string): GeoLocation[] => {
+    let json: any;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        throw new Error('File is not valid JSON.');
+    }
+    const features: any[] = json?.type === 'FeatureCollection' ? json.features || [] : json?.type === 'Feature' ? [json] : [];
+
+    return features.flatMap(feature => {
+        if (feature?.geometry?.type !== 'Point') return [];
+        const [lng, lat] = feature.geometry.coordinates || [];
+        const properties = Object.fromEntries(
+            Object.entries(feature.properties || {}).map(([key, value]) => [normalizeSearchText(key), value])
+        );
+        const pick = (field: keyof typeof COLUMN_ALIASES) => {
+            const key = COLUMN_ALIASES[field].find(alias => properties[alias] !== undefined && properties[alias] !== null && properties[alias] !== '');
+            return key ? String(properties[key]).trim() : undefined;
+        };
+        const name = pick('name');
+        if (!name || !isValidCoordinate(lat, lng)) return [];
+        const address = typeof properties.address === 'string' ? properties.address : undefined;
+        return [toLocation(name, lat, lng, pick('postcode'), pick('region'), address)];
+    });
+};
+
+/**
+ * Parses a gazetteer or shared preset file, picking the format from the file name.
+ */
+export const parseLocationFile = async (file: File): Promise<GeoLocation[]> => {
+    const text = await file.text();
+    const isJson = /\.(geo)?json$/i.test(file.name) || text.trimStart().startsWith('{');
+    const locations = isJson ? parseGazetteerGeoJson(text) : parseGazetteerCsv(text);
+    if (locations.length === 0) {
+        throw new Error('No locations with a name and valid coordinates were found.');
+    }
+    return locations;
+};
+
+export const loadGazetteer = (): GeoLocation[] => {
+    try {
+        const stored: StoredEntry[] = JSON.parse(localStorage.getItem(GAZETTEER_STORAGE_KEY) || '[]');
+        return stored.map(([name, lat, lng, postcode, region, address]) => toLocation(name, lat, lng, postcode || undefined, region || undefined, address));
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Replaces the stored gazetteer. Throws a readable error when the browser's storage quota is exceeded.
+ */
+export const saveGazetteer = (locations: GeoLocation[]): void => {
+    const stored: StoredEntry[] = locations.map(loc => {
+        const name = loc.name || '';
+        const derived = toLocation(name, loc.lat, loc.lng, loc.postcode, loc.region).address;
+        // JSON turns skipped optional slots into null, which loadGazetteer reads back as undefined
+        return loc.address && loc.address !== derived
+            ? [name, loc.lat, loc.lng, loc.postcode, loc.region, loc.address]
+            : [name, loc.lat, loc.lng, loc.postcode, loc.region];
+    });
+    try {
+        if (stored.length === 0) {
+            localStorage.removeItem(GAZETTEER_STORAGE_KEY);
+        } else {
+            localStorage.setItem(GAZETTEER_STORAGE_KEY, JSON.stringify(stored));
+        }
+    } catch (error) {
+        console.error('[Gazetteer] Save failed:', error);
+        throw new Error(`Gazetteer is too large for browser storage (${locations.length} places). Try a smaller region.`);
+    }
+};
+
+/**
+ * Merges by name + rounded coordinates so re-importing the same file doesn't duplicate places.
+ */
+export const mergeLocations = (existing: GeoLocation[], incoming: GeoLocation[]): GeoLocation[] => {
+    const keyOf = (loc: GeoLocation) => `${normalizeSearchText(loc.name || '')}|${loc.lat.toFixed(4)}|${loc.lng.toFixed(4)}`;
+    const merged = new Map(existing.map(loc => [keyOf(loc), loc]));
+    incoming.forEach(loc => merged.set(keyOf(loc), loc));
+    return [...merged.values()];
+};
+
+// Bounded Levenshtein: gives up (returns max + 1) once the distance can only exceed `max`
+const editDistance = (a: string, b: string, max: number): number => {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+            rowMin = Math.min(rowMin, current[j]);
+        }
+        if (rowMin > max) return max + 1;
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+const scoreLocation = (query: string, location: GeoLocation): number => {
+    const name = normalizeSearchText(location.name || '');
+    const postcode = location.postcode || '';
+
+    if (/^\d+$/.test(query)) {
+        if (postcode === query) return 100;
+        if (postcode.startsWith(query)) return 80;
+    }
+    if (name === query) return 95;
+    if (name.startsWith(query)) return 85;
+    if (name.split(/[\s-]+/).some(word => word.startsWith(query))) return 70;
+    if (name.includes(query)) return 60;
+    if (normalizeSearchText(location.address || '').includes(query)) return 40;
+
+    // Typos: compare against name prefixes of similar length, one edit per four characters typed
+    const allowed = Math.floor(query.length / 4);
+    if (allowed > 0) {
+        let distance = allowed + 1;
+        for (let length = query.length - allowed; length <= query.length + allowed; length++) {
+            distance = Math.min(distance, editDistance(query, name.slice(0, length), allowed));
+        }
+        if (distance <= allowed) return 30 - distance * 10;
+    }
+    return 0;
+};
+
+/**
+ * Prefix, word, substring, postcode and typo-tolerant search, best matches first.
+ */
+export const searchLocations = (query: string, locations: GeoLocation[], limit = 10): GeoLocation[] => {
+    const normalized = normalizeSearchText(query);
+    if (normalized.length < 2) return [];
+
+    return locations
+        .map(location => ({ location, score: scoreLocation(normalized, location) }))
+        .filter(result => result.score > 0)
+        .sort((a, b) => b.score - a.score || (a.location.name || '').localeCompare(b.location.name || ''))
+        .slice(0, limit)
+        .map(result => result.location);
+};
+
+/**
+ * Shares a location library as a GeoJSON FeatureCollection, which parseLocationFile reads back.
+ */
+export const exportLocationsGeoJson = (locations: GeoLocation[]): string =>
+    JSON.stringify({
+        type: 'FeatureCollection',
+        features: locations.map(loc => ({
+            type: 'Feature',
+            geometry: { type: 'Point', coordinates: [loc.lng, loc.lat] },
+            properties: {
+                name: loc.name,
+                ...(loc.address ? { address: loc.address } : {}),
+                ...(loc.postcode ? { postcode: loc.postcode } : {}),
+                ...(loc.region ? { region: loc.region } : {}),
+            },
+        })),
+    }, null, 2);
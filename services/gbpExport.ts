@@ -0,0 +1,135 @@
+import type { Metadata, GeoLocation, CompanyInfo, GbpCategory, RenditionProfile } from '../types';
+import type { Rendition, RenditionMetadataWriter, RenditionFraming } from './renditions';
+import { buildRenditions } from './renditions';
+import { normalizeSearchText } from './textUtils';
+
+/**
+ * Google Business Profile export: JPEGs inside GBP's photo limits, filed into folders by GBP
+ * photo category, with a manifest to work through while uploading.
+ */
+
+// https://support.google.com/business/answer/6103862
+export const GBP_LIMITS = {
+    minSide: 250,                   // Rejected below this
+    recommendedSide: 720,           // Looks soft on Maps below this
+    minBytes: 10 * 1024,
+    maxBytes: 5 * 1024 * 1024,
+    maxLongSide: 2048,              // Larger files are downscaled by Google anyway
+    aspect: 4 / 3,                  // Photos are shown at 4:3; anything more extreme is cropped here rather than by Google
+};
+
+const GBP_PROFILE: RenditionProfile = { widths: [0], formats: ['jpeg'], quality: 0.9, maxFileSizeKb: GBP_LIMITS.maxBytes / 1024 };
+
+const GBP_FRAMING: RenditionFraming = { minAspect: 1 / GBP_LIMITS.aspect, maxAspect: GBP_LIMITS.aspect, maxLongSide: GBP_LIMITS.maxLongSide };
+
+// Checked in this order when tags tie; the first list that matches most tags wins
+export const GBP_CATEGORIES: { id: GbpCategory, label: string, folder: string, keywords: string[] }[] = [
+    { id: 'identity', label: 'Identity (Logo/Cover)', folder: 'identity', keywords: ['logo', 'cover', 'branding', 'brand identity'] },
+    { id: 'team', label: 'Team', folder: 'team', keywords: ['team', 'staff', 'crew', 'employee', 'employees', 'our people', 'portrait', 'owner'] },
+    { id: 'atWork', label: 'At Work', folder: 'at-work', keywords: ['repair', 'repairs', 'installation', 'install', 'installing', 'service', 'servicing', 'maintenance', 'technician', 'at work', 'on site', 'onsite', 'fixing', 'job', 'plumber', 'electrician'] },
+    { id: 'exterior', label: 'Exterior', folder: 'exterior', keywords: ['exterior', 'outside', 'outdoor', 'storefront', 'shopfront', 'building', 'van', 'vehicle', 'signage', 'facade', 'roof', 'garden', 'yard'] },
+    { id: 'interior', label: 'Interior', folder: 'interior', keywords: ['interior', 'inside', 'indoor', 'office', 'showroom', 'workshop', 'reception', 'kitchen', 'laundry', 'bathroom'] },
+    { id: 'product', label: 'Product', folder: 'product', keywords: ['product', 'products', 'appliance', 'part', 'parts', 'spare', 'model', 'unit', 'equipment'] },
+];
+
+// Most of our users are trades, so an unclassifiable photo is most likely a job photo
+const DEFAULT_GBP_CATEGORY: GbpCategory = 'atWork';
+
+/**
+ * Picks the GBP category whose keywords match the most tags (whole words, accent-insensitive).
+ */
+export const deriveGbpCategory = (tags: string[]): GbpCategory => {
+    const words = tags.map(tag => ` ${normalizeSearchText(tag).replace(/[^a-z0-9]+/g, ' ')} `);
+    let best: { id: GbpCategory, score: number } = { id: DEFAULT_GBP_CATEGORY, score: 0 };
+    GBP_CATEGORIES.forEach(category => {
+        const score = words.filter(tag => category.keywords.some(keyword => tag.includes(` ${keyword} `))).length;
+        if (score > best.score) best = { id: category.id, score };
+    });
+    return best.id;
+};
+
+export const getGbpCategory = (metadata: Metadata): GbpCategory => metadata.gbpCategory || deriveGbpCategory(metadata.tags);
+
+export interface GbpImage {
+    baseName: string;
+    source: Blob;
+    metadata: Metadata;
+    location: GeoLocation;
+    writeMetadata: RenditionMetadataWriter;
+}
+
+export interface GbpManifestEntry {
+    file: string;
+    category: GbpCategory;
+    title: string;
+    description: string;
+    altText: string;
+    width: number;
+    height: number;
+    sizeKb: number;
+    lat: number;
+    lng: number;
+    locationName: string;
+    warnings: string[];
+}
+
+export interface GbpPackage {
+    files: { fileName: string, blob: Blob }[];
+    manifest: GbpManifestEntry[];
+    skipped: { name: string, reason: string }[];
+}
+
+/**
+ * Encodes every image within GBP's limits. Images below the minimum size are skipped
+ * (Google rejects them); soft issues are kept as per-photo warnings.
+ */
+export const buildGbpPackage = async (images: GbpImage[]): Promise<GbpPackage> => {
+    const result: GbpPackage = { files: [], manifest: [], skipped: [] };
+
+    for (const image of images) {
+        const [rendition]: Rendition[] = await buildRenditions(image.source, image.baseName, GBP_PROFILE, image.writeMetadata, GBP_FRAMING);
+        if (Math.min(rendition.width, rendition.height) < GBP_LIMITS.minSide) {
+            result.skipped.push({ name: image.metadata.name, reason: `${rendition.width}×${rendition.height}px is below Google's ${GBP_LIMITS.minSide}px minimum` });
+            continue;
+        }
+
+        const warnings: string[] = [];
+        if (Math.min(rendition.width, rendition.height) < GBP_LIMITS.recommendedSide) warnings.push(`Below the recommended ${GBP_LIMITS.recommendedSide}px`);
+        if (rendition.blob.size < GBP_LIMITS.minBytes) warnings.push('Under 10 KB; Google may reject it');
+        if (rendition.blob.size > GBP_LIMITS.maxBytes) warnings.push('Over 5 MB even at the lowest quality');
+
+        const category = getGbpCategory(image.metadata);
+        const folder = GBP_CATEGORIES.find(c => c.id === category)!.folder;
+        const fileName = `${folder}/${rendition.fileName}`;
+        result.files.push({ fileName, blob: rendition.blob });
+        result.manifest.push({
+            file: fileName,
+            category,
+            title: image.metadata.name,
+            description: image.metadata.description,
+            altText: image.metadata.altText,
+            width: rendition.width,
+            height: rendition.height,
+            sizeKb: Math.round(rendition.blob.size / 1024),
+            lat: image.location.lat,
+            lng: image.location.lng,
+            locationName: image.location.name || '',
+            warnings,
+        });
+    }
+    return result;
+};
+
+/**
+ * Manifest grouped by GBP category, with the NAP the listing should match.
+ */
+export const buildGbpManifestJson = (manifest: GbpManifestEntry[], companyInfo: CompanyInfo): string => {
+    const categories = GBP_CATEGORIES
+        .map(category => ({ category: category.id, label: category.label, photos: manifest.filter(entry => entry.category === category.id) }))
+        .filter(group => group.photos.length > 0);
+    return JSON.stringify({
+        generatedAt: new Date().toISOString(),
+        business: { name: companyInfo.name, website: companyInfo.website, phone: companyInfo.phone || '', address: companyInfo.address || '' },
+        categories,
+    }, null, 2);
+};
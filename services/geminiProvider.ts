@@ -0,0 +1,104 @@
+import { Modality } from "@google/genai";
+import { ApiError, parseRetryAfter, type VisionProvider, type VisionImage } from './visionProvider';
+
+const getApiKey = (): string => {
+  const key = localStorage.getItem('GEMINI_API_KEY');
+  if (!key) {
+    throw new Error('API key not found. Please configure your Gemini API key.');
+  }
+  return key;
+};
+
+// Gemini reports quota backoff as a RetryInfo detail, e.g. { retryDelay: "31s" }
+const getRetryDelay = (error: any): number | undefined => {
+  const retryInfo = error.error?.details?.find((detail: any) => typeof detail?.retryDelay === 'string');
+  const seconds = retryInfo ? parseFloat(retryInfo.retryDelay) : NaN;
+  return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+};
+
+// Helper for calling Gemini API via proxy to avoid CORS
+const callGeminiApi = async (model: string, contents: any, config: any = {}) => {
+  const apiKey = getApiKey();
+
+  // Debug: Log API key presence (not the actual key for security)
+  console.log('[Gemini Service] API Key loaded:', apiKey ? `${apiKey.substring(0, 10)}...` : 'MISSING');
+
+  // In local development, we use the proxy defined in vite.config.ts
+  const baseUrl = '/api-proxy';
+  const url = `${baseUrl}/v1beta/models/${model}:generateContent?key=${apiKey}`;
+
+  console.log('[Gemini Service] Calling API:', model);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      contents,
+      generationConfig: config
+    })
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    console.error('[Gemini Service] API Error:', error);
+    throw new ApiError(error.error?.message || 'API request failed', response.status, parseRetryAfter(response) ?? getRetryDelay(error));
+  }
+
+  return await response.json();
+};
+
+const toInlineParts = (images: VisionImage[]) =>
+  images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.base64 } }));
+
+export const geminiProvider: VisionProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+
+  generateJson: async <T,>({ prompt, images, schema }) => {
+    const data = await callGeminiApi("gemini-2.5-flash", [
+      { parts: [{ text: prompt }, ...toInlineParts(images)] }
+    ], {
+      responseMimeType: "application/json",
+      responseSchema: schema
+    });
+
+    if (!data.candidates?.[0]) {
+      throw new Error("No candidates returned from API. Check your request or API quota.");
+    }
+
+    const candidate = data.candidates[0];
+    if (candidate.finishReason === 'SAFETY') {
+      throw new Error("Content was blocked by safety filters. Try a different image or description.");
+    }
+
+    if (!candidate.content?.parts?.[0]?.text) {
+      throw new Error(`API returned an unexpected response structure. Reason: ${candidate.finishReason || 'Unknown'}`);
+    }
+
+    return JSON.parse(candidate.content.parts[0].text) as T;
+  },
+
+  generateImage: async ({ prompt, images }) => {
+    const data = await callGeminiApi('gemini-2.5-flash-image', [
+      { parts: [{ text: prompt }, ...toInlineParts(images)] }
+    ], {
+      responseModalities: [Modality.IMAGE]
+    });
+
+    if (!data.candidates?.[0]?.content?.parts) {
+      const reason = data.candidates?.[0]?.finishReason;
+      if (reason === 'SAFETY') throw new Error("Generation blocked by safety filters. Ensure images are professional and appropriate.");
+      throw new Error(`Generated image data not found. Reason: ${reason || 'Unknown'}`);
+    }
+
+    for (const part of data.candidates[0].content.parts) {
+      if (part.inlineData && part.inlineData.mimeType.startsWith('image/')) {
+        return { base64: part.inlineData.data, mimeType: part.inlineData.mimeType };
+      }
+    }
+
+    throw new Error("Generated image data not found in API response.");
+  },
+};
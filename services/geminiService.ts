@@ -1,54 +1,33 @@
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import type { Metadata } from '../types';
-
-const getApiKey = (): string => {
-  const key = localStorage.getItem('GEMINI_API_KEY');
-  if (!key) {
-    throw new Error('API key not found. Please configure your Gemini API key.');
-  }
-  return key;
+import { Type } from "@google/genai";
+import type { Metadata, LocalizedMetadata, PromptTemplate, RedactionTarget, VisionProviderId } from '../types';
+import { ApiError, getProviderSettings, type VisionProvider, type VisionImage } from './visionProvider';
+import { geminiProvider } from './geminiProvider';
+import { openAiProvider } from './openAiProvider';
+import { mockProvider } from './mockProvider';
+import { buildMetadataPrompt, getRequiredTags } from './promptTemplates';
+import { createRateLimiter } from './jobQueue';
+import { normalizeTagCategories, flattenTagCategories } from './tagCategories';
+import { DEFAULT_LANGUAGES } from './locales';
+
+const PROVIDERS: Record<VisionProviderId, VisionProvider> = {
+  gemini: geminiProvider,
+  openai: openAiProvider,
+  mock: mockProvider,
 };
 
-const initializeGenAI = () => {
-  const apiKey = getApiKey();
-  // The SDK doesn't easily support baseUrl in this version without private hacks
-  // We will use a custom helper for the API calls that need the proxy.
-  return new GoogleGenAI({ apiKey });
-};
-
-// Helper for calling Gemini API via proxy to avoid CORS
-const callGeminiApi = async (model: string, contents: any, config: any = {}) => {
-  const apiKey = getApiKey();
-
-  // Debug: Log API key presence (not the actual key for security)
-  console.log('[Gemini Service] API Key loaded:', apiKey ? `${apiKey.substring(0, 10)}...` : 'MISSING');
+// Every AI call goes through the provider selected in the settings.
+export const getVisionProvider = (): VisionProvider => PROVIDERS[getProviderSettings().provider];
 
-  // In local development, we use the proxy defined in vite.config.ts
-  const baseUrl = '/api-proxy';
-  const url = `${baseUrl}/v1beta/models/${model}:generateContent?key=${apiKey}`;
+// Shared across all images so concurrent jobs together stay inside the provider quota.
+// 10 RPM matches the Gemini free tier for gemini-2.5-flash.
+const rateLimiter = createRateLimiter(10);
 
-  console.log('[Gemini Service] Calling API:', model);
-
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      contents,
-      generationConfig: config
-    })
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    console.error('[Gemini Service] API Error:', error);
-    throw new Error(error.error?.message || 'API request failed');
-  }
+export const setRequestsPerMinute = (requestsPerMinute: number) => rateLimiter.setRequestsPerMinute(requestsPerMinute);
 
-  return await response.json();
-};
+// Re-wraps an error with context while keeping the HTTP status the queue needs for retries.
+const withContext = (error: Error, message: string): Error =>
+  error instanceof ApiError ? new ApiError(message, error.status, error.retryAfterMs) : new Error(message);
 
 const fileToBase64 = (file: File): Promise<string> =>
   new Promise((resolve, reject) => {
@@ -63,78 +42,79 @@ const fileToBase64 = (file: File): Promise<string> =>
     reader.onerror = (error) => reject(error);
   });
 
-
-export const generateImageMetadata = async (file: File, businessName: string): Promise<Metadata> => {
+const fileToVisionImage = async (file: File): Promise<VisionImage> => ({
+  base64: await fileToBase64(file),
+  mimeType: file.type,
+});
+
+
+type GeneratedMetadata = Omit<Metadata, 'translations'> & { translations?: (LocalizedMetadata & { language: string })[] };
+
+/**
+ * `categoryNames` are the project's tag categories; the model groups its tags into them and may add its own.
+ * The first of `languages` fills the main fields; the rest come back in `translations`.
+ */
+export const generateImageMetadata = async (
+  file: File,
+  businessName: string,
+  template: PromptTemplate,
+  categoryNames: string[] = [],
+  languages: string[] = DEFAULT_LANGUAGES
+): Promise<Metadata> => {
   try {
-    const base64Image = await fileToBase64(file);
-
-    const data = await callGeminiApi("gemini-2.5-flash", [
-      {
-        parts: [
-          {
-            text: `You are an expert SEO and digital marketing assistant for an appliance repair business named "${businessName}". Analyze the provided image and generate the following distinct metadata components. Each component must be tailored for its specific purpose.
-
-**Important Rule for Appliance Type:** When identifying the appliance, use a generic but descriptive name (e.g., "display refrigerator," "commercial freezer," "stacked laundry machine"). Avoid being overly specific about what the appliance might contain (e.g., prefer "display refrigerator" over "wine cooler"). Apply this rule to all generated fields below.
-
-1.  **SEO Filename (name)**: Create a concise, SEO-friendly filename (without the file extension). The name must follow one of two formats:
-    - If the brand is visible: \`[brand-name]-[appliance-type]-[full-business-name-slug]\`.
-    - If the brand is NOT visible: \`[appliance-type]-[full-business-name-slug]\`.
-    - For \`[brand-name]\`, use the brand ONLY if clearly visible in the image.
-    - For \`[appliance-type]\`, use the generic appliance type as described in the rule above.
-    - For \`[full-business-name-slug]\`, convert the full business name "${businessName}" into a lowercase, hyphenated slug (e.g., "Citywide Melbourne Appliance Repairs" becomes "citywide-melbourne-appliance-repairs").
-    - Example with brand: \`samsung-fridge-citywide-melbourne-appliance-repairs\`.
-    - Example without brand: \`display-refrigerator-citywide-melbourne-appliance-repairs\`.
-    - Do NOT include generic words like "repair" or "service" in the filename, unless it's part of the business name slug.
-
-2.  **Alt Text (altText)**: Write a concise, literal description of the image for accessibility (WCAG compliant). Describe exactly what is visible for visually impaired users. Avoid marketing language. Example: "A technician in a blue uniform inspecting the interior of a stainless steel display refrigerator."
-
-3.  **SEO Description (description)**: Write a detailed, one-to-two sentence description optimized for search engines. This text will appear on the website near the image. It should naturally incorporate keywords like "appliance repair," "commercial," and "domestic" services, along with what's depicted in the image.
-
-4.  **Social Media Caption (caption)**: Create an engaging and friendly caption for social media platforms like Instagram or Facebook. It can include a question to encourage engagement or a brief customer-centric tip. Example: "Is your display fridge not keeping its cool? Our expert technicians can diagnose and fix it fast! #ApplianceRepair #${businessName}".
-
-5.  **Tags (tags)**: Provide a list of 5-10 relevant SEO keywords as a JSON array of strings. This list MUST include "${businessName}", "commercial appliance repair", and "domestic appliance repair". Other tags should be specific to the appliance or service shown.`
-          },
-          { inlineData: { mimeType: file.type, data: base64Image } }
-        ]
-      }
-    ], {
-      responseMimeType: "application/json",
-      responseSchema: {
+    const image = await fileToVisionImage(file);
+    const [primaryLanguage, ...otherLanguages] = languages.length > 0 ? languages : DEFAULT_LANGUAGES;
+
+    await rateLimiter.acquire();
+    const { translations, ...parsedMetadata }: GeneratedMetadata = await getVisionProvider().generateJson<GeneratedMetadata>({
+      prompt: buildMetadataPrompt(template, businessName, categoryNames, [primaryLanguage, ...otherLanguages]),
+      images: [image],
+      schema: {
         type: Type.OBJECT,
         properties: {
           name: { type: Type.STRING },
           description: { type: Type.STRING },
           altText: { type: Type.STRING },
           caption: { type: Type.STRING },
-          tags: { type: Type.ARRAY, items: { type: Type.STRING } }
+          tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+          tagCategories: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                category: { type: Type.STRING },
+                tags: { type: Type.ARRAY, items: { type: Type.STRING } }
+              },
+              required: ["category", "tags"]
+            }
+          },
+          ...(otherLanguages.length > 0 ? {
+            translations: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  language: { type: Type.STRING, enum: otherLanguages },
+                  name: { type: Type.STRING },
+                  description: { type: Type.STRING },
+                  altText: { type: Type.STRING },
+                  caption: { type: Type.STRING }
+                },
+                required: ["language", "name", "description", "altText", "caption"]
+              }
+            }
+          } : {})
         },
-        required: ["name", "description", "altText", "caption", "tags"]
+        required: ["name", "description", "altText", "caption", "tags", "tagCategories", ...(otherLanguages.length > 0 ? ["translations"] : [])]
       }
     });
 
-    if (!data.candidates?.[0]) {
-      throw new Error("No candidates returned from API. Check your request or API quota.");
-    }
-
-    const candidate = data.candidates[0];
-    if (candidate.finishReason === 'SAFETY') {
-      throw new Error("Content was blocked by safety filters. Try a different image or description.");
-    }
-
-    if (!candidate.content?.parts?.[0]?.text) {
-      throw new Error(`API returned an unexpected response structure. Reason: ${candidate.finishReason || 'Unknown'}`);
-    }
-
-    const parsedMetadata: Metadata = JSON.parse(candidate.content.parts[0].text);
-
     // Ensure required tags are present and handle potential case variations from the model.
-    const requiredTags = [
-      { key: businessName.toLowerCase(), value: businessName },
-      { key: 'commercial appliance repair', value: 'commercial appliance repair' },
-      { key: 'domestic appliance repair', value: 'domestic appliance repair' },
-    ];
+    const requiredTags = getRequiredTags(template, businessName).map(tag => ({ key: tag.toLowerCase(), value: tag }));
 
-    const tagMap = new Map(parsedMetadata.tags.map(tag => [tag.toLowerCase(), tag]));
+    // Categorized tags the model left out of the flat list still count as tags.
+    parsedMetadata.tagCategories = normalizeTagCategories(Array.isArray(parsedMetadata.tagCategories) ? parsedMetadata.tagCategories : []);
+    const tagMap = new Map([...parsedMetadata.tags, ...flattenTagCategories(parsedMetadata.tagCategories)].map(tag => [tag.toLowerCase(), tag]));
 
     requiredTags.forEach(req => {
       if (!tagMap.has(req.key)) {
@@ -144,12 +124,20 @@ export const generateImageMetadata = async (file: File, businessName: string): P
 
     parsedMetadata.tags = Array.from(tagMap.values());
 
-    return parsedMetadata;
+    const metadata: Metadata = { ...parsedMetadata, language: primaryLanguage };
+    // Only keep the languages that were asked for, in the project's order
+    const byLanguage = new Map((Array.isArray(translations) ? translations : []).map(({ language, ...fields }) => [language, fields]));
+    const requested = otherLanguages.filter(language => byLanguage.has(language));
+    if (requested.length > 0) {
+      metadata.translations = Object.fromEntries(requested.map(language => [language, byLanguage.get(language)!]));
+    }
+
+    return metadata;
 
   } catch (error) {
     console.error("Error generating image metadata:", error);
     if (error instanceof Error) {
-      throw new Error(`Failed to generate metadata: ${error.message}`);
+      throw withContext(error, `Failed to generate metadata: ${error.message}`);
     }
     throw new Error("An unknown error occurred while generating metadata.");
   }
@@ -157,52 +145,112 @@ export const generateImageMetadata = async (file: File, businessName: string): P
 
 export const enhanceImage = async (file: File): Promise<{ base64: string, mimeType: string }> => {
   try {
-    const base64Image = await fileToBase64(file);
-
-    const data = await callGeminiApi('gemini-2.5-flash-image', [
-      {
-        parts: [
-          { inlineData: { data: base64Image, mimeType: file.type } },
-          { text: 'Enhance this image to improve its quality. Make it look cleaner, sharper, and more vibrant without altering the core subject.' }
-        ]
-      }
-    ], {
-      responseModalities: [Modality.IMAGE]
-    });
+    const image = await fileToVisionImage(file);
 
-    if (!data.candidates?.[0]?.content?.parts) {
-      const reason = data.candidates?.[0]?.finishReason;
-      if (reason === 'SAFETY') throw new Error("Enhancement blocked by safety filters.");
-      throw new Error(`Enhanced image data not found. Reason: ${reason || 'Unknown'}`);
+    await rateLimiter.acquire();
+    return await getVisionProvider().generateImage({
+      prompt: 'Enhance this image to improve its quality. Make it look cleaner, sharper, and more vibrant without altering the core subject.',
+      images: [image]
+    });
+  } catch (error) {
+    console.error("Error enhancing image:", error);
+    if (error instanceof Error) {
+      throw withContext(error, `Failed to enhance image: ${error.message}`);
     }
+    throw new Error("An unknown error occurred while enhancing the image.");
+  }
+};
+
+/**
+ * Where the main subject is, as fractions of the image width and height, so crops keep it in frame.
+ */
+export const suggestFocalPoint = async (file: File): Promise<{ x: number, y: number }> => {
+  try {
+    const image = await fileToVisionImage(file);
 
-    for (const part of data.candidates[0].content.parts) {
-      if (part.inlineData && part.inlineData.mimeType.startsWith('image/')) {
-        return { base64: part.inlineData.data, mimeType: part.inlineData.mimeType };
+    await rateLimiter.acquire();
+    const point = await getVisionProvider().generateJson<{ x: number, y: number }>({
+      prompt: 'Find the main subject of this photo: the product, work or person a viewer should see first, including any logo or signage on it. Return the centre of that subject as x and y, each a fraction from 0 to 1 of the image width (from the left) and height (from the top).',
+      images: [image],
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          x: { type: Type.NUMBER },
+          y: { type: Type.NUMBER }
+        },
+        required: ["x", "y"]
       }
+    });
+
+    const clamp = (value: unknown) => Number.isFinite(Number(value)) ? Math.max(0, Math.min(1, Number(value))) : 0.5;
+    return { x: clamp(point.x), y: clamp(point.y) };
+  } catch (error) {
+    console.error("Error suggesting focal point:", error);
+    if (error instanceof Error) {
+      throw withContext(error, `Failed to suggest focal point: ${error.message}`);
     }
+    throw new Error("An unknown error occurred while suggesting a focal point.");
+  }
+};
+
+const REDACTION_TARGET_DESCRIPTIONS: Record<RedactionTarget, string> = {
+  face: 'human faces (including partly visible or reflected ones)',
+  licensePlate: 'vehicle licence plates',
+  houseNumber: 'house or street numbers and letterbox numbers',
+};
+
+/**
+ * Bounding boxes of private details to blur, as fractions of the image size.
+ */
+export const detectSensitiveRegions = async (file: File, targets: RedactionTarget[]): Promise<{ kind: RedactionTarget, x: number, y: number, width: number, height: number }[]> => {
+  if (targets.length === 0) return [];
+  try {
+    const image = await fileToVisionImage(file);
 
-    throw new Error("Enhanced image data not found in API response.");
+    await rateLimiter.acquire();
+    const { regions } = await getVisionProvider().generateJson<{ regions: { kind: RedactionTarget, x: number, y: number, width: number, height: number }[] }>({
+      prompt: `Find every one of these in the photo so they can be blurred before publishing: ${targets.map(target => REDACTION_TARGET_DESCRIPTIONS[target]).join('; ')}. Return one region per item with a box that fully covers it: x and y are its top-left corner and width and height its size, all as fractions from 0 to 1 of the image width and height. Return an empty list when there are none.`,
+      images: [image],
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          regions: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                kind: { type: Type.STRING, enum: targets },
+                x: { type: Type.NUMBER },
+                y: { type: Type.NUMBER },
+                width: { type: Type.NUMBER },
+                height: { type: Type.NUMBER }
+              },
+              required: ["kind", "x", "y", "width", "height"]
+            }
+          }
+        },
+        required: ["regions"]
+      }
+    });
 
+    return (Array.isArray(regions) ? regions : []).filter(region => targets.includes(region.kind));
   } catch (error) {
-    console.error("Error enhancing image:", error);
+    console.error("Error detecting sensitive regions:", error);
     if (error instanceof Error) {
-      throw new Error(`Failed to enhance image: ${error.message}`);
+      throw withContext(error, `Failed to detect faces and plates: ${error.message}`);
     }
-    throw new Error("An unknown error occurred while enhancing the image.");
+    throw new Error("An unknown error occurred while detecting faces and plates.");
   }
 };
 
 export const addTechToImage = async (baseImageFile: File, techImageFile: File): Promise<{ base64: string, mimeType: string }> => {
   try {
-    const baseImageBase64 = await fileToBase64(baseImageFile);
-    const techImageBase64 = await fileToBase64(techImageFile);
+    const baseImage = await fileToVisionImage(baseImageFile);
+    const techImage = await fileToVisionImage(techImageFile);
 
-    const data = await callGeminiApi('gemini-2.5-flash-image', [
-      {
-        parts: [
-          {
-            text: `You are a professional photo compositor specializing in realistic image synthesis. Your task: seamlessly add the technician from IMAGE 2 into the scene from IMAGE 1.
+    await rateLimiter.acquire();
+    return await getVisionProvider().generateImage({
+      prompt: `You are a professional photo compositor specializing in realistic image synthesis. Your task: seamlessly add the technician from IMAGE 2 into the scene from IMAGE 1.
 
 **Step 1 - Analyze & Prepare:**
 - If IMAGE 1 is zoomed too close to the appliance, expand the scene outward to show more room context (more floor, walls, surrounding area)
@@ -224,46 +272,14 @@ export const addTechToImage = async (baseImageFile: File, techImageFile: File):
 - Add natural shadows where the person meets the floor/surfaces
 - Ensure color grading is consistent across the entire image
 
-**Final Result:** A single, photorealistic image where the technician appears to have been in the original scene, positioned naturally next to the appliance with perfect lighting and perspective integration.`
-          },
-          {
-            // Background scene
-            inlineData: {
-              data: baseImageBase64,
-              mimeType: baseImageFile.type,
-            },
-          },
-          {
-            // Person to extract
-            inlineData: {
-              data: techImageBase64,
-              mimeType: techImageFile.type,
-            },
-          },
-        ],
-      }
-    ], {
-      responseModalities: [Modality.IMAGE]
+**Final Result:** A single, photorealistic image where the technician appears to have been in the original scene, positioned naturally next to the appliance with perfect lighting and perspective integration.`,
+      // Background scene first, then the person to extract
+      images: [baseImage, techImage]
     });
-
-    if (!data.candidates?.[0]?.content?.parts) {
-      const reason = data.candidates?.[0]?.finishReason;
-      if (reason === 'SAFETY') throw new Error("Synthesis blocked by safety filters. Ensure images are professional and appropriate.");
-      throw new Error(`Generated image data not found. Reason: ${reason || 'Unknown'}`);
-    }
-
-    for (const part of data.candidates[0].content.parts) {
-      if (part.inlineData && part.inlineData.mimeType.startsWith('image/')) {
-        return { base64: part.inlineData.data, mimeType: part.inlineData.mimeType };
-      }
-    }
-
-    throw new Error("Generated image data not found in API response.");
-
   } catch (error) {
     console.error("Error adding tech to image:", error);
     if (error instanceof Error) {
-      throw new Error(`Failed to add tech to image: ${error.message}`);
+      throw withContext(error, `Failed to add tech to image: ${error.message}`);
     }
     throw new Error("An unknown error occurred while adding tech to the image.");
   }
@@ -1,4 +1,5 @@
-import type { Metadata, GeoLocation } from '../types';
+import type { Metadata, GeoLocation, CompanyInfo, MetadataStandards, ExifPreservation, SourceExif, RenditionFormat, EnhancementSettings, EnhancementPresetId } from '../types';
+import { buildXmpSegment, buildIptcSegment, insertJpegSegments, getCopyrightNotice, buildXmpPacket, insertPngMetadata, insertWebpMetadata } from './metadataWriters';
 
 // Let TypeScript know piexif is available on the window
 declare var piexif: any;
@@ -21,6 +22,24 @@ const toXPString = (str: string): number[] => {
     return bytes;
 };
 
+/**
+ * EXIF ASCII tags hold raw bytes and piexif wants them as a binary string (one char per byte).
+ * Non-ASCII text goes in as UTF-8, which ExifTool, Windows and most viewers read it as.
+ */
+const toExifAscii = (str: string): string =>
+    String.fromCharCode(...new TextEncoder().encode(str.replace(/\0/g, '')));
+
+// UserComment starts with an 8-byte character code; UNICODE is UCS-2 in the file's byte order (piexif writes big-endian)
+const toUserComment = (str: string): string => {
+    if (/^[\x00-\x7f]*$/.test(str)) return `ASCII\0\0\0${str}`;
+    let encoded = 'UNICODE\0';
+    for (let i = 0; i < str.length; i++) {
+        const charCode = str.charCodeAt(i);
+        encoded += String.fromCharCode((charCode >> 8) & 0xFF, charCode & 0xFF);
+    }
+    return encoded;
+};
+
 /**
  * Converts decimal degrees to DMS (degrees, minutes, seconds) format for EXIF.
  */
@@ -32,7 +51,55 @@ const toDMS = (deg: number): [[number, number], [number, number], [number, numbe
     return [[degrees, 1], [minutes, 1], [seconds, 100]];
 };
 
-export const convertBlobToJpegDataURL = (blob: Blob): Promise<string> => {
+/**
+ * Converts EXIF DMS rationals back to signed decimal degrees.
+ */
+export const fromDMS = (dms: [number, number][], ref: string): number => {
+    const [d, m, s] = dms.map(([numerator, denominator]) => numerator / denominator);
+    const decimal = d + m / 60 + s / 3600;
+    return ref === 'S' || ref === 'W' ? -decimal : decimal;
+};
+
+// piexif works on binary strings, one char per byte
+export const toBinaryString = (bytes: Uint8Array): string => {
+    let result = '';
+    for (let i = 0; i < bytes.length; i += 8192) {
+        result += String.fromCharCode(...bytes.subarray(i, i + 8192));
+    }
+    return result;
+};
+
+export const blobToDataURL = (blob: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = (error) => reject(error);
+        reader.readAsDataURL(blob);
+    });
+
+/**
+ * Re-encodes any image as JPEG. EXIF orientation is applied to the pixels, so the
+ * result is upright even after the original Orientation tag is dropped.
+ */
+export const convertBlobToJpegDataURL = async (blob: Blob): Promise<string> => {
+    if (typeof createImageBitmap === 'function') {
+        try {
+            const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+            const canvas = document.createElement('canvas');
+            canvas.width = bitmap.width;
+            canvas.height = bitmap.height;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                throw new Error('Could not get canvas context');
+            }
+            ctx.drawImage(bitmap, 0, 0);
+            bitmap.close();
+            return canvas.toDataURL('image/jpeg', 0.95);
+        } catch (error) {
+            console.warn('[Image Processor] createImageBitmap failed, falling back to <img> decoding:', error);
+        }
+    }
+
     return new Promise((resolve, reject) => {
         const img = new Image();
         img.onload = () => {
@@ -56,7 +123,40 @@ export const convertBlobToJpegDataURL = (blob: Blob): Promise<string> => {
     });
 };
 
-export const resizeImage = (imageBlob: Blob, targetAspectRatio: number): Promise<Blob> => {
+export interface FocalPoint {
+    x: number;                      // 0-1 across the image
+    y: number;                      // 0-1 down the image
+}
+
+export const CENTER_FOCAL_POINT: FocalPoint = { x: 0.5, y: 0.5 };
+
+export const CROP_PRESETS: { id: string, label: string, aspect: number }[] = [
+    { id: 'square', label: '1:1 Instagram', aspect: 1 },
+    { id: 'portrait', label: '4:5 Portrait', aspect: 4 / 5 },
+    { id: 'hero', label: '16:9 Hero', aspect: 16 / 9 },
+    { id: 'gbp', label: '4:3 GBP', aspect: 4 / 3 },
+];
+
+/**
+ * The largest rectangle of the given aspect ratio that fits the image, centred on the focal
+ * point as far as the image edges allow.
+ */
+export const getCropRect = (width: number, height: number, targetAspectRatio: number, focalPoint: FocalPoint = CENTER_FOCAL_POINT) => {
+    const sw = Math.round(Math.min(width, height * targetAspectRatio));
+    const sh = Math.round(Math.min(height, width / targetAspectRatio));
+    const clamp = (value: number, max: number) => Math.round(Math.max(0, Math.min(max, value)));
+    return {
+        sx: clamp(focalPoint.x * width - sw / 2, width - sw),
+        sy: clamp(focalPoint.y * height - sh / 2, height - sh),
+        sw,
+        sh,
+    };
+};
+
+/**
+ * Crops to the aspect ratio (cover), keeping the focal point in frame. Without a focal point the crop is centred.
+ */
+export const resizeImage = (imageBlob: Blob, targetAspectRatio: number, focalPoint: FocalPoint = CENTER_FOCAL_POINT): Promise<Blob> => {
     return new Promise((resolve, reject) => {
         const img = new Image();
         img.onload = () => {
@@ -66,26 +166,10 @@ export const resizeImage = (imageBlob: Blob, targetAspectRatio: number): Promise
                 return reject(new Error('Could not get canvas context'));
             }
 
-            let canvasWidth, canvasHeight;
-            const originalAspectRatio = img.width / img.height;
-
-            if (originalAspectRatio > targetAspectRatio) {
-                // Image is wider than target frame - fill height and crop sides (Cover)
-                canvasHeight = img.height;
-                canvasWidth = img.height * targetAspectRatio;
-            } else {
-                // Image is narrower than target frame - fill width and crop top/bottom (Cover)
-                canvasWidth = img.width;
-                canvasHeight = img.width / targetAspectRatio;
-            }
-
-            canvas.width = canvasWidth;
-            canvas.height = canvasHeight;
-
-            // Draw image exactly centered and scaled to cover the entire canvas
-            const xOffset = (canvasWidth - img.width) / 2;
-            const yOffset = (canvasHeight - img.height) / 2;
-            ctx.drawImage(img, xOffset, yOffset);
+            const { sx, sy, sw, sh } = getCropRect(img.width, img.height, targetAspectRatio, focalPoint);
+            canvas.width = sw;
+            canvas.height = sh;
+            ctx.drawImage(img, sx, sy, sw, sh, 0, 0, sw, sh);
 
             canvas.toBlob(
                 (blob) => {
@@ -157,81 +241,572 @@ export const upscaleImageToHeight = (imageBlob: Blob, targetHeight: number): Pro
 };
 
 
-export const embedMetadata = async (imageBlob: Blob, metadata: Metadata, businessName: string, location: GeoLocation): Promise<Blob> => {
-    if (typeof piexif === 'undefined') {
-        console.error("piexif.js is not loaded. Cannot embed metadata.");
-        const jpegDataUrl = await convertBlobToJpegDataURL(imageBlob);
-        const res = await fetch(jpegDataUrl);
-        return res.blob();
+// Local, deterministic enhancement on canvas pixels: the same photo and settings always give the same
+// result, at the original resolution, and nothing leaves the browser.
+
+export const ENHANCEMENT_PRESETS: Record<Exclude<EnhancementPresetId, 'custom'>, { label: string, settings: Omit<EnhancementSettings, 'preset'> }> = {
+    natural: { label: 'Natural', settings: { whiteBalance: 50, exposure: 40, levels: 50, sharpen: 25, denoise: 0 } },
+    vivid: { label: 'Vivid', settings: { whiteBalance: 60, exposure: 50, levels: 90, sharpen: 45, denoise: 0 } },
+    lowLight: { label: 'Low Light', settings: { whiteBalance: 60, exposure: 90, levels: 60, sharpen: 15, denoise: 70 } },
+    product: { label: 'Product', settings: { whiteBalance: 90, exposure: 50, levels: 80, sharpen: 55, denoise: 20 } },
+};
+
+export const DEFAULT_ENHANCEMENT_SETTINGS: EnhancementSettings = { preset: 'natural', ...ENHANCEMENT_PRESETS.natural.settings };
+
+export interface PixelBuffer {
+    data: Uint8ClampedArray;        // RGBA, as in ImageData
+    width: number;
+    height: number;
+}
+
+const luma = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+const applyLuts = (pixels: PixelBuffer, r: Uint8ClampedArray, g: Uint8ClampedArray, b: Uint8ClampedArray) => {
+    const { data } = pixels;
+    for (let i = 0; i < data.length; i += 4) {
+        data[i] = r[data[i]];
+        data[i + 1] = g[data[i + 1]];
+        data[i + 2] = b[data[i + 2]];
     }
+};
+
+const buildLut = (map: (value: number) => number): Uint8ClampedArray => {
+    const lut = new Uint8ClampedArray(256);
+    for (let v = 0; v < 256; v++) lut[v] = Math.round(map(v));
+    return lut;
+};
+
+/**
+ * 3×3 box blur of the RGB channels (separable, edges clamped); alpha is copied unchanged.
+ */
+const boxBlur = ({ data, width, height }: PixelBuffer): Uint8ClampedArray => {
+    const horizontal = new Uint8ClampedArray(data.length);
+    const result = new Uint8ClampedArray(data.length);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            const left = (y * width + Math.max(0, x - 1)) * 4;
+            const right = (y * width + Math.min(width - 1, x + 1)) * 4;
+            for (let c = 0; c < 3; c++) horizontal[i + c] = (data[left + c] + data[i + c] + data[right + c]) / 3;
+            horizontal[i + 3] = data[i + 3];
+        }
+    }
+    for (let y = 0; y < height; y++) {
+        const up = Math.max(0, y - 1) * width;
+        const down = Math.min(height - 1, y + 1) * width;
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            for (let c = 0; c < 3; c++) result[i + c] = (horizontal[(up + x) * 4 + c] + horizontal[i + c] + horizontal[(down + x) * 4 + c]) / 3;
+            result[i + 3] = horizontal[i + 3];
+        }
+    }
+    return result;
+};
+
+// Smooths small differences (sensor noise) but leaves edges, where the blur moves a pixel a lot, alone
+const denoise = (pixels: PixelBuffer, strength: number) => {
+    const blurred = boxBlur(pixels);
+    const threshold = 12 + 30 * strength;
+    const { data } = pixels;
+    for (let i = 0; i < data.length; i++) {
+        if ((i & 3) === 3) continue;
+        const diff = blurred[i] - data[i];
+        if (Math.abs(diff) < threshold) data[i] = data[i] + diff * strength;
+    }
+};
+
+// Gray world: the average of the mid-tones should be neutral
+const whiteBalance = (pixels: PixelBuffer, strength: number) => {
+    const { data } = pixels;
+    const sums = [0, 0, 0];
+    let count = 0;
+    for (let i = 0; i < data.length; i += 4) {
+        const y = luma(data[i], data[i + 1], data[i + 2]);
+        if (y < 16 || y > 240) continue;
+        sums[0] += data[i];
+        sums[1] += data[i + 1];
+        sums[2] += data[i + 2];
+        count++;
+    }
+    if (count === 0) return;
+    const means = sums.map(sum => sum / count);
+    const gray = (means[0] + means[1] + means[2]) / 3;
+    // Clamped so a photo that is legitimately mostly one colour isn't turned gray
+    const gains = means.map(mean => 1 + (Math.min(1.4, Math.max(0.7, gray / Math.max(mean, 1))) - 1) * strength);
+    const [r, g, b] = gains.map(gain => buildLut(v => v * gain));
+    applyLuts(pixels, r, g, b);
+};
+
+// Gamma that moves the mean brightness towards a mid-grey
+const correctExposure = (pixels: PixelBuffer, strength: number) => {
+    const { data } = pixels;
+    let total = 0;
+    for (let i = 0; i < data.length; i += 4) total += luma(data[i], data[i + 1], data[i + 2]);
+    const mean = Math.min(0.98, Math.max(0.02, total / (data.length / 4) / 255));
+    const gamma = Math.min(1.8, Math.max(0.5, Math.log(0.47) / Math.log(mean)));
+    const effective = 1 + (gamma - 1) * strength;
+    const lut = buildLut(v => 255 * Math.pow(v / 255, effective));
+    applyLuts(pixels, lut, lut, lut);
+};
+
+// Stretches the 0.5-99.5 percentile brightness range to the full 0-255, the same for every channel
+const autoLevels = (pixels: PixelBuffer, strength: number) => {
+    const { data } = pixels;
+    const histogram = new Uint32Array(256);
+    for (let i = 0; i < data.length; i += 4) histogram[Math.round(luma(data[i], data[i + 1], data[i + 2]))]++;
+    const total = data.length / 4;
+    const percentile = (fraction: number) => {
+        let seen = 0;
+        for (let v = 0; v < 256; v++) {
+            seen += histogram[v];
+            if (seen >= total * fraction) return v;
+        }
+        return 255;
+    };
+    const low = percentile(0.005);
+    const high = percentile(0.995);
+    if (high - low < 10) return;    // Flat image; stretching would only amplify noise
+    const lut = buildLut(v => v + (((v - low) * 255) / (high - low) - v) * strength);
+    applyLuts(pixels, lut, lut, lut);
+};
+
+// Unsharp mask with a 3×3 radius
+const sharpen = (pixels: PixelBuffer, strength: number) => {
+    const blurred = boxBlur(pixels);
+    const amount = strength * 1.5;
+    const { data } = pixels;
+    for (let i = 0; i < data.length; i++) {
+        if ((i & 3) === 3) continue;
+        data[i] = data[i] + (data[i] - blurred[i]) * amount;
+    }
+};
+
+/**
+ * Runs the enabled steps in place: denoise first (so sharpening doesn't amplify noise),
+ * then white balance, exposure, levels and sharpening. Each setting is a 0-100 strength; 0 skips the step.
+ */
+export const applyEnhancements = (pixels: PixelBuffer, settings: EnhancementSettings): void => {
+    const steps: [number, (pixels: PixelBuffer, strength: number) => void][] = [
+        [settings.denoise, denoise],
+        [settings.whiteBalance, whiteBalance],
+        [settings.exposure, correctExposure],
+        [settings.levels, autoLevels],
+        [settings.sharpen, sharpen],
+    ];
+    steps.forEach(([value, step]) => {
+        if (value > 0) step(pixels, Math.min(100, value) / 100);
+    });
+};
+
+export const enhanceImageLocally = (imageBlob: Blob, settings: EnhancementSettings): Promise<Blob> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            const ctx = canvas.getContext('2d', { willReadFrequently: true });
+            if (!ctx) {
+                URL.revokeObjectURL(img.src);
+                return reject(new Error('Could not get canvas context'));
+            }
+
+            canvas.width = img.width;
+            canvas.height = img.height;
+            ctx.drawImage(img, 0, 0);
+            const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+            applyEnhancements(imageData, settings);
+            ctx.putImageData(imageData, 0, 0);
+
+            canvas.toBlob(
+                (blob) => {
+                    if (blob) {
+                        resolve(blob);
+                    } else {
+                        reject(new Error('Failed to create blob from canvas for enhancement.'));
+                    }
+                    URL.revokeObjectURL(img.src);
+                },
+                'image/jpeg', 0.95
+            );
+        };
+        img.onerror = (err) => {
+            URL.revokeObjectURL(img.src);
+            reject(err);
+        };
+        img.src = URL.createObjectURL(imageBlob);
+    });
+};
+
+export interface EmbedOptions {
+    companyInfo?: CompanyInfo;
+    standards?: MetadataStandards;
+    sourceExif?: SourceExif | null;      // Original EXIF of the upload, see readSourceExif
+    preserveExif?: ExifPreservation;     // Which original groups survive the merge
+}
+
+export const DEFAULT_METADATA_STANDARDS: MetadataStandards = { exif: true, xmp: true, iptc: true };
+
+export const DEFAULT_EXIF_PRESERVATION: ExifPreservation = { captureDate: true, camera: true, exposure: true };
+
+/**
+ * Original tags we may carry over, by preservation group. Everything else (titles, authorship,
+ * GPS, software, orientation) is owned by the tagger and always rewritten.
+ */
+type PreservedExif = Pick<SourceExif, '0th' | 'Exif'>;
+
+const getPreservableTags = (): Record<keyof ExifPreservation, { ifd: keyof PreservedExif, tag: number }[]> => ({
+    captureDate: [
+        { ifd: 'Exif', tag: piexif.ExifIFD.DateTimeOriginal },
+        { ifd: 'Exif', tag: piexif.ExifIFD.DateTimeDigitized },
+        { ifd: 'Exif', tag: piexif.ExifIFD.SubSecTimeOriginal },
+        { ifd: 'Exif', tag: piexif.ExifIFD.SubSecTimeDigitized },
+    ],
+    camera: [
+        { ifd: '0th', tag: piexif.ImageIFD.Make },
+        { ifd: '0th', tag: piexif.ImageIFD.Model },
+        { ifd: 'Exif', tag: piexif.ExifIFD.LensMake },
+        { ifd: 'Exif', tag: piexif.ExifIFD.LensModel },
+    ],
+    exposure: [
+        { ifd: 'Exif', tag: piexif.ExifIFD.ExposureTime },
+        { ifd: 'Exif', tag: piexif.ExifIFD.FNumber },
+        { ifd: 'Exif', tag: piexif.ExifIFD.ExposureProgram },
+        { ifd: 'Exif', tag: piexif.ExifIFD.ISOSpeedRatings },
+        { ifd: 'Exif', tag: piexif.ExifIFD.ExposureBiasValue },
+        { ifd: 'Exif', tag: piexif.ExifIFD.MeteringMode },
+        { ifd: 'Exif', tag: piexif.ExifIFD.Flash },
+        { ifd: 'Exif', tag: piexif.ExifIFD.FocalLength },
+        { ifd: 'Exif', tag: piexif.ExifIFD.FocalLengthIn35mmFilm },
+        { ifd: 'Exif', tag: piexif.ExifIFD.WhiteBalance },
+    ],
+});
+
+/**
+ * Reads the preservable EXIF of an upload. Must run on the original file: AI enhancement
+ * and canvas re-encoding both strip EXIF. Returns null for files without readable EXIF (e.g. PNG).
+ * Converted HEICs have theirs, see carryHeicExif.
+ */
+export const readSourceExif = async (blob: Blob): Promise<SourceExif | null> => {
+    if (typeof piexif === 'undefined' || !['image/jpeg', 'image/jpg'].includes(blob.type)) return null;
 
     try {
-        const jpegDataUrl = await convertBlobToJpegDataURL(imageBlob);
+        const exifObj = piexif.load(await blobToDataURL(blob));
+        const gpsIfd = exifObj.GPS || {};
+        const latitude = gpsIfd[piexif.GPSIFD.GPSLatitude];
+        const longitude = gpsIfd[piexif.GPSIFD.GPSLongitude];
+        const gps = latitude && longitude
+            ? { lat: fromDMS(latitude, gpsIfd[piexif.GPSIFD.GPSLatitudeRef]), lng: fromDMS(longitude, gpsIfd[piexif.GPSIFD.GPSLongitudeRef]) }
+            : null;
+        const source: SourceExif = { '0th': {}, Exif: {}, gps };
+        let found = gps !== null;
+
+        Object.values(getPreservableTags()).flat().forEach(({ ifd, tag }) => {
+            const value = exifObj[ifd]?.[tag];
+            if (tag !== undefined && value !== undefined) {
+                source[ifd][tag] = value;
+                found = true;
+            }
+        });
+        return found ? source : null;
+    } catch (error) {
+        console.warn('[Image Processor] Could not read source EXIF:', error);
+        return null;
+    }
+};
+
+// ISO BMFF boxes between start and end: 32-bit size (1: 64-bit size follows, 0: to the end) and a 4-char type
+const readBoxes = (bytes: Uint8Array, view: DataView, start: number, end: number): { type: string, start: number, end: number }[] => {
+    const boxes: { type: string, start: number, end: number }[] = [];
+    let offset = start;
+    while (offset + 8 <= end) {
+        let size = view.getUint32(offset);
+        let header = 8;
+        if (size === 1) {
+            size = Number(view.getBigUint64(offset + 8));
+            header = 16;
+        } else if (size === 0) {
+            size = end - offset;
+        }
+        if (size < header || offset + size > end) break;
+        boxes.push({ type: String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)), start: offset + header, end: offset + size });
+        offset += size;
+    }
+    return boxes;
+};
+
+/**
+ * The TIFF structure of a HEIC/HEIF's Exif item: found through the meta box's item info (iinf)
+ * and located through its item locations (iloc). Null when there is none.
+ */
+const readHeicExif = (bytes: Uint8Array): Uint8Array | null => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const readUint = (offset: number, size: number): number =>
+        size === 0 ? 0 : size === 2 ? view.getUint16(offset) : size === 4 ? view.getUint32(offset) : Number(view.getBigUint64(offset));
+
+    const meta = readBoxes(bytes, view, 0, bytes.length).find(box => box.type === 'meta');
+    if (!meta) return null;
+    // meta, iinf, infe and iloc are full boxes: one version byte and three flag bytes first
+    const children = readBoxes(bytes, view, meta.start + 4, meta.end);
+    const iinf = children.find(box => box.type === 'iinf');
+    const iloc = children.find(box => box.type === 'iloc');
+    if (!iinf || !iloc) return null;
+
+    const iinfVersion = bytes[iinf.start];
+    let exifId: number | null = null;
+    readBoxes(bytes, view, iinf.start + (iinfVersion === 0 ? 6 : 8), iinf.end)
+        .filter(box => box.type === 'infe' && bytes[box.start] >= 2)
+        .forEach(box => {
+            const idSize = bytes[box.start] === 2 ? 2 : 4;
+            const typeOffset = box.start + 4 + idSize + 2;
+            if (String.fromCharCode(...bytes.subarray(typeOffset, typeOffset + 4)) === 'Exif') exifId = readUint(box.start + 4, idSize);
+        });
+    if (exifId === null) return null;
+
+    const version = bytes[iloc.start];
+    const offsetSize = bytes[iloc.start + 4] >> 4;
+    const lengthSize = bytes[iloc.start + 4] & 0x0F;
+    const baseOffsetSize = bytes[iloc.start + 5] >> 4;
+    const indexSize = version > 0 ? bytes[iloc.start + 5] & 0x0F : 0;
+    const idSize = version < 2 ? 2 : 4;
+    let offset = iloc.start + 6;
+    const itemCount = readUint(offset, idSize);
+    offset += idSize;
+
+    for (let item = 0; item < itemCount; item++) {
+        const itemId = readUint(offset, idSize);
+        offset += idSize;
+        const constructionMethod = version > 0 ? view.getUint16(offset) & 0x0F : 0;
+        if (version > 0) offset += 2;
+        offset += 2; // data_reference_index
+        const baseOffset = readUint(offset, baseOffsetSize);
+        offset += baseOffsetSize;
+        const extentCount = view.getUint16(offset);
+        offset += 2;
+        const extents: Uint8Array[] = [];
+        for (let extent = 0; extent < extentCount; extent++) {
+            offset += indexSize;
+            const extentOffset = readUint(offset, offsetSize);
+            offset += offsetSize;
+            const extentLength = readUint(offset, lengthSize);
+            offset += lengthSize;
+            extents.push(bytes.subarray(baseOffset + extentOffset, baseOffset + extentOffset + extentLength));
+        }
+        // Only items stored in the file itself (construction method 0) can be read
+        if (itemId !== exifId || constructionMethod !== 0) continue;
+
+        const data = extents.length === 1 ? extents[0] : Uint8Array.from(extents.flatMap(extent => Array.from(extent)));
+        // The item starts with the offset of the TIFF header, which may sit after an "Exif\0\0" prefix
+        const tiffStart = 4 + new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0);
+        return tiffStart < data.length ? data.subarray(tiffStart) : null;
+    }
+    return null;
+};
 
-        const zeroth: any = {};
-        const exif: any = {};
-        const gps: any = {};
+/**
+ * Copies a HEIC's EXIF into the JPEG it was converted to, which heic2any leaves without any, so
+ * capture date, camera, exposure and GPS survive the conversion. The pixels are already upright,
+ * so Orientation is reset; the JPEG is returned unchanged when there is nothing to copy.
+ */
+export const carryHeicExif = async (heic: Blob, jpeg: Blob): Promise<Blob> => {
+    if (typeof piexif === 'undefined') return jpeg;
+    try {
+        const tiff = readHeicExif(new Uint8Array(await heic.arrayBuffer()));
+        if (!tiff) return jpeg;
+        const exifObj = piexif.load(`Exif\0\0${toBinaryString(tiff)}`);
+        exifObj['0th'][piexif.ImageIFD.Orientation] = 1;
+        const exifbytes = piexif.dump({ '0th': exifObj['0th'], Exif: exifObj.Exif, GPS: exifObj.GPS });
+        return await (await fetch(piexif.insert(exifbytes, await blobToDataURL(jpeg)))).blob();
+    } catch (error) {
+        console.warn('[Image Processor] Could not carry HEIC EXIF over:', error);
+        return jpeg;
+    }
+};
 
-        // Tags in Windows are usually semicolon separated
-        const allTags = [...new Set([...metadata.tags, businessName])];
-        const tagsString = allTags.join('; ');
+const pickPreservedExif = (source: SourceExif, preservation: ExifPreservation): PreservedExif => {
+    const picked: PreservedExif = { '0th': {}, Exif: {} };
+    const groups = getPreservableTags();
+    (Object.keys(groups) as (keyof ExifPreservation)[])
+        .filter(group => preservation[group])
+        .forEach(group => groups[group].forEach(({ ifd, tag }) => {
+            if (tag !== undefined && source[ifd][tag] !== undefined) picked[ifd][tag] = source[ifd][tag];
+        }));
+    return picked;
+};
 
-        // --- Standard EXIF Tags (0th IFD) ---
-        // Artist maps to "Authors" in many viewers
-        zeroth[piexif.ImageIFD.Artist] = businessName;
-        // Copyright (0x8298)
-        zeroth[piexif.ImageIFD.Copyright] = `Copyright ${new Date().getFullYear()} ${businessName}. All Rights Reserved.`;
+const buildExifBytes = (metadata: Metadata, businessName: string, location: GeoLocation, preserved?: PreservedExif): string => {
+    // Original camera fields go in first; everything below overwrites only the fields we own
+    const zeroth: any = { ...preserved?.['0th'] };
+    const exif: any = { ...preserved?.Exif };
+    const gps: any = {};
 
-        // IMPORTANT: Windows Title often reads from ImageDescription if XPTitle isn't present
-        // or uses it as a fallback. We sync them both to metadata.name for consistency.
-        zeroth[piexif.ImageIFD.ImageDescription] = metadata.name;
+    // Tags in Windows are usually semicolon separated
+    const allTags = [...new Set([...metadata.tags, businessName])];
+    const tagsString = allTags.join('; ');
 
-        zeroth[piexif.ImageIFD.Software] = "Asset Master SEO Tagger";
-        zeroth[piexif.ImageIFD.DateTime] = new Date().toISOString().replace(/T/, ' ').replace(/\..+/, '').replace(/-/g, ':');
+    // --- Standard EXIF Tags (0th IFD) ---
+    // Artist maps to "Authors" in many viewers
+    zeroth[piexif.ImageIFD.Artist] = toExifAscii(businessName);
+    // Copyright (0x8298)
+    zeroth[piexif.ImageIFD.Copyright] = toExifAscii(getCopyrightNotice(businessName));
 
-        // --- Windows Specific XP Tags (Hex IDs for robustness) ---
-        // 0x9C9B (40091): XPTitle -> Maps to "Title"
-        zeroth[40091] = toXPString(metadata.name);
+    // IMPORTANT: Windows Title often reads from ImageDescription if XPTitle isn't present
+    // or uses it as a fallback. We sync them both to metadata.name for consistency.
+    zeroth[piexif.ImageIFD.ImageDescription] = toExifAscii(metadata.name);
 
-        // 0x9C9C (40092): XPComment -> Maps to "Comments"
-        zeroth[40092] = toXPString(metadata.description);
+    zeroth[piexif.ImageIFD.Software] = "Asset Master SEO Tagger";
+    // Pixels are re-encoded upright, so the original rotation must not be applied twice
+    zeroth[piexif.ImageIFD.Orientation] = 1;
+    zeroth[piexif.ImageIFD.DateTime] = new Date().toISOString().replace(/T/, ' ').replace(/\..+/, '').replace(/-/g, ':');
 
-        // 0x9C9D (40093): XPAuthor -> Maps to "Authors"
-        zeroth[40093] = toXPString(businessName);
+    // --- Windows Specific XP Tags (Hex IDs for robustness) ---
+    // 0x9C9B (40091): XPTitle -> Maps to "Title"
+    zeroth[40091] = toXPString(metadata.name);
 
-        // 0x9C9E (40094): XPKeywords -> Maps to "Tags"
-        zeroth[40094] = toXPString(tagsString);
+    // 0x9C9C (40092): XPComment -> Maps to "Comments"
+    zeroth[40092] = toXPString(metadata.description);
 
-        // 0x9C9F (40095): XPSubject -> Maps to "Subject"
-        zeroth[40095] = toXPString(metadata.caption);
+    // 0x9C9D (40093): XPAuthor -> Maps to "Authors"
+    zeroth[40093] = toXPString(businessName);
 
-        // --- Exif IFD ---
-        // UserComment (0x9286)
-        exif[piexif.ExifIFD.UserComment] = metadata.description;
+    // 0x9C9E (40094): XPKeywords -> Maps to "Tags"
+    zeroth[40094] = toXPString(tagsString);
 
-        // --- GPS Data ---
-        gps[piexif.GPSIFD.GPSLatitudeRef] = location.lat < 0 ? 'S' : 'N';
-        gps[piexif.GPSIFD.GPSLatitude] = toDMS(location.lat);
-        gps[piexif.GPSIFD.GPSLongitudeRef] = location.lng < 0 ? 'W' : 'E';
-        gps[piexif.GPSIFD.GPSLongitude] = toDMS(location.lng);
-        gps[piexif.GPSIFD.GPSDateStamp] = new Date().toISOString().split('T')[0].replace(/-/g, ':');
+    // 0x9C9F (40095): XPSubject -> Maps to "Subject"
+    zeroth[40095] = toXPString(metadata.caption);
 
-        const exifObj = { "0th": zeroth, "Exif": exif, "GPS": gps };
-        const exifbytes = piexif.dump(exifObj);
+    // --- Exif IFD ---
+    // UserComment (0x9286)
+    exif[piexif.ExifIFD.UserComment] = toUserComment(metadata.description);
 
-        // Remove existing EXIF before inserting new ones to avoid data corruption or conflicts
-        const cleanJpegDataUrl = piexif.remove(jpegDataUrl);
-        const newImageDataUrl = piexif.insert(exifbytes, cleanJpegDataUrl);
+    // --- GPS Data ---
+    gps[piexif.GPSIFD.GPSLatitudeRef] = location.lat < 0 ? 'S' : 'N';
+    gps[piexif.GPSIFD.GPSLatitude] = toDMS(location.lat);
+    gps[piexif.GPSIFD.GPSLongitudeRef] = location.lng < 0 ? 'W' : 'E';
+    gps[piexif.GPSIFD.GPSLongitude] = toDMS(location.lng);
+    gps[piexif.GPSIFD.GPSDateStamp] = new Date().toISOString().split('T')[0].replace(/-/g, ':');
 
-        const res = await fetch(newImageDataUrl);
-        return res.blob();
+    const exifObj = { "0th": zeroth, "Exif": exif, "GPS": gps };
+    return piexif.dump(exifObj);
+};
+
+// EXIF as piexif's binary string ("Exif\0\0" + TIFF), or null when piexif isn't loaded
+const getExifBytes = (metadata: Metadata, businessName: string, location: GeoLocation, options: EmbedOptions): string | null => {
+    if (typeof piexif === 'undefined') {
+        console.error("piexif.js is not loaded. Cannot embed EXIF metadata.");
+        return null;
+    }
+    const preserved = options.sourceExif && options.preserveExif
+        ? pickPreservedExif(options.sourceExif, options.preserveExif)
+        : undefined;
+    return buildExifBytes(metadata, businessName, location, preserved);
+};
 
+export interface EmbedResult {
+    blob: Blob;
+    failed: (keyof MetadataStandards)[];    // Enabled standards that couldn't be written; the blob goes out without them
+}
+
+const writeJpegMetadata = async (jpegDataUrl: string, metadata: Metadata, businessName: string, location: GeoLocation, options: EmbedOptions): Promise<EmbedResult> => {
+    const standards = options.standards || DEFAULT_METADATA_STANDARDS;
+    const failed: (keyof MetadataStandards)[] = [];
+    let taggedDataUrl = jpegDataUrl;
+
+    // A failed EXIF block doesn't take XMP and IPTC down with it
+    try {
+        const exifbytes = standards.exif ? getExifBytes(metadata, businessName, location, options) : null;
+        if (exifbytes) {
+            // Remove existing EXIF before inserting new ones to avoid data corruption or conflicts
+            const cleanJpegDataUrl = piexif.remove(jpegDataUrl);
+            taggedDataUrl = piexif.insert(exifbytes, cleanJpegDataUrl);
+        } else if (standards.exif) {
+            failed.push('exif');
+        }
+    } catch (error) {
+        console.error("Error embedding EXIF metadata:", error);
+        failed.push('exif');
+    }
+
+    const res = await fetch(taggedDataUrl);
+    if (!standards.xmp && !standards.iptc) {
+        return { blob: await res.blob(), failed };
+    }
+
+    // XMP and IPTC live in their own APP segments next to EXIF. Each is capped at 64 KB, which many
+    // languages and long tag lists can exceed; one that doesn't fit is left out on its own.
+    const fields = { metadata, businessName, location, companyInfo: options.companyInfo };
+    const segments: Uint8Array[] = [];
+    const builders: [keyof MetadataStandards, () => Uint8Array][] = [['xmp', () => buildXmpSegment(fields)], ['iptc', () => buildIptcSegment(fields)]];
+    builders.filter(([standard]) => standards[standard]).forEach(([standard, build]) => {
+        try {
+            segments.push(build());
+        } catch (error) {
+            console.error(`Error embedding ${standard.toUpperCase()} metadata:`, error);
+            failed.push(standard);
+        }
+    });
+
+    const jpegBytes = new Uint8Array(await res.arrayBuffer());
+    return { blob: new Blob([insertJpegSegments(jpegBytes, segments)], { type: 'image/jpeg' }), failed };
+};
+
+const enabledStandards = (standards: MetadataStandards): (keyof MetadataStandards)[] =>
+    (Object.keys(standards) as (keyof MetadataStandards)[]).filter(standard => standards[standard]);
+
+export const embedMetadata = async (imageBlob: Blob, metadata: Metadata, businessName: string, location: GeoLocation, options: EmbedOptions = {}): Promise<EmbedResult> => {
+    try {
+        const jpegDataUrl = await convertBlobToJpegDataURL(imageBlob);
+        return await writeJpegMetadata(jpegDataUrl, metadata, businessName, location, options);
     } catch (error) {
         console.error("Error embedding metadata:", error);
-        // Fallback to a plain JPEG conversion if Exif embedding fails
+        // Fallback to a plain JPEG conversion if embedding fails
         const originalDataUrl = await convertBlobToJpegDataURL(imageBlob);
         const res = await fetch(originalDataUrl);
-        return res.blob();
+        return { blob: await res.blob(), failed: enabledStandards(options.standards || DEFAULT_METADATA_STANDARDS) };
+    }
+};
+
+// What embedRenditionMetadata can write into each format
+export const getRenditionStandards = (format: RenditionFormat, standards: MetadataStandards): MetadataStandards =>
+    format === 'jpeg' ? standards
+        : format === 'avif' ? { exif: false, xmp: false, iptc: false }
+        : { ...standards, iptc: false };
+
+/**
+ * Embeds metadata into an already encoded rendition without re-encoding it. JPEG gets
+ * EXIF/XMP/IPTC, WebP and PNG get EXIF and XMP chunks; AVIF has no writer and is returned as-is.
+ */
+export const embedRenditionMetadata = async (
+    blob: Blob,
+    format: RenditionFormat,
+    size: { width: number, height: number },
+    metadata: Metadata,
+    businessName: string,
+    location: GeoLocation,
+    options: EmbedOptions = {}
+): Promise<Blob> => {
+    if (format === 'avif') return blob;
+    const standards = options.standards || DEFAULT_METADATA_STANDARDS;
+
+    try {
+        if (format === 'jpeg') {
+            return (await writeJpegMetadata(await blobToDataURL(blob), metadata, businessName, location, options)).blob;
+        }
+
+        // Chunk-based containers take the bare TIFF structure, without JPEG's "Exif\0\0" header
+        let exif: Uint8Array | undefined;
+        try {
+            const exifString = standards.exif ? getExifBytes(metadata, businessName, location, options) : null;
+            exif = exifString ? Uint8Array.from(exifString.slice(6), c => c.charCodeAt(0)) : undefined;
+        } catch (error) {
+            console.error(`Error building ${format} EXIF metadata:`, error);
+        }
+        const xmp = standards.xmp ? buildXmpPacket({ metadata, businessName, location, companyInfo: options.companyInfo }) : undefined;
+        const bytes = new Uint8Array(await blob.arrayBuffer());
+
+        const tagged = format === 'png' ? insertPngMetadata(bytes, { exif, xmp }) : insertWebpMetadata(bytes, size, { exif, xmp });
+        return new Blob([tagged], { type: blob.type });
+    } catch (error) {
+        console.error(`Error embedding ${format} metadata:`, error);
+        return blob;
     }
 };
 
@@ -0,0 +1,93 @@
+/**
+ * Structural similarity (SSIM) between a photo and its enhanced version, to flag enhancements that
+ * changed what is in the picture (a redrawn logo, different signage) rather than how it looks.
+ */
+
+const COMPARE_SIZE = 96;            // Both images are scaled to this square, so fine texture the AI re-renders doesn't count
+const WINDOW = 8;                   // SSIM window, moved by half its size
+const GRID = 4;                     // Regions per side for the worst-region score
+
+// Below these the card warns. Colour and exposure corrections stay well above 0.8; a replaced
+// object pulls its region down even when the image as a whole still scores high.
+export const SIMILARITY_WARNING = 0.7;
+export const REGION_SIMILARITY_WARNING = 0.5;
+
+export interface SimilarityScore {
+    similarity: number;             // Mean SSIM over the whole image, 0-1
+    worstRegion: number;            // Lowest mean SSIM of any cell in a GRID×GRID split
+}
+
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+/**
+ * SSIM of two grayscale images of the same square size, overall and for the least similar region.
+ */
+export const structuralSimilarity = (a: Float32Array, b: Float32Array, size: number): SimilarityScore => {
+    const step = WINDOW / 2;
+    const cellSize = size / GRID;
+    const regions = Array.from({ length: GRID * GRID }, () => ({ sum: 0, count: 0 }));
+    let total = 0;
+    let windows = 0;
+
+    for (let y = 0; y + WINDOW <= size; y += step) {
+        for (let x = 0; x + WINDOW <= size; x += step) {
+            let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+            for (let wy = y; wy < y + WINDOW; wy++) {
+                for (let wx = x; wx < x + WINDOW; wx++) {
+                    const va = a[wy * size + wx];
+                    const vb = b[wy * size + wx];
+                    sumA += va; sumB += vb;
+                    sumAA += va * va; sumBB += vb * vb; sumAB += va * vb;
+                }
+            }
+            const n = WINDOW * WINDOW;
+            const meanA = sumA / n, meanB = sumB / n;
+            const varA = sumAA / n - meanA * meanA;
+            const varB = sumBB / n - meanB * meanB;
+            const covariance = sumAB / n - meanA * meanB;
+            const ssim = ((2 * meanA * meanB + C1) * (2 * covariance + C2)) / ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2));
+
+            // Each window counts towards the region its centre falls in
+            const cx = Math.min(GRID - 1, Math.floor((x + WINDOW / 2) / cellSize));
+            const cy = Math.min(GRID - 1, Math.floor((y + WINDOW / 2) / cellSize));
+            regions[cy * GRID + cx].sum += ssim;
+            regions[cy * GRID + cx].count++;
+            total += ssim;
+            windows++;
+        }
+    }
+
+    const regionScores = regions.filter(r => r.count > 0).map(r => r.sum / r.count);
+    const clamp = (value: number) => Math.max(0, Math.min(1, value));
+    return { similarity: clamp(total / windows), worstRegion: clamp(Math.min(...regionScores)) };
+};
+
+const toGrayscale = async (blob: Blob): Promise<Float32Array> => {
+    const bitmap = await createImageBitmap(blob);
+    const canvas = document.createElement('canvas');
+    canvas.width = COMPARE_SIZE;
+    canvas.height = COMPARE_SIZE;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not get canvas context');
+    ctx.imageSmoothingQuality = 'high';
+    // Stretched to the square: an enhancement that changed the aspect ratio scores lower, as it should
+    ctx.drawImage(bitmap, 0, 0, COMPARE_SIZE, COMPARE_SIZE);
+    bitmap.close();
+
+    const { data } = ctx.getImageData(0, 0, COMPARE_SIZE, COMPARE_SIZE);
+    const gray = new Float32Array(COMPARE_SIZE * COMPARE_SIZE);
+    for (let i = 0; i < gray.length; i++) {
+        gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    }
+    return gray;
+};
+
+export const compareImages = async (original: Blob, enhanced: Blob): Promise<SimilarityScore> => {
+    const [a, b] = await Promise.all([toGrayscale(original), toGrayscale(enhanced)]);
+    return structuralSimilarity(a, b, COMPARE_SIZE);
+};
+
+export const isDivergent = (score: { similarity: number | null, worstRegion: number | null }): boolean =>
+    (score.similarity !== null && score.similarity < SIMILARITY_WARNING) ||
+    (score.worstRegion !== null && score.worstRegion < REGION_SIMILARITY_WARNING);
@@ -0,0 +1,57 @@
+import { ApiError } from './visionProvider';
+
+export const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface RateLimiter {
+  acquire: () => Promise<void>;
+  setRequestsPerMinute: (requestsPerMinute: number) => void;
+}
+
+/**
+ * Sliding-window limiter: at most `requestsPerMinute` acquisitions in any 60 second window.
+ * Callers queue up in order; a value of 0 disables limiting.
+ */
+export const createRateLimiter = (initialRequestsPerMinute: number): RateLimiter => {
+  const WINDOW_MS = 60_000;
+  let requestsPerMinute = initialRequestsPerMinute;
+  let timestamps: number[] = [];
+  let chain: Promise<void> = Promise.resolve();
+
+  const waitForSlot = async () => {
+    while (requestsPerMinute > 0) {
+      const now = Date.now();
+      timestamps = timestamps.filter(t => now - t < WINDOW_MS);
+      if (timestamps.length < requestsPerMinute) break;
+      await sleep(WINDOW_MS - (now - timestamps[0]) + 10);
+    }
+    timestamps.push(Date.now());
+  };
+
+  return {
+    acquire: () => {
+      const next = chain.then(waitForSlot);
+      chain = next.catch(() => undefined);
+      return next;
+    },
+    setRequestsPerMinute: (value: number) => {
+      requestsPerMinute = Math.max(0, Math.floor(value));
+    },
+  };
+};
+
+/**
+ * Rate limits (429) and server-side failures (5xx) are worth retrying; anything else
+ * (bad key, safety block, malformed response) will fail the same way again.
+ */
+export const isRetryableError = (error: unknown): boolean =>
+  error instanceof ApiError && error.status !== undefined && (error.status === 429 || error.status >= 500);
+
+/**
+ * Exponential backoff with full jitter, never shorter than a server-provided Retry-After.
+ */
+export const getBackoffDelay = (attempt: number, error?: unknown, baseMs = 2_000, maxMs = 60_000): number => {
+  const exponential = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+  const retryAfter = error instanceof ApiError && error.retryAfterMs ? error.retryAfterMs : 0;
+  return Math.round(Math.max(jittered, retryAfter));
+};
@@ -0,0 +1,60 @@
+import type { Metadata, LocalizedField, LocalizedMetadata } from '../types';
+
+/**
+ * Per-project output languages. The first language is primary: it fills the top-level Metadata
+ * fields and everything that holds a single value (EXIF/XP, IPTC, filenames). The others are
+ * kept in `Metadata.translations` and written as XMP `xml:lang` alternatives.
+ */
+
+export const DEFAULT_LANGUAGES = ['en'];
+
+/**
+ * English display name for a BCP 47 code, e.g. "es" → "Spanish", "pt-BR" → "Brazilian Portuguese".
+ */
+export const getLanguageName = (code: string): string => {
+    try {
+        return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) || code;
+    } catch {
+        return code;
+    }
+};
+
+/**
+ * Parses "en, es-MX" into canonical codes. Throws on the first code that isn't valid BCP 47.
+ */
+export const parseLanguageList = (input: string): string[] => {
+    const codes = input.split(/[\s,;]+/).map(code => code.trim()).filter(Boolean);
+    const canonical = codes.map(code => {
+        try {
+            return Intl.getCanonicalLocales(code)[0];
+        } catch {
+            throw new Error(`"${code}" is not a valid language code. Use codes like en, es or pt-BR.`);
+        }
+    });
+    return [...new Set(canonical)];
+};
+
+export const getPrimaryLanguage = (metadata: Metadata): string => metadata.language || DEFAULT_LANGUAGES[0];
+
+export const getMetadataLanguages = (metadata: Metadata): string[] =>
+    [getPrimaryLanguage(metadata), ...Object.keys(metadata.translations || {})];
+
+export const getLocalizedMetadata = (metadata: Metadata, language: string): LocalizedMetadata =>
+    language === getPrimaryLanguage(metadata) || !metadata.translations?.[language]
+        ? { name: metadata.name, description: metadata.description, altText: metadata.altText, caption: metadata.caption }
+        : metadata.translations[language];
+
+export const setLocalizedField = (metadata: Metadata, language: string, field: LocalizedField, value: string): Metadata => {
+    if (language === getPrimaryLanguage(metadata) || !metadata.translations?.[language]) {
+        return { ...metadata, [field]: value };
+    }
+    return { ...metadata, translations: { ...metadata.translations, [language]: { ...metadata.translations[language], [field]: value } } };
+};
+
+/**
+ * Every language's value for one field, primary first, for XMP language alternatives.
+ */
+export const getFieldAlternatives = (metadata: Metadata, field: LocalizedField): { language: string, value: string }[] =>
+    getMetadataLanguages(metadata)
+        .map(language => ({ language, value: getLocalizedMetadata(metadata, language)[field] }))
+        .filter(alternative => alternative.value);
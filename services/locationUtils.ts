@@ -0,0 +1,113 @@
+import type { GeoLocation, LocationStrategy, LocationSampling, ServiceArea } from '../types';
+import { randomPointInRadius, randomPointInServiceArea } from './serviceAreas';
+
+// Photo GPS further than this from every known suburb keeps its coordinates but gets no place name
+export const REVERSE_MATCH_RADIUS_KM = 25;
+
+// Candidates tried per image before settling for the best-spaced one
+const SPACING_ATTEMPTS = 30;
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (deg: number): number => deg * Math.PI / 180;
+
+/**
+ * Great-circle (haversine) distance between two points in kilometres.
+ */
+export const distanceKm = (a: { lat: number, lng: number }, b: { lat: number, lng: number }): number => {
+    const dLat = toRadians(b.lat - a.lat);
+    const dLng = toRadians(b.lng - a.lng);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+export const findNearestLocation = (point: { lat: number, lng: number }, candidates: GeoLocation[]): { location: GeoLocation, distanceKm: number } | null => {
+    let nearest: { location: GeoLocation, distanceKm: number } | null = null;
+    for (const location of candidates) {
+        const distance = distanceKm(point, location);
+        if (!nearest || distance < nearest.distanceKm) {
+            nearest = { location, distanceKm: distance };
+        }
+    }
+    return nearest;
+};
+
+/**
+ * Names raw coordinates after the closest known place, if there is one nearby.
+ */
+export const reverseMatchLocation = (point: { lat: number, lng: number }, gazetteer: GeoLocation[], fallbackName = 'Photo GPS'): GeoLocation => {
+    const nearest = findNearestLocation(point, gazetteer);
+    if (!nearest || nearest.distanceKm > REVERSE_MATCH_RADIUS_KM) {
+        return { lat: point.lat, lng: point.lng, name: fallbackName };
+    }
+    return { lat: point.lat, lng: point.lng, name: nearest.location.name, address: nearest.location.address };
+};
+
+/**
+ * Draws up to SPACING_ATTEMPTS points and returns the first at least `minSpacingKm` from every
+ * taken point, or failing that the one with the most room around it.
+ */
+const sampleSpacedPoint = <T extends { lat: number, lng: number }>(sample: () => T, taken: { lat: number, lng: number }[], minSpacingKm: number): T => {
+    let best = sample();
+    if (minSpacingKm <= 0 || taken.length === 0) return best;
+
+    let bestClearance = Math.min(...taken.map(point => distanceKm(point, best)));
+    for (let attempt = 1; attempt < SPACING_ATTEMPTS && bestClearance < minSpacingKm; attempt++) {
+        const candidate = sample();
+        const clearance = Math.min(...taken.map(point => distanceKm(point, candidate)));
+        if (clearance > bestClearance) {
+            best = candidate;
+            bestClearance = clearance;
+        }
+    }
+    return best;
+};
+
+export interface LocationSources {
+    fixed: GeoLocation;           // The currently selected location
+    presets: GeoLocation[];       // The project's location presets
+    gazetteer: GeoLocation[];     // Known places used to name photo GPS
+    serviceArea?: ServiceArea | null;
+    sampling?: LocationSampling;
+    taken?: { lat: number, lng: number }[]; // Points already assigned in this batch
+}
+
+/**
+ * Picks the location embedded into an upload. Strategies that need the photo's own GPS
+ * fall back to the fixed location when the photo has none.
+ */
+export const resolveUploadLocation = (
+    strategy: LocationStrategy,
+    photoGps: { lat: number, lng: number } | null | undefined,
+    { fixed, presets, gazetteer, serviceArea, sampling, taken = [] }: LocationSources
+): GeoLocation => {
+    const minSpacingKm = (sampling?.minSpacingMeters || 0) / 1000;
+
+    switch (strategy) {
+        case 'original':
+            if (photoGps) return reverseMatchLocation(photoGps, gazetteer);
+            break;
+        case 'nearestPreset': {
+            const nearest = photoGps ? findNearestLocation(photoGps, presets) : null;
+            if (nearest) return { ...nearest.location };
+            break;
+        }
+        case 'random':
+            if (presets.length > 0) {
+                // Jitter keeps the preset's name but stops images sharing identical coordinates
+                const jitterKm = (sampling?.jitterMeters || 0) / 1000;
+                return sampleSpacedPoint(() => {
+                    const preset = presets[Math.floor(Math.random() * presets.length)];
+                    return jitterKm > 0 ? { ...preset, ...randomPointInRadius(preset, jitterKm) } : { ...preset };
+                }, taken, minSpacingKm);
+            }
+            break;
+        case 'serviceArea':
+            if (serviceArea) {
+                const point = sampleSpacedPoint(() => randomPointInServiceArea(serviceArea), taken, minSpacingKm);
+                return reverseMatchLocation(point, gazetteer, serviceArea.name);
+            }
+            break;
+    }
+    return { ...fixed };
+};
@@ -0,0 +1,125 @@
+import type { ImportableField, ImportedMetadata, MetadataImport } from '../types';
+import { parseCsv, normalizeSearchText } from './textUtils';
+
+/**
+ * Bulk metadata import: a spreadsheet (CSV) or JSON array with one row per original filename.
+ * Columns are mapped to Metadata fields by the user, with a best guess from common header names.
+ */
+
+export type ImportColumn = 'fileName' | ImportableField;
+
+// Header name for each field, or null when the sheet has no such column
+export type ColumnMapping = Record<ImportColumn, string | null>;
+
+export interface ImportTable {
+    headers: string[];
+    records: Record<string, string>[];
+}
+
+export const IMPORT_COLUMNS: { id: ImportColumn, label: string, aliases: string[] }[] = [
+    { id: 'fileName', label: 'Filename', aliases: ['filename', 'file', 'file_name', 'image', 'original_filename', 'original_file', 'source_file', 'original', 'path'] },
+    { id: 'name', label: 'Title', aliases: ['title', 'name', 'seo_title', 'new_filename', 'object_name'] },
+    { id: 'description', label: 'Description', aliases: ['description', 'desc', 'seo_description', 'meta_description', 'caption_abstract'] },
+    { id: 'altText', label: 'Alt Text', aliases: ['alt', 'alt_text', 'alttext', 'alt_tag', 'alternative_text'] },
+    { id: 'caption', label: 'Caption', aliases: ['caption', 'social_caption', 'headline'] },
+    { id: 'tags', label: 'Tags', aliases: ['tags', 'keywords', 'keyword', 'subject'] },
+    { id: 'website', label: 'Website', aliases: ['website', 'url', 'web', 'link'] },
+];
+
+// A row needs all of these to skip the AI call (website is optional)
+const REQUIRED_FIELDS: ImportableField[] = ['name', 'description', 'altText', 'caption', 'tags'];
+
+const normalizeHeader = (header: string): string => normalizeSearchText(header).replace(/[\s-]+/g, '_');
+
+/**
+ * Rows are matched on the bare filename: no folders, no extension (HEIC uploads become .jpeg), any case.
+ */
+export const importKey = (fileName: string): string =>
+    normalizeSearchText(fileName.split(/[\\/]/).pop() || '').replace(/\.[^.]+$/, '');
+
+const cellToString = (value: unknown): string =>
+    value === null || value === undefined ? ''
+        : Array.isArray(value) ? value.map(cellToString).join('; ')
+        : typeof value === 'object' ? JSON.stringify(value)
+        : String(value);
+
+/**
+ * Reads a CSV with a header row, or JSON as an array of objects (also `{ images: [...] }`).
+ */
+export const parseImportTable = (text: string, fileName: string): ImportTable => {
+    const isJson = /\.json$/i.test(fileName) || /^[[{]/.test(text.trimStart());
+
+    if (isJson) {
+        let json: any;
+        try {
+            json = JSON.parse(text);
+        } catch {
+            throw new Error('File is not valid JSON.');
+        }
+        const items: unknown[] = Array.isArray(json) ? json : Array.isArray(json?.images) ? json.images : Array.isArray(json?.rows) ? json.rows : [];
+        const objects = items.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object' && !Array.isArray(item));
+        if (objects.length === 0) throw new Error('JSON must be an array of objects, one per image.');
+
+        const headers = [...new Set(objects.flatMap(Object.keys))];
+        const records = objects.map(item => Object.fromEntries(headers.map(h => [h, cellToString(item[h])])));
+        return { headers, records };
+    }
+
+    const [header, ...rows] = parseCsv(text);
+    if (!header) throw new Error('CSV file is empty.');
+    const headers = header.map(h => h.trim());
+    const records = rows.map(row => Object.fromEntries(headers.map((h, i) => [h, row[i] ?? ''])));
+    return { headers, records };
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+    const normalized = headers.map(normalizeHeader);
+    const used = new Set<number>();
+    const mapping = {} as ColumnMapping;
+    IMPORT_COLUMNS.forEach(column => {
+        const index = normalized.findIndex((h, i) => !used.has(i) && column.aliases.includes(h));
+        if (index !== -1) used.add(index);
+        mapping[column.id] = index === -1 ? null : headers[index];
+    });
+    return mapping;
+};
+
+const parseTags = (value: string): string[] =>
+    [...new Set(value.split(/[;,|\n]/).map(tag => tag.trim()).filter(Boolean))];
+
+/**
+ * Builds the per-filename rows. Blank cells are left out so the AI (or the defaults) fill them.
+ */
+export const buildMetadataImport = (table: ImportTable, mapping: ColumnMapping, sourceName: string, skipAiWhenComplete: boolean): MetadataImport => {
+    if (!mapping.fileName) throw new Error('Choose the column that holds the original filenames.');
+    const fieldColumns = IMPORT_COLUMNS.filter(c => c.id !== 'fileName' && mapping[c.id]);
+    if (fieldColumns.length === 0) throw new Error('Map at least one metadata column.');
+
+    const rows: Record<string, ImportedMetadata> = {};
+    table.records.forEach(record => {
+        const key = importKey(record[mapping.fileName!] || '');
+        if (!key) return;
+        const row: ImportedMetadata = {};
+        fieldColumns.forEach(column => {
+            const value = (record[mapping[column.id]!] || '').trim();
+            if (!value) return;
+            if (column.id === 'tags') {
+                row.tags = parseTags(value);
+            } else {
+                row[column.id as Exclude<ImportableField, 'tags'>] = value;
+            }
+        });
+        if (Object.keys(row).length > 0) rows[key] = row;
+    });
+
+    if (Object.keys(rows).length === 0) {
+        throw new Error('No rows had both a filename and at least one metadata value.');
+    }
+    return { sourceName, rows, skipAiWhenComplete };
+};
+
+export const findImportedMetadata = (metadataImport: MetadataImport | null, fileName: string): ImportedMetadata | null =>
+    metadataImport?.rows[importKey(fileName)] || null;
+
+export const isCompleteImport = (row: ImportedMetadata): boolean =>
+    REQUIRED_FIELDS.every(field => field === 'tags' ? (row.tags?.length || 0) > 0 : !!row[field]);
@@ -0,0 +1,164 @@
+import type { Metadata } from '../types';
+import { slugify, normalizeSearchText } from './textUtils';
+import { getLanguageName } from './locales';
+
+/**
+ * Rule-based checks on generated (or imported, or hand-edited) metadata: length limits, phrases
+ * that waste alt text, leftover camera filenames, keyword stuffing, required tags, and filenames
+ * that collide within the batch.
+ */
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintIssue {
+    rule: string;
+    field: string;                  // Metadata field, with the language for translations, e.g. "altText (es)"
+    severity: LintSeverity;
+    message: string;
+}
+
+export interface LintContext {
+    businessName: string;
+    requiredTags: string[];
+}
+
+export const LINT_LIMITS = {
+    filenameWarn: 60,               // Longer slugs get truncated in search results and CMS media lists
+    filenameMax: 100,
+    altTextMin: 15,
+    altTextMax: 125,                // Screen readers commonly cut alt text off around here
+    descriptionMin: 50,
+    descriptionMax: 300,
+    captionMax: 2200,               // Instagram's caption limit
+    tagsMin: 5,
+    tagsMax: 15,
+    keywordRepeatMax: 2,            // The same tag more often than this in one field reads as stuffing
+};
+
+// Screen readers already announce "image", so these only add noise
+const REDUNDANT_ALT_PREFIXES = ['image of', 'picture of', 'photo of', 'photograph of', 'graphic of', 'an image of', 'a picture of', 'a photo of', 'image:', 'photo:', 'picture:'];
+
+const CAMERA_FILENAME = /^(img|dsc|dscn|dscf|pxl|mvimg|photo|image|screenshot|whatsapp-image)[-_]?\d/i;
+const FILE_NAME_IN_TEXT = /\b[\w-]+\.(jpe?g|png|heic|heif|webp|gif|tiff?|avif)\b|\b(img|dsc|dscn|pxl)_\d{3,}/i;
+
+const countOccurrences = (text: string, phrase: string): number => {
+    const escaped = normalizeSearchText(phrase).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // Whole words in any script: \W would treat every non-ASCII letter as a word boundary
+    return (normalizeSearchText(text).match(new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'gu')) || []).length;
+};
+
+const lintText = (fields: Pick<Metadata, 'altText' | 'description' | 'caption'>, suffix: string): LintIssue[] => {
+    const issues: LintIssue[] = [];
+    const add = (rule: string, field: string, severity: LintSeverity, message: string) => issues.push({ rule, field: `${field}${suffix}`, severity, message });
+    const altText = fields.altText.trim();
+    const description = fields.description.trim();
+    const caption = fields.caption.trim();
+
+    if (!altText) {
+        add('alt-empty', 'altText', 'error', 'Alt text is empty.');
+    } else {
+        if (altText.length < LINT_LIMITS.altTextMin) add('alt-short', 'altText', 'warning', `Alt text is only ${altText.length} characters; describe what is in the photo.`);
+        if (altText.length > LINT_LIMITS.altTextMax) add('alt-long', 'altText', 'warning', `Alt text is ${altText.length} characters; keep it under ${LINT_LIMITS.altTextMax}.`);
+        const prefix = REDUNDANT_ALT_PREFIXES.find(p => normalizeSearchText(altText).startsWith(p));
+        if (prefix) add('alt-redundant-prefix', 'altText', 'warning', `Alt text starts with "${altText.slice(0, prefix.length)}"; screen readers already announce an image.`);
+    }
+
+    if (!description) {
+        add('description-empty', 'description', 'error', 'Description is empty.');
+    } else {
+        if (description.length < LINT_LIMITS.descriptionMin) add('description-short', 'description', 'warning', `Description is only ${description.length} characters.`);
+        if (description.length > LINT_LIMITS.descriptionMax) add('description-long', 'description', 'warning', `Description is ${description.length} characters; keep it under ${LINT_LIMITS.descriptionMax}.`);
+    }
+
+    if (!caption) add('caption-empty', 'caption', 'warning', 'Caption is empty.');
+    if (caption.length > LINT_LIMITS.captionMax) add('caption-long', 'caption', 'error', `Caption is ${caption.length} characters; Instagram allows ${LINT_LIMITS.captionMax}.`);
+
+    ([['altText', altText], ['description', description], ['caption', caption]] as const).forEach(([field, value]) => {
+        const match = value.match(FILE_NAME_IN_TEXT);
+        if (match) add('filename-in-text', field, 'error', `Contains the file name "${match[0]}" instead of a description.`);
+    });
+    return issues;
+};
+
+/**
+ * Checks one image's metadata on its own; see `lintBatch` for the checks across images.
+ */
+export const lintMetadata = (metadata: Metadata, context: LintContext): LintIssue[] => {
+    const issues: LintIssue[] = [];
+    const add = (rule: string, field: string, severity: LintSeverity, message: string) => issues.push({ rule, field, severity, message });
+
+    const slug = slugify(metadata.name);
+    if (!slug) {
+        add('filename-empty', 'name', 'error', 'SEO filename is empty.');
+    } else {
+        if (slug.length > LINT_LIMITS.filenameMax) add('filename-long', 'name', 'error', `Filename is ${slug.length} characters; keep it under ${LINT_LIMITS.filenameWarn}.`);
+        else if (slug.length > LINT_LIMITS.filenameWarn) add('filename-long', 'name', 'warning', `Filename is ${slug.length} characters; keep it under ${LINT_LIMITS.filenameWarn}.`);
+        if (CAMERA_FILENAME.test(slug)) add('filename-camera', 'name', 'warning', `"${slug}" looks like a camera filename, not a description.`);
+    }
+
+    issues.push(...lintText(metadata, ''));
+    Object.entries(metadata.translations || {}).forEach(([language, fields]) => {
+        issues.push(...lintText(fields, ` (${language})`));
+        if (!fields.name.trim()) add('filename-empty', `name (${language})`, 'error', `${getLanguageName(language)} title is empty.`);
+    });
+
+    const tags = metadata.tags.map(tag => tag.trim()).filter(Boolean);
+    if (tags.length === 0) {
+        add('tags-empty', 'tags', 'error', 'No tags.');
+    } else if (tags.length < LINT_LIMITS.tagsMin) {
+        add('tags-few', 'tags', 'warning', `Only ${tags.length} tag${tags.length === 1 ? '' : 's'}; aim for ${LINT_LIMITS.tagsMin}-${LINT_LIMITS.tagsMax}.`);
+    } else if (tags.length > LINT_LIMITS.tagsMax) {
+        add('tags-many', 'tags', 'warning', `${tags.length} tags; more than ${LINT_LIMITS.tagsMax} dilutes them.`);
+    }
+
+    const tagKeys = new Set(tags.map(tag => tag.toLowerCase()));
+    const missing = context.requiredTags.filter(tag => !tagKeys.has(tag.toLowerCase()));
+    if (missing.length > 0) add('tags-required', 'tags', 'error', `Missing required tags: ${missing.join(', ')}.`);
+
+    (['altText', 'description'] as const).forEach(field => {
+        const stuffed = tags
+            .filter(tag => tag.length >= 4)
+            .map(tag => ({ tag, count: countOccurrences(metadata[field], tag) }))
+            .filter(({ count }) => count > LINT_LIMITS.keywordRepeatMax);
+        stuffed.forEach(({ tag, count }) => add('keyword-stuffing', field, 'warning', `"${tag}" appears ${count} times; it reads as keyword stuffing.`));
+    });
+
+    const business = context.businessName.trim();
+    if (business) {
+        const inTags = tagKeys.has(business.toLowerCase());
+        const inText = countOccurrences(`${metadata.description} ${metadata.caption}`, business) > 0;
+        if (!inTags && !inText) add('business-missing', 'tags', 'warning', `"${business}" is not in the tags, description or caption.`);
+    }
+
+    return issues;
+};
+
+/**
+ * Lints every image and adds the checks across the batch: filenames that would overwrite each
+ * other in a download, and alt text copied between images.
+ */
+export const lintBatch = (images: { id: string, metadata: Metadata }[], context: LintContext): Record<string, LintIssue[]> => {
+    const results: Record<string, LintIssue[]> = Object.fromEntries(images.map(image => [image.id, lintMetadata(image.metadata, context)]));
+
+    const groupBy = (key: (metadata: Metadata) => string) => {
+        const groups = new Map<string, string[]>();
+        images.forEach(image => {
+            const value = key(image.metadata);
+            if (value) groups.set(value, [...(groups.get(value) || []), image.id]);
+        });
+        return [...groups.values()].filter(ids => ids.length > 1);
+    };
+
+    groupBy(metadata => slugify(metadata.name)).forEach(ids => ids.forEach(id => results[id].push({
+        rule: 'filename-duplicate', field: 'name', severity: 'error',
+        message: `Same filename as ${ids.length - 1} other image${ids.length > 2 ? 's' : ''}; downloads would overwrite each other.`,
+    })));
+    groupBy(metadata => normalizeSearchText(metadata.altText.trim())).forEach(ids => ids.forEach(id => results[id].push({
+        rule: 'alt-duplicate', field: 'altText', severity: 'warning',
+        message: `Same alt text as ${ids.length - 1} other image${ids.length > 2 ? 's' : ''}.`,
+    })));
+
+    return results;
+};
+
+export const hasLintErrors = (issues: LintIssue[] | undefined): boolean => !!issues?.some(issue => issue.severity === 'error');
@@ -0,0 +1,330 @@
+import type { Metadata, GeoLocation, MetadataStandards, EmbeddedMetadata, MetadataCheck, MetadataVerification } from '../types';
+import { XMP_NAMESPACE, PHOTOSHOP_NAMESPACE, startsWith } from './metadataWriters';
+import { fromDMS, blobToDataURL, toBinaryString } from './imageProcessor';
+
+// Let TypeScript know piexif is available on the window
+declare var piexif: any;
+
+const XP_TAGS: Record<number, string> = {
+    40091: 'XPTitle',
+    40092: 'XPComment',
+    40093: 'XPAuthor',
+    40094: 'XPKeywords',
+    40095: 'XPSubject',
+};
+
+const IPTC_DATASETS: Record<number, string> = {
+    5: 'ObjectName',
+    25: 'Keywords',
+    80: 'By-line',
+    90: 'City',
+    101: 'Country',
+    105: 'Headline',
+    110: 'Credit',
+    115: 'Source',
+    116: 'CopyrightNotice',
+    120: 'Caption-Abstract',
+};
+
+const decoder = new TextDecoder();
+
+const fromXPBytes = (bytes: number[]): string => {
+    let result = '';
+    for (let i = 0; i + 1 < bytes.length; i += 2) {
+        const charCode = bytes[i] | (bytes[i + 1] << 8);
+        if (charCode === 0) break;
+        result += String.fromCharCode(charCode);
+    }
+    return result;
+};
+
+// piexif hands ASCII tags over as binary strings; ours are UTF-8, older files may be Latin-1
+const fromExifAscii = (value: string): string => {
+    const bytes = Uint8Array.from(value, c => c.charCodeAt(0) & 0xFF);
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(bytes).replace(/\0+$/, '');
+    } catch {
+        return value.replace(/\0+$/, '');
+    }
+};
+
+// UserComment: 8-byte character code, then the text (UNICODE is big-endian, as piexif writes)
+const fromUserComment = (value: string): string => {
+    const code = value.slice(0, 8);
+    const text = value.slice(8);
+    if (code === 'UNICODE\0') {
+        let result = '';
+        for (let i = 0; i + 1 < text.length; i += 2) result += String.fromCharCode((text.charCodeAt(i) << 8) | text.charCodeAt(i + 1));
+        return result.replace(/\0+$/, '');
+    }
+    return code.startsWith('ASCII') || code === '\0'.repeat(8) ? fromExifAscii(text) : fromExifAscii(value);
+};
+
+/**
+ * Returns the payload (after the 4-byte marker/length header) of every APPn segment before the image data.
+ */
+const readAppSegments = (jpeg: Uint8Array): { marker: number, payload: Uint8Array }[] => {
+    const segments: { marker: number, payload: Uint8Array }[] = [];
+    if (jpeg[0] !== 0xFF || jpeg[1] !== 0xD8) return segments;
+
+    let offset = 2;
+    while (offset + 4 <= jpeg.length && jpeg[offset] === 0xFF && jpeg[offset + 1] !== 0xDA) {
+        const length = (jpeg[offset + 2] << 8) | jpeg[offset + 3];
+        segments.push({ marker: jpeg[offset + 1], payload: jpeg.subarray(offset + 4, offset + 2 + length) });
+        offset += 2 + length;
+    }
+    return segments;
+};
+
+// PNG and WebP chunks that carry metadata; neither format has IPTC-IIM
+interface MetadataChunks {
+    exif?: Uint8Array;              // Bare TIFF structure
+    xmp?: string;
+}
+
+/**
+ * eXIf and the XMP iTXt chunk ("XML:com.adobe.xmp", uncompressed) of a PNG.
+ */
+const readPngChunks = (png: Uint8Array): MetadataChunks => {
+    const chunks: MetadataChunks = {};
+    const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+    let offset = 8;
+    while (offset + 8 <= png.length && !startsWith(png, offset + 4, 'IEND')) {
+        const length = view.getUint32(offset);
+        const data = png.subarray(offset + 8, offset + 8 + length);
+        if (startsWith(png, offset + 4, 'eXIf')) {
+            chunks.exif = data;
+        } else if (startsWith(png, offset + 4, 'iTXt') && startsWith(data, 0, 'XML:com.adobe.xmp\0')) {
+            // Keyword, null, compression flag and method, then null-terminated language and translated keyword
+            const keywordEnd = 'XML:com.adobe.xmp'.length;
+            if (data[keywordEnd + 1] === 0) {
+                const languageEnd = data.indexOf(0, keywordEnd + 3);
+                const translatedEnd = data.indexOf(0, languageEnd + 1);
+                if (languageEnd !== -1 && translatedEnd !== -1) chunks.xmp = decoder.decode(data.subarray(translatedEnd + 1));
+            }
+        }
+        offset += 12 + length;
+    }
+    return chunks;
+};
+
+/**
+ * EXIF and XMP chunks of an extended (VP8X) WebP.
+ */
+const readWebpChunks = (webp: Uint8Array): MetadataChunks => {
+    const chunks: MetadataChunks = {};
+    const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+    let offset = 12;
+    while (offset + 8 <= webp.length) {
+        const length = view.getUint32(offset + 4, true);
+        const data = webp.subarray(offset + 8, offset + 8 + length);
+        // Some writers keep JPEG's "Exif\0\0" header in front of the TIFF structure
+        if (startsWith(webp, offset, 'EXIF')) chunks.exif = startsWith(data, 0, 'Exif\0\0') ? data.subarray(6) : data;
+        if (startsWith(webp, offset, 'XMP ')) chunks.xmp = decoder.decode(data);
+        offset += 8 + length + (length % 2);
+    }
+    return chunks;
+};
+
+/**
+ * Reads EXIF and GPS from anything piexif.load takes: a JPEG data URL or "Exif\0\0" + TIFF.
+ */
+const readExif = (source: string | null): Pick<EmbeddedMetadata, 'exif' | 'gps'> => {
+    const exif: Record<string, string> = {};
+    if (typeof piexif === 'undefined' || source === null) return { exif, gps: null };
+
+    let exifObj: any;
+    try {
+        exifObj = piexif.load(source);
+    } catch {
+        // Not a JPEG/TIFF or no EXIF block at all
+        return { exif, gps: null };
+    }
+
+    (['0th', 'Exif'] as const).forEach(ifd => {
+        Object.entries(exifObj[ifd] || {}).forEach(([tag, value]) => {
+            const tagId = Number(tag);
+            if (XP_TAGS[tagId]) {
+                exif[XP_TAGS[tagId]] = fromXPBytes(value as number[]);
+            } else if (typeof value === 'string' || typeof value === 'number') {
+                const name = piexif.TAGS?.[ifd === '0th' ? 'Image' : ifd]?.[tagId]?.name || `Tag ${tagId}`;
+                exif[name] = typeof value === 'number' ? String(value) : name === 'UserComment' ? fromUserComment(value) : fromExifAscii(value);
+            }
+        });
+    });
+
+    const gpsIfd = exifObj.GPS || {};
+    const latitude = gpsIfd[piexif.GPSIFD.GPSLatitude];
+    const longitude = gpsIfd[piexif.GPSIFD.GPSLongitude];
+    const gps = latitude && longitude
+        ? {
+            lat: fromDMS(latitude, gpsIfd[piexif.GPSIFD.GPSLatitudeRef]),
+            lng: fromDMS(longitude, gpsIfd[piexif.GPSIFD.GPSLongitudeRef]),
+        }
+        : null;
+
+    return { exif, gps };
+};
+
+const findJpegXmpPacket = (segments: { marker: number, payload: Uint8Array }[]): string | null => {
+    const segment = segments.find(s => s.marker === 0xE1 && startsWith(s.payload, 0, XMP_NAMESPACE));
+    return segment ? decoder.decode(segment.payload.subarray(XMP_NAMESPACE.length)) : null;
+};
+
+const readXmp = (packet: string | null): Record<string, string | string[]> => {
+    const xmp: Record<string, string | string[]> = {};
+    if (packet === null) return xmp;
+
+    const doc = new DOMParser().parseFromString(packet.replace(/<\?xpacket[^>]*\?>/g, ''), 'application/xml');
+
+    // Flattens rdf:Description children; containers (Alt/Bag/Seq) become string lists
+    const walk = (element: Element) => {
+        Array.from(element.attributes).forEach(attr => {
+            if (!attr.name.startsWith('xmlns') && !attr.name.startsWith('rdf:')) xmp[attr.name] = attr.value;
+        });
+        Array.from(element.children).forEach(child => {
+            const container = Array.from(child.children).find(c => ['rdf:Alt', 'rdf:Bag', 'rdf:Seq'].includes(c.tagName));
+            if (container) {
+                const items = Array.from(container.children).map(li => li.textContent || '');
+                xmp[child.tagName] = container.tagName === 'rdf:Alt' ? items[0] || '' : items;
+            } else if (child.children.length > 0) {
+                walk(child);
+            } else {
+                xmp[child.tagName] = child.textContent || '';
+            }
+        });
+    };
+    Array.from(doc.getElementsByTagName('rdf:Description')).forEach(walk);
+    return xmp;
+};
+
+const readIptc = (segments: { marker: number, payload: Uint8Array }[]): Record<string, string | string[]> => {
+    const iptc: Record<string, string | string[]> = {};
+    const segment = segments.find(s => s.marker === 0xED && startsWith(s.payload, 0, PHOTOSHOP_NAMESPACE));
+    if (!segment) return iptc;
+
+    const data = segment.payload;
+    let offset = PHOTOSHOP_NAMESPACE.length;
+    // Walk the Photoshop image resource blocks looking for 0x0404 (IPTC-NAA)
+    while (offset + 12 <= data.length && startsWith(data, offset, '8BIM')) {
+        const resourceId = (data[offset + 4] << 8) | data[offset + 5];
+        const nameLength = data[offset + 6];
+        const namePadded = nameLength + 1 + ((nameLength + 1) % 2);
+        const sizeOffset = offset + 6 + namePadded;
+        const size = (data[sizeOffset] << 24) | (data[sizeOffset + 1] << 16) | (data[sizeOffset + 2] << 8) | data[sizeOffset + 3];
+        const start = sizeOffset + 4;
+
+        if (resourceId === 0x0404) {
+            let pos = start;
+            while (pos + 5 <= start + size && data[pos] === 0x1C) {
+                const record = data[pos + 1];
+                const dataset = data[pos + 2];
+                const length = (data[pos + 3] << 8) | data[pos + 4];
+                const name = record === 2 ? IPTC_DATASETS[dataset] : undefined;
+                if (name) {
+                    const value = decoder.decode(data.subarray(pos + 5, pos + 5 + length));
+                    const existing = iptc[name];
+                    iptc[name] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+                }
+                pos += 5 + length;
+            }
+        }
+        offset = start + size + (size % 2);
+    }
+    return iptc;
+};
+
+/**
+ * Reads back every metadata block we write: EXIF (incl. Windows XP tags), GPS, XMP and IPTC-IIM
+ * from JPEGs, EXIF and XMP chunks from PNGs and WebPs. Other formats come back empty.
+ */
+export const readEmbeddedMetadata = async (blob: Blob): Promise<EmbeddedMetadata> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    if (bytes[0] === 0xFF && bytes[1] === 0xD8) {
+        const segments = readAppSegments(bytes);
+        return { ...readExif(await blobToDataURL(blob)), xmp: readXmp(findJpegXmpPacket(segments)), iptc: readIptc(segments) };
+    }
+
+    const chunks = startsWith(bytes, 1, 'PNG') ? readPngChunks(bytes)
+        : startsWith(bytes, 0, 'RIFF') && startsWith(bytes, 8, 'WEBP') ? readWebpChunks(bytes)
+        : {};
+    return { ...readExif(chunks.exif ? `Exif\0\0${toBinaryString(chunks.exif)}` : null), xmp: readXmp(chunks.xmp ?? null), iptc: {} };
+};
+
+const asList = (value: string | string[] | undefined): string[] =>
+    value === undefined ? [] : Array.isArray(value) ? value : value.split(';').map(v => v.trim());
+
+/**
+ * Compares what was read back against what the card says should be there.
+ */
+export const verifyEmbeddedMetadata = (
+    embedded: EmbeddedMetadata,
+    metadata: Metadata,
+    location: GeoLocation,
+    businessName: string,
+    standards: MetadataStandards
+): MetadataVerification => {
+    const checks: MetadataCheck[] = [];
+
+    const checkText = (standard: MetadataCheck['standard'], field: string, expected: string, actual: string | string[] | undefined, prefixOnly = false) => {
+        const value = Array.isArray(actual) ? actual.join('; ') : actual;
+        const matches = value !== undefined && (prefixOnly ? expected.startsWith(value) && value.length > 0 : value === expected);
+        checks.push({ standard, field, expected, actual: value ?? null, status: value === undefined || value === '' ? 'missing' : matches ? 'ok' : 'mismatch' });
+    };
+
+    const checkTags = (standard: MetadataCheck['standard'], field: string, actual: string | string[] | undefined) => {
+        const present = new Set(asList(actual).map(t => t.toLowerCase()));
+        const absent = metadata.tags.filter(tag => !present.has(tag.toLowerCase()));
+        checks.push({
+            standard,
+            field,
+            expected: metadata.tags.join('; '),
+            actual: actual === undefined ? null : asList(actual).join('; '),
+            status: actual === undefined ? 'missing' : absent.length === 0 ? 'ok' : 'mismatch',
+        });
+    };
+
+    if (standards.exif) {
+        checkText('EXIF', 'ImageDescription', metadata.name, embedded.exif.ImageDescription);
+        checkText('EXIF', 'XPTitle', metadata.name, embedded.exif.XPTitle);
+        checkText('EXIF', 'XPComment', metadata.description, embedded.exif.XPComment);
+        checkText('EXIF', 'XPSubject', metadata.caption, embedded.exif.XPSubject);
+        checkText('EXIF', 'Artist', businessName, embedded.exif.Artist);
+        checkTags('EXIF', 'XPKeywords', embedded.exif.XPKeywords);
+
+        const expectedGps = `${location.lat.toFixed(5)}, ${location.lng.toFixed(5)}`;
+        const gps = embedded.gps;
+        // DMS with 1/100 second precision is accurate to roughly 0.3 m
+        const gpsMatches = gps && Math.abs(gps.lat - location.lat) < 1e-5 && Math.abs(gps.lng - location.lng) < 1e-5;
+        checks.push({
+            standard: 'EXIF',
+            field: 'GPS',
+            expected: expectedGps,
+            actual: gps ? `${gps.lat.toFixed(5)}, ${gps.lng.toFixed(5)}` : null,
+            status: !gps ? 'missing' : gpsMatches ? 'ok' : 'mismatch',
+        });
+    }
+
+    if (standards.xmp) {
+        checkText('XMP', 'dc:title', metadata.name, embedded.xmp['dc:title']);
+        checkText('XMP', 'dc:description', metadata.description, embedded.xmp['dc:description']);
+        checkText('XMP', 'Iptc4xmpCore:AltTextAccessibility', metadata.altText, embedded.xmp['Iptc4xmpCore:AltTextAccessibility']);
+        checkText('XMP', 'photoshop:Headline', metadata.caption, embedded.xmp['photoshop:Headline']);
+        checkTags('XMP', 'dc:subject', embedded.xmp['dc:subject']);
+        if (metadata.website) checkText('XMP', 'xmpRights:WebStatement', metadata.website, embedded.xmp['xmpRights:WebStatement']);
+    }
+
+    if (standards.iptc) {
+        // IIM fields have byte limits, so long values are legitimately truncated
+        checkText('IPTC', 'ObjectName', metadata.name, embedded.iptc.ObjectName, true);
+        checkText('IPTC', 'Caption-Abstract', metadata.description, embedded.iptc['Caption-Abstract'], true);
+        checkText('IPTC', 'Headline', metadata.caption, embedded.iptc.Headline, true);
+        checkTags('IPTC', 'Keywords', embedded.iptc.Keywords);
+    }
+
+    return {
+        checkedAt: Date.now(),
+        checks,
+        issueCount: checks.filter(check => check.status !== 'ok').length,
+    };
+};
@@ -0,0 +1,315 @@
+import type { Metadata, GeoLocation, CompanyInfo, LocalizedField } from '../types';
+import { toHierarchicalKeywords } from './tagCategories';
+import { getFieldAlternatives } from './locales';
+
+/**
+ * Writers for the two metadata blocks that sit next to EXIF in a JPEG:
+ * an XMP packet (APP1, read by Lightroom, WordPress and Google Images) and
+ * IPTC-IIM records inside a Photoshop APP13 segment (read by older DAMs and WordPress).
+ */
+
+export const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0';
+export const PHOTOSHOP_NAMESPACE = 'Photoshop 3.0\0';
+const MAX_SEGMENT_PAYLOAD = 65533;         // 0xFFFF minus the 2 length bytes
+
+export interface MetadataFields {
+    metadata: Metadata;
+    businessName: string;
+    location: GeoLocation;
+    companyInfo?: CompanyInfo;
+}
+
+const encoder = new TextEncoder();
+
+export const escapeXml = (value: string): string =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+
+export const getCopyrightNotice = (businessName: string): string =>
+    `Copyright ${new Date().getFullYear()} ${businessName}. All Rights Reserved.`;
+
+const langAlt = (tag: string, value: string, alternatives: { language: string, value: string }[] = []): string => {
+    // x-default stays first: readers that take a single value use the first entry
+    const items = [{ language: 'x-default', value }, ...alternatives]
+        .map(item => `     <rdf:li xml:lang="${escapeXml(item.language)}">${escapeXml(item.value)}</rdf:li>`);
+    return `   <${tag}>\n    <rdf:Alt>\n${items.join('\n')}\n    </rdf:Alt>\n   </${tag}>`;
+};
+
+// Per-language alternatives, only when the image has translations
+const localizedAlt = (tag: string, metadata: Metadata, field: LocalizedField): string =>
+    langAlt(tag, metadata[field], metadata.translations ? getFieldAlternatives(metadata, field) : []);
+
+const rdfList = (tag: string, container: 'Bag' | 'Seq', values: string[]): string =>
+    `   <${tag}>\n    <rdf:${container}>\n${values.map(v => `     <rdf:li>${escapeXml(v)}</rdf:li>`).join('\n')}\n    </rdf:${container}>\n   </${tag}>`;
+
+const simple = (tag: string, value: string): string => `   <${tag}>${escapeXml(value)}</${tag}>`;
+
+export const buildXmpPacket = ({ metadata, businessName, location, companyInfo }: MetadataFields): string => {
+    const website = metadata.website || companyInfo?.website || '';
+    const keywords = [...new Set([...metadata.tags, businessName])];
+
+    const properties = [
+        localizedAlt('dc:title', metadata, 'name'),
+        localizedAlt('dc:description', metadata, 'description'),
+        rdfList('dc:subject', 'Bag', keywords),
+        rdfList('dc:creator', 'Seq', [businessName]),
+        langAlt('dc:rights', getCopyrightNotice(businessName)),
+        localizedAlt('Iptc4xmpCore:AltTextAccessibility', metadata, 'altText'),
+        simple('photoshop:Headline', metadata.caption),
+        simple('photoshop:Credit', businessName),
+        simple('xmpRights:Marked', 'True'),
+        langAlt('xmpRights:UsageTerms', getCopyrightNotice(businessName)),
+    ];
+    if (website) properties.push(simple('xmpRights:WebStatement', website));
+    if (location.name) properties.push(simple('Iptc4xmpCore:Location', location.name));
+    // Categorized tags as "Category|tag", which Lightroom and Bridge show as a keyword tree
+    const hierarchical = toHierarchicalKeywords(metadata.tagCategories || []);
+    if (hierarchical.length > 0) properties.push(rdfList('lr:hierarchicalSubject', 'Bag', hierarchical));
+
+    // NAP (name, address, phone) for local SEO, stored as the creator's contact info
+    const contact = [
+        website && simple('Iptc4xmpCore:CiUrlWork', website),
+        companyInfo?.phone && simple('Iptc4xmpCore:CiTelWork', companyInfo.phone),
+        companyInfo?.address && simple('Iptc4xmpCore:CiAdrExtadr', companyInfo.address),
+    ].filter(Boolean);
+    if (contact.length > 0) {
+        properties.push(`   <Iptc4xmpCore:CreatorContactInfo rdf:parseType="Resource">\n${contact.map(line => ` ${line}`).join('\n')}\n   </Iptc4xmpCore:CreatorContactInfo>`);
+    }
+
+    return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/"
+    xmlns:xmpRights="http://ns.adobe.com/xap/1.0/rights/"
+    xmlns:Iptc4xmpCore="http://iptc.org/std/Iptc4xmpCore/1.0/xmlns/"
+    xmlns:lr="http://ns.adobe.com/lightroom/1.0/">
+${properties.join('\n')}
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+};
+
+const buildSegment = (marker: number, payload: Uint8Array): Uint8Array => {
+    if (payload.length > MAX_SEGMENT_PAYLOAD) {
+        throw new Error(`Metadata segment too large (${payload.length} bytes).`);
+    }
+    const segment = new Uint8Array(payload.length + 4);
+    segment[0] = 0xFF;
+    segment[1] = marker;
+    segment[2] = ((payload.length + 2) >> 8) & 0xFF;
+    segment[3] = (payload.length + 2) & 0xFF;
+    segment.set(payload, 4);
+    return segment;
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+        result.set(part, offset);
+        offset += part.length;
+    });
+    return result;
+};
+
+export const buildXmpSegment = (fields: MetadataFields): Uint8Array =>
+    buildSegment(0xE1, concatBytes([encoder.encode(XMP_NAMESPACE), encoder.encode(buildXmpPacket(fields))]));
+
+/**
+ * Truncates to the IIM byte limit without splitting a UTF-8 sequence.
+ */
+const encodeLimited = (value: string, maxBytes: number): Uint8Array => {
+    let bytes = encoder.encode(value);
+    let chars = value.length;
+    while (bytes.length > maxBytes && chars > 0) {
+        chars--;
+        bytes = encoder.encode(value.slice(0, chars));
+    }
+    return bytes;
+};
+
+const iptcDataset = (record: number, dataset: number, data: Uint8Array): Uint8Array =>
+    concatBytes([new Uint8Array([0x1C, record, dataset, (data.length >> 8) & 0xFF, data.length & 0xFF]), data]);
+
+export const buildIptcRecords = ({ metadata, businessName, location }: MetadataFields): Uint8Array => {
+    const keywords = [...new Set([...metadata.tags, businessName])];
+    const datasets: Uint8Array[] = [
+        iptcDataset(1, 90, new Uint8Array([0x1B, 0x25, 0x47])),         // 1:90 Coded Character Set = UTF-8
+        iptcDataset(2, 0, new Uint8Array([0x00, 0x04])),                // 2:00 Record Version
+        iptcDataset(2, 5, encodeLimited(metadata.name, 64)),            // 2:05 Object Name (Title)
+        ...keywords.map(tag => iptcDataset(2, 25, encodeLimited(tag, 64))), // 2:25 Keywords
+        iptcDataset(2, 80, encodeLimited(businessName, 32)),            // 2:80 By-line
+        iptcDataset(2, 105, encodeLimited(metadata.caption, 256)),      // 2:105 Headline
+        iptcDataset(2, 110, encodeLimited(businessName, 32)),           // 2:110 Credit
+        iptcDataset(2, 116, encodeLimited(getCopyrightNotice(businessName), 128)), // 2:116 Copyright Notice
+        iptcDataset(2, 120, encodeLimited(metadata.description, 2000)), // 2:120 Caption/Abstract
+    ];
+    if (location.name) {
+        datasets.push(iptcDataset(2, 90, encodeLimited(location.name, 32))); // 2:90 City
+    }
+    return concatBytes(datasets);
+};
+
+export const buildIptcSegment = (fields: MetadataFields): Uint8Array => {
+    const iptc = buildIptcRecords(fields);
+    const paddedLength = iptc.length + (iptc.length % 2);
+    // Photoshop image resource block 0x0404 (IPTC-NAA) with an empty, padded Pascal name
+    const header = new Uint8Array([
+        0x38, 0x42, 0x49, 0x4D,     // "8BIM"
+        0x04, 0x04,                 // Resource ID
+        0x00, 0x00,                 // Name
+        (iptc.length >> 24) & 0xFF, (iptc.length >> 16) & 0xFF, (iptc.length >> 8) & 0xFF, iptc.length & 0xFF,
+    ]);
+    const body = new Uint8Array(paddedLength);
+    body.set(iptc);
+    return buildSegment(0xED, concatBytes([encoder.encode(PHOTOSHOP_NAMESPACE), header, body]));
+};
+
+export const startsWith = (bytes: Uint8Array, offset: number, prefix: string): boolean => {
+    for (let i = 0; i < prefix.length; i++) {
+        if (bytes[offset + i] !== prefix.charCodeAt(i)) return false;
+    }
+    return true;
+};
+
+/**
+ * Inserts segments after the leading JFIF/EXIF blocks of a JPEG, dropping any existing
+ * XMP or Photoshop segments so re-embedding never leaves stale values behind.
+ */
+export const insertJpegSegments = (jpeg: Uint8Array, segments: Uint8Array[]): Uint8Array => {
+    if (jpeg[0] !== 0xFF || jpeg[1] !== 0xD8) {
+        throw new Error('Not a JPEG file.');
+    }
+
+    const head: Uint8Array[] = [jpeg.subarray(0, 2)];
+    let offset = 2;
+    let pastHeader = false;
+    const rest: Uint8Array[] = [];
+
+    while (offset + 4 <= jpeg.length && jpeg[offset] === 0xFF) {
+        const marker = jpeg[offset + 1];
+        // Start of scan: everything after is entropy-coded image data
+        if (marker === 0xDA) break;
+        const length = (jpeg[offset + 2] << 8) | jpeg[offset + 3];
+        const segment = jpeg.subarray(offset, offset + 2 + length);
+        const isXmp = marker === 0xE1 && startsWith(jpeg, offset + 4, XMP_NAMESPACE);
+        const isPhotoshop = marker === 0xED && startsWith(jpeg, offset + 4, PHOTOSHOP_NAMESPACE);
+
+        if (!isXmp && !isPhotoshop) {
+            if (!pastHeader && (marker === 0xE0 || marker === 0xE1)) {
+                head.push(segment);
+            } else {
+                pastHeader = true;
+                rest.push(segment);
+            }
+        }
+        offset += 2 + length;
+    }
+
+    return concatBytes([...head, ...segments, ...rest, jpeg.subarray(offset)]);
+};
+
+export interface ChunkMetadata {
+    exif?: Uint8Array;          // TIFF structure (starts with "II*\0" or "MM\0*")
+    xmp?: string;               // Complete XMP packet
+}
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array): number => {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const typeAndData = concatBytes([encoder.encode(type), data]);
+    const chunk = new Uint8Array(typeAndData.length + 8);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(typeAndData, 4);
+    view.setUint32(chunk.length - 4, crc32(typeAndData));
+    return chunk;
+};
+
+/**
+ * Adds an eXIf chunk and an XMP iTXt chunk ("XML:com.adobe.xmp") in front of the first IDAT.
+ */
+export const insertPngMetadata = (png: Uint8Array, { exif, xmp }: ChunkMetadata): Uint8Array => {
+    if (!startsWith(png, 1, 'PNG')) {
+        throw new Error('Not a PNG file.');
+    }
+
+    const chunks: Uint8Array[] = [];
+    if (exif) chunks.push(pngChunk('eXIf', exif));
+    // iTXt: keyword, null, compression flag 0, method 0, empty language tag, empty translated keyword, text
+    if (xmp) chunks.push(pngChunk('iTXt', concatBytes([encoder.encode('XML:com.adobe.xmp'), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(xmp)])));
+    if (chunks.length === 0) return png;
+
+    const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+    let offset = 8;
+    while (offset + 8 <= png.length && !startsWith(png, offset + 4, 'IDAT')) {
+        offset += 12 + view.getUint32(offset);
+    }
+    return concatBytes([png.subarray(0, offset), ...chunks, png.subarray(offset)]);
+};
+
+const riffChunk = (fourCC: string, data: Uint8Array): Uint8Array => {
+    const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+    chunk.set(encoder.encode(fourCC), 0);
+    new DataView(chunk.buffer).setUint32(4, data.length, true);
+    chunk.set(data, 8);
+    return chunk;
+};
+
+/**
+ * Adds EXIF and XMP chunks to a WebP. Simple (VP8/VP8L) files are promoted to the extended
+ * format, which needs a VP8X header carrying the canvas size and the metadata flags.
+ */
+export const insertWebpMetadata = (webp: Uint8Array, size: { width: number, height: number }, { exif, xmp }: ChunkMetadata): Uint8Array => {
+    if (!startsWith(webp, 0, 'RIFF') || !startsWith(webp, 8, 'WEBP')) {
+        throw new Error('Not a WebP file.');
+    }
+    if (!exif && !xmp) return webp;
+
+    const flags = (exif ? 0x08 : 0) | (xmp ? 0x04 : 0);
+    let body = webp.slice(12);
+    if (startsWith(body, 0, 'VP8X')) {
+        body[8] |= flags;
+    } else {
+        const vp8x = new Uint8Array(10);
+        vp8x[0] = flags;
+        [size.width - 1, size.height - 1].forEach((value, index) => {
+            vp8x[4 + index * 3] = value & 0xFF;
+            vp8x[5 + index * 3] = (value >> 8) & 0xFF;
+            vp8x[6 + index * 3] = (value >> 16) & 0xFF;
+        });
+        body = concatBytes([riffChunk('VP8X', vp8x), body]);
+    }
+
+    const chunks = [body];
+    if (exif) chunks.push(riffChunk('EXIF', exif));
+    if (xmp) chunks.push(riffChunk('XMP ', encoder.encode(xmp)));
+    const payload = concatBytes(chunks);
+
+    const header = new Uint8Array(12);
+    header.set(encoder.encode('RIFF'), 0);
+    new DataView(header.buffer).setUint32(4, payload.length + 4, true);
+    header.set(encoder.encode('WEBP'), 8);
+    return concatBytes([header, payload]);
+};
@@ -0,0 +1,71 @@
+import { Type, type Schema } from "@google/genai";
+import type { VisionProvider } from './visionProvider';
+
+/**
+ * FNV-1a hash, used to give every input image a stable seed so repeated runs
+ * produce identical output.
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Builds a value that satisfies the given schema, derived only from the seed and the property path.
+ */
+const mockValue = (schema: Schema, path: string, seed: number): unknown => {
+  const localSeed = hashString(`${seed}:${path}`);
+  const suffix = localSeed.toString(36).slice(0, 6);
+
+  if (schema.enum && schema.enum.length > 0) {
+    return schema.enum[localSeed % schema.enum.length];
+  }
+
+  switch (schema.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, value]) => [key, mockValue(value, `${path}.${key}`, seed)])
+      );
+    case Type.ARRAY: {
+      const length = 3 + (localSeed % 3);
+      return Array.from({ length }, (_, i) => mockValue(schema.items || { type: Type.STRING }, `${path}[${i}]`, seed));
+    }
+    case Type.NUMBER:
+      return (localSeed % 1000) / 1000;
+    case Type.INTEGER:
+      return localSeed % 100;
+    case Type.BOOLEAN:
+      return localSeed % 2 === 0;
+    default: {
+      const key = path.split('.').pop()?.replace(/\[\d+\]$/, '') || 'value';
+      return `mock ${key} ${suffix}`;
+    }
+  }
+};
+
+/**
+ * Offline provider for development and CI: never touches the network and returns
+ * the same output for the same input.
+ */
+export const mockProvider: VisionProvider = {
+  id: 'mock',
+  label: 'Local Mock',
+
+  generateJson: async <T,>({ prompt, images, schema }) => {
+    const seed = hashString(prompt + images.map(image => image.base64).join(''));
+    console.log('[Mock Service] Generating JSON, seed:', seed);
+    return mockValue(schema, 'root', seed) as T;
+  },
+
+  generateImage: async ({ images }) => {
+    if (images.length === 0) {
+      throw new Error("Mock provider needs at least one input image.");
+    }
+    console.log('[Mock Service] Returning input image unchanged.');
+    return { ...images[0] };
+  },
+};
@@ -0,0 +1,127 @@
+import type { Schema } from "@google/genai";
+import { ApiError, getProviderSettings, parseRetryAfter, type VisionProvider, type VisionImage } from './visionProvider';
+
+// Optional: local OpenAI-compatible servers (Ollama, LM Studio, vLLM) usually don't need a key.
+const getApiKey = (): string | null => localStorage.getItem('OPENAI_API_KEY');
+
+const buildHeaders = (json: boolean): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (json) headers['Content-Type'] = 'application/json';
+  const apiKey = getApiKey();
+  if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+  return headers;
+};
+
+/**
+ * Converts a Gemini-style schema (upper-case OpenAPI types) into the JSON Schema
+ * dialect expected by OpenAI structured outputs.
+ */
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+    result.required = schema.required || [];
+    result.additionalProperties = false;
+  }
+  return result;
+};
+
+const toApiError = async (response: Response): Promise<ApiError> => {
+  let message = `API request failed with status ${response.status}`;
+  try {
+    const error = await response.json();
+    message = error.error?.message || message;
+  } catch {
+    // Non-JSON error body; keep the generic message
+  }
+  return new ApiError(message, response.status, parseRetryAfter(response));
+};
+
+const base64ToBlob = (image: VisionImage): Blob => {
+  const binary = atob(image.base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: image.mimeType });
+};
+
+export const openAiProvider: VisionProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+
+  generateJson: async <T,>({ prompt, images, schema }) => {
+    const { openAiBaseUrl, openAiModel } = getProviderSettings();
+    console.log('[OpenAI Service] Calling API:', openAiModel);
+
+    const response = await fetch(`${openAiBaseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: buildHeaders(true),
+      body: JSON.stringify({
+        model: openAiModel,
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: prompt },
+            ...images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.base64}` } }))
+          ]
+        }],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'response', schema: toJsonSchema(schema), strict: true }
+        }
+      })
+    });
+
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+
+    const data = await response.json();
+    const choice = data.choices?.[0];
+    if (!choice) {
+      throw new Error("No choices returned from API. Check your request or API quota.");
+    }
+    if (choice.finish_reason === 'content_filter') {
+      throw new Error("Content was blocked by safety filters. Try a different image or description.");
+    }
+    if (!choice.message?.content) {
+      throw new Error(`API returned an unexpected response structure. Reason: ${choice.finish_reason || 'Unknown'}`);
+    }
+
+    return JSON.parse(choice.message.content) as T;
+  },
+
+  generateImage: async ({ prompt, images }) => {
+    const { openAiBaseUrl, openAiImageModel } = getProviderSettings();
+    console.log('[OpenAI Service] Calling API:', openAiImageModel);
+
+    const form = new FormData();
+    form.append('model', openAiImageModel);
+    form.append('prompt', prompt);
+    images.forEach((image, index) => {
+      form.append('image[]', base64ToBlob(image), `image-${index + 1}.${image.mimeType.split('/')[1] || 'png'}`);
+    });
+
+    const response = await fetch(`${openAiBaseUrl.replace(/\/+$/, '')}/images/edits`, {
+      method: 'POST',
+      headers: buildHeaders(false),
+      body: form
+    });
+
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+
+    const data = await response.json();
+    const base64 = data.data?.[0]?.b64_json;
+    if (!base64) {
+      throw new Error("Generated image data not found in API response.");
+    }
+    return { base64, mimeType: 'image/png' };
+  },
+};
@@ -0,0 +1,88 @@
+import type { DuplicateMatch, ImageHashEntry } from '../types';
+
+/**
+ * Perceptual hashing (dHash) for spotting the same photo uploaded twice, including re-saved,
+ * resized or slightly re-cropped copies that a byte comparison would miss.
+ */
+
+const HASH_WIDTH = 9;               // 9×8 pixels give 8 horizontal gradients per row: 64 bits
+const HASH_HEIGHT = 8;
+
+// Bits that may differ for two files to still count as the same photo. Re-encodes and resizes land
+// at 0-4; different shots of the same scene are usually well above 10.
+export const NEAR_DUPLICATE_DISTANCE = 8;
+
+/**
+ * 64-bit difference hash as 16 hex characters: each bit says whether a pixel of the 9×8 grayscale
+ * thumbnail is brighter than its right-hand neighbour.
+ */
+export const computePerceptualHash = async (blob: Blob): Promise<string> => {
+    const bitmap = await createImageBitmap(blob);
+    const canvas = document.createElement('canvas');
+    canvas.width = HASH_WIDTH;
+    canvas.height = HASH_HEIGHT;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not get canvas context');
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+    bitmap.close();
+
+    const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+    const luma = (x: number, y: number) => {
+        const i = (y * HASH_WIDTH + x) * 4;
+        return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    };
+
+    let hex = '';
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+        let byte = 0;
+        for (let x = 0; x < HASH_WIDTH - 1; x++) {
+            byte = (byte << 1) | (luma(x, y) > luma(x + 1, y) ? 1 : 0);
+        }
+        hex += byte.toString(16).padStart(2, '0');
+    }
+    return hex;
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+    let distance = 0;
+    for (let i = 0; i < a.length; i += 2) {
+        let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+        while (diff) {
+            distance += diff & 1;
+            diff >>= 1;
+        }
+    }
+    return distance;
+};
+
+/**
+ * Closest match for the hash: images in the current batch first, then the project's index of
+ * photos processed before. Returns null when nothing is within NEAR_DUPLICATE_DISTANCE.
+ */
+export const findDuplicate = (
+    hash: string,
+    batch: { id: string, hash: string, name: string }[],
+    index: ImageHashEntry[]
+): DuplicateMatch | null => {
+    const closest = <T extends { hash: string }>(candidates: T[]) => candidates
+        .map(candidate => ({ candidate, distance: hammingDistance(hash, candidate.hash) }))
+        .filter(({ distance }) => distance <= NEAR_DUPLICATE_DISTANCE)
+        .sort((a, b) => a.distance - b.distance)[0];
+
+    const inBatch = closest(batch);
+    if (inBatch) {
+        return { source: 'batch', matchId: inBatch.candidate.id, matchName: inBatch.candidate.name, distance: inBatch.distance };
+    }
+    const inIndex = closest(index);
+    if (inIndex) {
+        return { source: 'project', matchName: inIndex.candidate.name, distance: inIndex.distance, processedAt: inIndex.candidate.processedAt };
+    }
+    return null;
+};
+
+/**
+ * Adds or refreshes the entry for a processed image; one entry per hash, newest name wins.
+ */
+export const addToHashIndex = (index: ImageHashEntry[], entry: ImageHashEntry): ImageHashEntry[] =>
+    [...index.filter(existing => existing.hash !== entry.hash), entry];
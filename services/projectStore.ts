@@ -0,0 +1,119 @@
+import type { Project, ProcessedImage, StoredImage } from '../types';
+
+const DB_NAME = 'ai-image-tagger';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const IMAGES_STORE = 'images';
+const ACTIVE_PROJECT_KEY = 'ACTIVE_PROJECT_ID';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+                db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+                const images = db.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+                images.createIndex('projectId', 'projectId', { unique: false });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error || new Error('Could not open project database.'));
+        };
+    });
+    return dbPromise;
+};
+
+/**
+ * Wraps a single IndexedDB request in a promise that settles when its transaction completes.
+ */
+const runRequest = async <T,>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = action(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request.result as T);
+        tx.onerror = () => reject(tx.error || new Error(`IndexedDB ${mode} on ${storeName} failed.`));
+        tx.onabort = () => reject(tx.error || new Error(`IndexedDB ${mode} on ${storeName} was aborted.`));
+    });
+};
+
+export const listProjects = async (): Promise<Project[]> => {
+    const projects = await runRequest<Project[]>(PROJECTS_STORE, 'readonly', store => store.getAll());
+    return projects.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const getProject = (projectId: string): Promise<Project | undefined> =>
+    runRequest(PROJECTS_STORE, 'readonly', store => store.get(projectId));
+
+export const saveProject = (project: Project): Promise<void> =>
+    runRequest(PROJECTS_STORE, 'readwrite', store => store.put({ ...project, updatedAt: Date.now() }));
+
+export const loadProjectImages = async (projectId: string): Promise<StoredImage[]> => {
+    const images = await runRequest<StoredImage[]>(IMAGES_STORE, 'readonly', store => store.index('projectId').getAll(projectId));
+    return images.sort((a, b) => a.order - b.order);
+};
+
+export const saveImage = (image: StoredImage): Promise<void> =>
+    runRequest(IMAGES_STORE, 'readwrite', store => store.put(image));
+
+export const deleteImage = (imageId: string): Promise<void> =>
+    runRequest(IMAGES_STORE, 'readwrite', store => store.delete(imageId));
+
+export const deleteProject = async (projectId: string): Promise<void> => {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction([PROJECTS_STORE, IMAGES_STORE], 'readwrite');
+        tx.objectStore(PROJECTS_STORE).delete(projectId);
+        const cursorRequest = tx.objectStore(IMAGES_STORE).index('projectId').openKeyCursor(IDBKeyRange.only(projectId));
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (cursor) {
+                tx.objectStore(IMAGES_STORE).delete(cursor.primaryKey);
+                cursor.continue();
+            }
+        };
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error || new Error('Could not delete project.'));
+    });
+};
+
+export const getActiveProjectId = (): string | null => localStorage.getItem(ACTIVE_PROJECT_KEY);
+
+export const setActiveProjectId = (projectId: string): void => {
+    localStorage.setItem(ACTIVE_PROJECT_KEY, projectId);
+};
+
+/**
+ * Converts a live image into its persisted form. Object URLs are session-only, so the preview is dropped.
+ */
+export const toStoredImage = (image: ProcessedImage, projectId: string, order: number): StoredImage => {
+    const { previewUrl, ...rest } = image;
+    return { ...rest, projectId, order };
+};
+
+/**
+ * Rebuilds a live image from storage. Jobs that were mid-flight when the page closed go back to the queue.
+ */
+export const fromStoredImage = (stored: StoredImage): ProcessedImage => {
+    const { projectId, order, ...rest } = stored;
+    const wasInterrupted = ['generating', 'enhancing', 'embedding'].includes(stored.status);
+    return {
+        ...rest,
+        previewUrl: URL.createObjectURL(stored.file),
+        status: wasInterrupted ? 'pending' : stored.status,
+        statusText: wasInterrupted ? 'Resuming...' : stored.statusText,
+        attempts: stored.attempts ?? 0,
+        retryAt: null,
+        // An upload cut off by the reload may or may not have landed; re-publishing finds it by slug
+        publish: stored.publish?.status === 'publishing' ? { ...stored.publish, status: 'error', error: 'Interrupted, publish again' } : stored.publish,
+    };
+};
@@ -0,0 +1,141 @@
+import type { PromptTemplate } from '../types';
+import { slugify } from './textUtils';
+import { DEFAULT_LANGUAGES, getLanguageName } from './locales';
+
+/**
+ * Built-in industry presets. `{{businessName}}`, `{{businessSlug}}` and `{{industry}}`
+ * may be used in any text field and are filled in by `renderTemplate`.
+ */
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'appliance-repair',
+    name: 'Appliance Repair',
+    industry: 'appliance repair',
+    subject: 'appliance',
+    subjectRule: 'use a generic but descriptive name (e.g., "display refrigerator," "commercial freezer," "stacked laundry machine"). Avoid being overly specific about what the appliance might contain (e.g., prefer "display refrigerator" over "wine cooler").',
+    filenamePattern: '[brand-name]-[subject-type]-{{businessSlug}}',
+    requiredTags: ['{{businessName}}', 'commercial appliance repair', 'domestic appliance repair'],
+    descriptionKeywords: ['appliance repair', 'commercial', 'domestic'],
+    tone: 'friendly and helpful, with a question or a brief customer-centric tip',
+    builtIn: true,
+  },
+  {
+    id: 'plumbing',
+    name: 'Plumbing',
+    industry: 'plumbing',
+    subject: 'plumbing fixture or work area',
+    subjectRule: 'name the fixture or system generically (e.g., "hot water system," "kitchen mixer tap," "drain pipe").',
+    filenamePattern: '[brand-name]-[subject-type]-{{businessSlug}}',
+    requiredTags: ['{{businessName}}', 'plumber', 'plumbing services'],
+    descriptionKeywords: ['plumbing', 'emergency plumber', 'residential', 'commercial'],
+    tone: 'reassuring and practical',
+    builtIn: true,
+  },
+  {
+    id: 'electrical',
+    name: 'Electrical',
+    industry: 'electrical contracting',
+    subject: 'electrical installation',
+    subjectRule: 'name the installation generically (e.g., "switchboard," "LED downlights," "EV charger").',
+    filenamePattern: '[subject-type]-{{businessSlug}}',
+    requiredTags: ['{{businessName}}', 'electrician', 'electrical services'],
+    descriptionKeywords: ['licensed electrician', 'residential', 'commercial'],
+    tone: 'professional with a safety-first message',
+    builtIn: true,
+  },
+  {
+    id: 'hvac',
+    name: 'HVAC',
+    industry: 'heating and air conditioning',
+    subject: 'heating or cooling unit',
+    subjectRule: 'name the unit generically (e.g., "split system air conditioner," "ducted heating unit," "evaporative cooler").',
+    filenamePattern: '[brand-name]-[subject-type]-{{businessSlug}}',
+    requiredTags: ['{{businessName}}', 'air conditioning', 'heating services'],
+    descriptionKeywords: ['HVAC', 'installation', 'servicing'],
+    tone: 'warm and seasonal',
+    builtIn: true,
+  },
+  {
+    id: 'landscaping',
+    name: 'Landscaping',
+    industry: 'landscaping and garden care',
+    subject: 'garden or outdoor feature',
+    subjectRule: 'describe the feature generically (e.g., "paved courtyard," "native garden bed," "timber deck").',
+    filenamePattern: '[subject-type]-{{businessSlug}}',
+    requiredTags: ['{{businessName}}', 'landscaping', 'garden maintenance'],
+    descriptionKeywords: ['landscaping', 'garden design', 'outdoor living'],
+    tone: 'inspiring and visual',
+    builtIn: true,
+  },
+  {
+    id: 'cleaning',
+    name: 'Cleaning',
+    industry: 'cleaning services',
+    subject: 'cleaned space or surface',
+    subjectRule: 'describe the space generically (e.g., "office kitchen," "carpeted lounge," "tiled bathroom").',
+    filenamePattern: '[subject-type]-{{businessSlug}}',
+    requiredTags: ['{{businessName}}', 'cleaning services', 'commercial cleaning'],
+    descriptionKeywords: ['cleaning', 'residential', 'commercial'],
+    tone: 'upbeat with a before-and-after feel',
+    builtIn: true,
+  },
+];
+
+const fillVariables = (text: string, businessName: string, industry: string): string =>
+  text
+    .replace(/\{\{businessName\}\}/g, businessName)
+    .replace(/\{\{businessSlug\}\}/g, slugify(businessName))
+    .replace(/\{\{industry\}\}/g, industry);
+
+/**
+ * Returns a copy of the template with every variable resolved for the given business.
+ */
+export const renderTemplate = (template: PromptTemplate, businessName: string): PromptTemplate => {
+  const fill = (text: string) => fillVariables(text, businessName, template.industry);
+  return {
+    ...template,
+    subject: fill(template.subject),
+    subjectRule: fill(template.subjectRule),
+    filenamePattern: fill(template.filenamePattern),
+    requiredTags: template.requiredTags.map(fill).filter(tag => tag.trim().length > 0),
+    descriptionKeywords: template.descriptionKeywords.map(fill),
+    tone: fill(template.tone),
+  };
+};
+
+export const getRequiredTags = (template: PromptTemplate, businessName: string): string[] =>
+  renderTemplate(template, businessName).requiredTags;
+
+export const buildMetadataPrompt = (template: PromptTemplate, businessName: string, categoryNames: string[] = [], languages: string[] = DEFAULT_LANGUAGES): string => {
+  const t = renderTemplate(template, businessName);
+  const quotedCategories = categoryNames.map(name => `"${name}"`).join(', ');
+  const [primaryLanguage, ...otherLanguages] = languages.length > 0 ? languages : DEFAULT_LANGUAGES;
+  const languageRule = primaryLanguage.toLowerCase().startsWith('en')
+    ? ''
+    : `\n\n**Language:** Write every field below in ${getLanguageName(primaryLanguage)} (${primaryLanguage}). Keep the filename pattern, but use ${getLanguageName(primaryLanguage)} words in it.`;
+  const translationRule = otherLanguages.length === 0
+    ? ''
+    : `\n\n7.  **Translations (translations)**: Provide the name, description, altText and caption again in ${otherLanguages.map(code => `${getLanguageName(code)} (\`${code}\`)`).join(', ')}, as a JSON array with one object per language and its code in \`language\`. Write them as a native speaker would for local customers rather than word for word, and follow the same rules as the fields above.`;
+  const quotedTags = t.requiredTags.map(tag => `"${tag}"`).join(', ');
+  const quotedKeywords = t.descriptionKeywords.map(keyword => `"${keyword}"`).join(', ');
+  const hasBrandSegment = t.filenamePattern.includes('[brand-name]');
+
+  return `You are an expert SEO and digital marketing assistant for a ${t.industry} business named "${businessName}". Analyze the provided image and generate the following distinct metadata components. Each component must be tailored for its specific purpose.
+
+**Important Rule for Subject Type:** When identifying the ${t.subject}, ${t.subjectRule} Apply this rule to all generated fields below.${languageRule}
+
+1.  **SEO Filename (name)**: Create a concise, SEO-friendly filename (without the file extension) following the pattern \`${t.filenamePattern}\`.
+${hasBrandSegment ? `    - For \`[brand-name]\`, use the brand ONLY if clearly visible in the image. If no brand is visible, drop that segment entirely.\n` : ''}    - For \`[subject-type]\`, use the generic ${t.subject} type as described in the rule above.
+    - All segments must be lowercase and hyphenated.
+    - Do NOT include generic words like "repair" or "service" in the filename, unless they are part of the business name.
+
+2.  **Alt Text (altText)**: Write a concise, literal description of the image for accessibility (WCAG compliant). Describe exactly what is visible for visually impaired users. Avoid marketing language.
+
+3.  **SEO Description (description)**: Write a detailed, one-to-two sentence description optimized for search engines. This text will appear on the website near the image.${quotedKeywords ? ` It should naturally incorporate keywords like ${quotedKeywords}, along with what's depicted in the image.` : ''}
+
+4.  **Social Media Caption (caption)**: Create a caption for social media platforms like Instagram or Facebook. The tone should be ${t.tone}. Hashtags are welcome.
+
+5.  **Tags (tags)**: Provide a list of 5-10 relevant SEO keywords as a JSON array of strings.${quotedTags ? ` This list MUST include ${quotedTags}.` : ''} Other tags should be specific to the ${t.subject} or service shown.
+
+6.  **Tag Categories (tagCategories)**: Group every tag from the list above into categories, as a JSON array of objects with a \`category\` name and its \`tags\`.${quotedCategories ? ` Prefer these categories: ${quotedCategories}.` : ''} If a tag fits none of them, use a short new category name (e.g. "Brand" or "Material"). Each tag belongs to exactly one category.${translationRule}`;
+};
@@ -0,0 +1,110 @@
+import type { RedactionBox, RedactionSettings, RedactionTarget } from '../types';
+
+/**
+ * Hides faces, licence plates and house numbers before photos are enhanced or published.
+ * Boxes are fractions of the image size, so they apply to any rendition of the same photo.
+ */
+
+export const REDACTION_TARGETS: { id: RedactionTarget, label: string }[] = [
+    { id: 'face', label: 'Faces' },
+    { id: 'licensePlate', label: 'Plates' },
+    { id: 'houseNumber', label: 'House No.' },
+];
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+    style: 'blur',
+    targets: ['face', 'licensePlate', 'houseNumber'],
+};
+
+const PADDING = 0.1;                // Each side grows by this share of the box, so detection that is a little tight still covers
+const MIN_BOX_SIZE = 0.005;         // Smaller boxes are dropped as noise
+
+/**
+ * Keeps a box inside the image: negative sizes are flipped, overhanging edges trimmed.
+ */
+export const clampBox = ({ x, y, width, height }: { x: number, y: number, width: number, height: number }) => {
+    const clamp = (value: number) => Math.max(0, Math.min(1, Number.isFinite(value) ? value : 0));
+    const left = clamp(Math.min(x, x + width));
+    const top = clamp(Math.min(y, y + height));
+    return {
+        x: left,
+        y: top,
+        width: clamp(Math.max(x, x + width)) - left,
+        height: clamp(Math.max(y, y + height)) - top,
+    };
+};
+
+export const createRedactionBox = (kind: RedactionBox['kind'], rect: { x: number, y: number, width: number, height: number }): RedactionBox => ({
+    id: `redaction-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    kind,
+    ...clampBox(rect),
+});
+
+export const isUsableBox = (box: { width: number, height: number }): boolean =>
+    box.width >= MIN_BOX_SIZE && box.height >= MIN_BOX_SIZE;
+
+/**
+ * Blurs or pixelates every box. Both work by scaling the area down and back up, so the detail is
+ * gone from the output file rather than hidden behind a filter.
+ */
+export const applyRedactions = (imageBlob: Blob, boxes: RedactionBox[], style: RedactionSettings['style']): Promise<Blob> => {
+    if (boxes.length === 0) return Promise.resolve(imageBlob);
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            const ctx = canvas.getContext('2d');
+            const scratch = document.createElement('canvas');
+            const scratchCtx = scratch.getContext('2d');
+            if (!ctx || !scratchCtx) {
+                URL.revokeObjectURL(img.src);
+                return reject(new Error('Could not get canvas context'));
+            }
+            canvas.width = img.width;
+            canvas.height = img.height;
+            ctx.drawImage(img, 0, 0);
+
+            boxes.forEach(box => {
+                const padded = clampBox({
+                    x: box.x - box.width * PADDING,
+                    y: box.y - box.height * PADDING,
+                    width: box.width * (1 + 2 * PADDING),
+                    height: box.height * (1 + 2 * PADDING),
+                });
+                const sx = Math.floor(padded.x * img.width);
+                const sy = Math.floor(padded.y * img.height);
+                const sw = Math.max(1, Math.ceil(padded.width * img.width));
+                const sh = Math.max(1, Math.ceil(padded.height * img.height));
+
+                // About 8 blocks across the short side: nothing readable or recognisable survives
+                const block = Math.max(4, Math.round(Math.min(sw, sh) / 8));
+                scratch.width = Math.max(1, Math.ceil(sw / block));
+                scratch.height = Math.max(1, Math.ceil(sh / block));
+                scratchCtx.imageSmoothingEnabled = true;
+                scratchCtx.imageSmoothingQuality = 'high';
+                scratchCtx.drawImage(canvas, sx, sy, sw, sh, 0, 0, scratch.width, scratch.height);
+
+                ctx.imageSmoothingEnabled = style === 'blur';
+                ctx.imageSmoothingQuality = 'high';
+                ctx.drawImage(scratch, 0, 0, scratch.width, scratch.height, sx, sy, sw, sh);
+            });
+
+            canvas.toBlob(
+                (blob) => {
+                    if (blob) {
+                        resolve(blob);
+                    } else {
+                        reject(new Error('Failed to create blob from canvas for redaction.'));
+                    }
+                    URL.revokeObjectURL(img.src);
+                },
+                'image/jpeg', 0.95
+            );
+        };
+        img.onerror = (err) => {
+            URL.revokeObjectURL(img.src);
+            reject(err);
+        };
+        img.src = URL.createObjectURL(imageBlob);
+    });
+};
@@ -0,0 +1,166 @@
+import type { RenditionFormat, RenditionProfile } from '../types';
+
+/**
+ * Renditions: the set of sized, re-encoded files a processed image is exported as.
+ */
+
+export const DEFAULT_RENDITION_PROFILE: RenditionProfile = { widths: [0], formats: ['jpeg'], quality: 0.95, maxFileSizeKb: 0 };
+
+export const RENDITION_FORMATS: { id: RenditionFormat, label: string, mimeType: string, lossy: boolean }[] = [
+    { id: 'jpeg', label: 'JPEG', mimeType: 'image/jpeg', lossy: true },
+    { id: 'webp', label: 'WebP', mimeType: 'image/webp', lossy: true },
+    { id: 'avif', label: 'AVIF', mimeType: 'image/avif', lossy: true },
+    { id: 'png', label: 'PNG', mimeType: 'image/png', lossy: false },
+];
+
+// Size targeting never drops below this quality; the smallest attempt is kept instead
+const MIN_QUALITY = 0.4;
+const QUALITY_STEP = 0.1;
+
+const supportCache = new Map<RenditionFormat, boolean>();
+
+/**
+ * Canvas falls back to PNG for formats it can't encode, so a mismatched data URL means unsupported.
+ */
+export const isFormatSupported = (format: RenditionFormat): boolean => {
+    if (!supportCache.has(format)) {
+        const { mimeType } = RENDITION_FORMATS.find(f => f.id === format)!;
+        const canvas = document.createElement('canvas');
+        canvas.width = canvas.height = 1;
+        supportCache.set(format, canvas.toDataURL(mimeType).startsWith(`data:${mimeType}`));
+    }
+    return supportCache.get(format)!;
+};
+
+export interface Rendition {
+    fileName: string;
+    blob: Blob;
+    format: RenditionFormat;
+    width: number;
+    height: number;
+}
+
+// Most widely supported first: the <img> fallback, manifest file and publish target
+export const FORMAT_COMPATIBILITY_ORDER: RenditionFormat[] = ['jpeg', 'png', 'webp', 'avif'];
+
+/**
+ * The largest rendition in the most compatible format.
+ */
+export const pickPrimaryRendition = (renditions: Rendition[]): Rendition => {
+    const format = FORMAT_COMPATIBILITY_ORDER.find(f => renditions.some(r => r.format === f))!;
+    return renditions.filter(r => r.format === format).sort((a, b) => b.width - a.width)[0];
+};
+
+/**
+ * The profile narrowed to the rendition pickPrimaryRendition would choose, so it can be encoded on its own.
+ */
+export const getPrimaryProfile = (profile: RenditionProfile): RenditionProfile => {
+    const format = FORMAT_COMPATIBILITY_ORDER.find(f => profile.formats.includes(f) && isFormatSupported(f));
+    const widths = profile.widths.length > 0 ? profile.widths : [0];
+    return { ...profile, formats: format ? [format] : profile.formats, widths: widths.includes(0) ? [0] : [Math.max(...widths)] };
+};
+
+// Optional reshaping applied before the profile's widths
+export interface RenditionFraming {
+    minAspect?: number;             // width / height; taller images are center-cropped to this
+    maxAspect?: number;             // wider images are center-cropped to this
+    maxLongSide?: number;           // Caps the longer edge (px)
+}
+
+export type RenditionMetadataWriter = (blob: Blob, format: RenditionFormat, size: { width: number, height: number }) => Promise<Blob>;
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<Blob> =>
+    new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(`Could not encode ${mimeType}.`)), mimeType, quality);
+    });
+
+const decodeImage = async (source: Blob): Promise<CanvasImageSource & { width: number, height: number }> => {
+    if (typeof createImageBitmap === 'function') {
+        return createImageBitmap(source, { imageOrientation: 'from-image' });
+    }
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            URL.revokeObjectURL(img.src);
+            resolve(img);
+        };
+        img.onerror = (err) => {
+            URL.revokeObjectURL(img.src);
+            reject(err);
+        };
+        img.src = URL.createObjectURL(source);
+    });
+};
+
+// Center crop that brings the aspect ratio inside the framing's range
+const cropRect = (width: number, height: number, { minAspect = 0, maxAspect = Infinity }: RenditionFraming) => {
+    const aspect = width / height;
+    if (aspect > maxAspect) {
+        const w = Math.round(height * maxAspect);
+        return { sx: Math.round((width - w) / 2), sy: 0, sw: w, sh: height };
+    }
+    if (aspect < minAspect) {
+        const h = Math.round(width / minAspect);
+        return { sx: 0, sy: Math.round((height - h) / 2), sw: width, sh: h };
+    }
+    return { sx: 0, sy: 0, sw: width, sh: height };
+};
+
+/**
+ * Encodes every width × format combination in the profile. Metadata is written by the caller's
+ * writer after encoding, and counts towards the file size target.
+ */
+export const buildRenditions = async (
+    source: Blob,
+    baseName: string,
+    profile: RenditionProfile,
+    writeMetadata: RenditionMetadataWriter,
+    framing: RenditionFraming = {}
+): Promise<Rendition[]> => {
+    const decoded = await decodeImage(source);
+    const crop = cropRect(decoded.width, decoded.height, framing);
+    const scale = framing.maxLongSide ? Math.min(1, framing.maxLongSide / Math.max(crop.sw, crop.sh)) : 1;
+    const image = { width: Math.round(crop.sw * scale), height: Math.round(crop.sh * scale) };
+    const formats = RENDITION_FORMATS.filter(f => profile.formats.includes(f.id) && isFormatSupported(f.id));
+    if (formats.length === 0) {
+        throw new Error('None of the selected output formats can be encoded by this browser.');
+    }
+
+    // Widths at or above the original collapse into a single full-size rendition
+    const widths = [...new Set((profile.widths.length > 0 ? profile.widths : [0]).map(w => w > 0 && w < image.width ? Math.round(w) : image.width))]
+        .sort((a, b) => a - b);
+    const maxBytes = profile.maxFileSizeKb > 0 ? profile.maxFileSizeKb * 1024 : Infinity;
+    const renditions: Rendition[] = [];
+
+    for (const width of widths) {
+        const height = Math.round(image.height * (width / image.width));
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Could not get canvas context');
+        }
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(decoded, crop.sx, crop.sy, crop.sw, crop.sh, 0, 0, width, height);
+
+        for (const format of formats) {
+            let quality = Math.min(1, Math.max(MIN_QUALITY, profile.quality));
+            let blob = await writeMetadata(await canvasToBlob(canvas, format.mimeType, quality), format.id, { width, height });
+            while (format.lossy && blob.size > maxBytes && quality - QUALITY_STEP >= MIN_QUALITY - 1e-9) {
+                quality -= QUALITY_STEP;
+                blob = await writeMetadata(await canvasToBlob(canvas, format.mimeType, quality), format.id, { width, height });
+            }
+            if (blob.size > maxBytes) {
+                console.warn(`[Renditions] ${baseName} ${width}px ${format.label} is ${Math.round(blob.size / 1024)} KB, above the ${profile.maxFileSizeKb} KB target.`);
+            }
+
+            // Full size keeps the plain name; downscaled copies are suffixed with their width
+            const suffix = width !== image.width ? `-${width}w` : '';
+            renditions.push({ fileName: `${baseName}${suffix}.${format.id}`, blob, format: format.id, width, height });
+        }
+    }
+
+    if ('close' in decoded) decoded.close();
+    return renditions;
+};
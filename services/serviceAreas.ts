@@ -0,0 +1,145 @@
+import type { ServiceArea } from '../types';
+
+const KM_PER_DEGREE_LAT = 111.32;
+
+type LngLat = [number, number];
+
+const createAreaId = (): string => `area-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Moves a point by a distance (km) along a bearing (radians). Flat-earth approximation,
+ * accurate enough for service-area sized offsets.
+ */
+export const offsetPoint = (point: { lat: number, lng: number }, distanceKm: number, bearing: number): { lat: number, lng: number } => ({
+    lat: point.lat + (distanceKm * Math.cos(bearing)) / KM_PER_DEGREE_LAT,
+    lng: point.lng + (distanceKm * Math.sin(bearing)) / (KM_PER_DEGREE_LAT * Math.cos(point.lat * Math.PI / 180)),
+});
+
+/**
+ * Uniformly distributed point inside a circle (sqrt keeps points from bunching at the center).
+ */
+export const randomPointInRadius = (center: { lat: number, lng: number }, radiusKm: number): { lat: number, lng: number } =>
+    offsetPoint(center, radiusKm * Math.sqrt(Math.random()), Math.random() * 2 * Math.PI);
+
+// Even-odd ray casting; holes are just more rings, so a point inside a hole counts as outside
+const isPointInRings = (lng: number, lat: number, rings: LngLat[][]): boolean => {
+    let inside = false;
+    for (const ring of rings) {
+        for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+            const [xi, yi] = ring[i];
+            const [xj, yj] = ring[j];
+            if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+                inside = !inside;
+            }
+        }
+    }
+    return inside;
+};
+
+export const isPointInServiceArea = (point: { lat: number, lng: number }, area: ServiceArea): boolean => {
+    if (area.kind === 'radius') {
+        const dLat = (point.lat - area.center.lat) * KM_PER_DEGREE_LAT;
+        const dLng = (point.lng - area.center.lng) * KM_PER_DEGREE_LAT * Math.cos(area.center.lat * Math.PI / 180);
+        return Math.sqrt(dLat ** 2 + dLng ** 2) <= area.radiusKm;
+    }
+    return area.polygons.some(rings => isPointInRings(point.lng, point.lat, rings));
+};
+
+/**
+ * Random point inside the area. Polygons use rejection sampling within their bounding box.
+ */
+export const randomPointInServiceArea = (area: ServiceArea): { lat: number, lng: number } => {
+    if (area.kind === 'radius') {
+        return randomPointInRadius(area.center, area.radiusKm);
+    }
+
+    const points = area.polygons.flatMap(rings => rings[0] || []);
+    const lngs = points.map(([lng]) => lng);
+    const lats = points.map(([, lat]) => lat);
+    const [minLng, maxLng, minLat, maxLat] = [Math.min(...lngs), Math.max(...lngs), Math.min(...lats), Math.max(...lats)];
+
+    for (let attempt = 0; attempt < 1000; attempt++) {
+        const candidate = { lat: minLat + Math.random() * (maxLat - minLat), lng: minLng + Math.random() * (maxLng - minLng) };
+        if (isPointInServiceArea(candidate, area)) return candidate;
+    }
+    // Degenerate (e.g. sliver) polygon: its center is the best we can do
+    return { ...area.center };
+};
+
+export const createRadiusArea = (name: string, center: { lat: number, lng: number }, radiusKm: number): ServiceArea => ({
+    id: createAreaId(),
+    name,
+    kind: 'radius',
+    center: { lat: center.lat, lng: center.lng },
+    radiusKm,
+});
+
+const isLngLat = (value: unknown): value is LngLat =>
+    Array.isArray(value) && value.length >= 2 && value.every(n => typeof n === 'number' && Number.isFinite(n))
+    && Math.abs(value[0]) <= 180 && Math.abs(value[1]) <= 90;
+
+const toRings = (coordinates: unknown): LngLat[][] => {
+    if (!Array.isArray(coordinates) || coordinates.length === 0) {
+        throw new Error('Polygon has no coordinates.');
+    }
+    return coordinates.map(ring => {
+        if (!Array.isArray(ring) || ring.length < 4 || !ring.every(isLngLat)) {
+            throw new Error('Polygon rings need at least 4 [longitude, latitude] positions.');
+        }
+        return ring.map(([lng, lat]) => [lng, lat] as LngLat);
+    });
+};
+
+const polygonCenter = (polygons: LngLat[][][]): { lat: number, lng: number } => {
+    // GeoJSON rings repeat their first position at the end; count it once
+    const outer = polygons.flatMap(rings => rings[0].slice(0, -1));
+    return {
+        lat: outer.reduce((sum, [, lat]) => sum + lat, 0) / outer.length,
+        lng: outer.reduce((sum, [lng]) => sum + lng, 0) / outer.length,
+    };
+};
+
+/**
+ * Imports service areas from GeoJSON: Polygon/MultiPolygon geometries become polygon areas,
+ * Points with a `radius` (metres) or `radiusKm` property become radius areas.
+ * Accepts a FeatureCollection, a single Feature or a bare geometry.
+ */
+export const parseServiceAreasGeoJson = (text: string, fallbackName = 'Service Area'): ServiceArea[] => {
+    let json: any;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        throw new Error('File is not valid JSON.');
+    }
+
+    const features: any[] = json?.type === 'FeatureCollection' ? json.features || []
+        : json?.type === 'Feature' ? [json]
+        : [{ type: 'Feature', geometry: json, properties: {} }];
+
+    const areas: ServiceArea[] = [];
+    features.forEach((feature, index) => {
+        const geometry = feature?.geometry;
+        const properties = feature?.properties || {};
+        const name = String(properties.name || properties.NAME || (features.length > 1 ? `${fallbackName} ${index + 1}` : fallbackName));
+
+        if (geometry?.type === 'Polygon' || geometry?.type === 'MultiPolygon') {
+            const polygons = geometry.type === 'Polygon'
+                ? [toRings(geometry.coordinates)]
+                : (geometry.coordinates as unknown[]).map(toRings);
+            areas.push({ id: createAreaId(), name, kind: 'polygon', center: polygonCenter(polygons), polygons });
+        } else if (geometry?.type === 'Point' && isLngLat(geometry.coordinates)) {
+            const radiusKm = Number(properties.radiusKm) || Number(properties.radius) / 1000;
+            if (!(radiusKm > 0)) {
+                throw new Error(`Point "${name}" needs a positive "radius" (metres) or "radiusKm" property.`);
+            }
+            const [lng, lat] = geometry.coordinates;
+            areas.push(createRadiusArea(name, { lat, lng }, radiusKm));
+        }
+        // Other geometry types (lines, bare points) don't describe an area and are skipped
+    });
+
+    if (areas.length === 0) {
+        throw new Error('No Polygon, MultiPolygon or Point-with-radius features found.');
+    }
+    return areas;
+};
@@ -0,0 +1,193 @@
+import type { Metadata, GeoLocation, TagCategory, SidecarExports, CompanyInfo } from '../types';
+import type { Rendition } from './renditions';
+import { RENDITION_FORMATS, FORMAT_COMPATIBILITY_ORDER, pickPrimaryRendition } from './renditions';
+import { escapeXml } from './metadataWriters';
+import { resolveContentUrl, buildImageObject, toJsonLdDocument, toJsonLdScript } from './structuredData';
+
+/**
+ * Sidecars: the CSV/JSON manifests, HTML snippets, sitemap fragment and JSON-LD bundled into the ZIP,
+ * so the SEO copy can be pasted into a CMS instead of copied from each card.
+ */
+
+export const DEFAULT_SIDECAR_EXPORTS: SidecarExports = { csv: false, json: false, html: false, sitemap: false, jsonLd: false, imageBaseUrl: '', contentUrlPattern: '' };
+
+export interface SidecarImage {
+    baseName: string;               // Slug the renditions are named after
+    metadata: Metadata;
+    location: GeoLocation;
+    renditions: Rendition[];
+}
+
+export interface SidecarFile {
+    fileName: string;
+    content: string;
+}
+
+export interface ManifestEntry {
+    filename: string;
+    files: string[];
+    alt: string;
+    caption: string;
+    description: string;
+    tags: string[];
+    tagCategories: TagCategory[];
+    lat: number;
+    lng: number;
+    locationName: string;
+    website: string;
+}
+
+// Business details the JSON-LD creator/copyrightHolder is built from
+export interface SidecarBusiness {
+    companyInfo: CompanyInfo;
+    businessName: string;
+}
+
+const imageUrl = (settings: SidecarExports, fileName: string, location: GeoLocation): string =>
+    resolveContentUrl(settings.contentUrlPattern, settings.imageBaseUrl, fileName, location);
+
+/**
+ * Categories as generated for the image, or otherwise the project's categories narrowed to the image's tags.
+ */
+const resolveTagCategories = (metadata: Metadata, projectCategories: TagCategory[]): TagCategory[] => {
+    if (metadata.tagCategories?.length) return metadata.tagCategories;
+    const tags = new Set(metadata.tags.map(tag => tag.toLowerCase()));
+    return projectCategories
+        .map(category => ({ category: category.category, tags: category.tags.filter(tag => tags.has(tag.toLowerCase())) }))
+        .filter(category => category.tags.length > 0);
+};
+
+export const buildManifestEntries = (images: SidecarImage[], projectCategories: TagCategory[]): ManifestEntry[] =>
+    images.filter(image => image.renditions.length > 0).map(({ metadata, location, renditions }) => ({
+        filename: pickPrimaryRendition(renditions).fileName,
+        files: renditions.map(r => r.fileName),
+        alt: metadata.altText,
+        caption: metadata.caption,
+        description: metadata.description,
+        tags: metadata.tags,
+        tagCategories: resolveTagCategories(metadata, projectCategories),
+        lat: location.lat,
+        lng: location.lng,
+        locationName: location.name || '',
+        website: metadata.website || '',
+    }));
+
+const csvField = (value: string | number): string => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per image. List columns are "; " separated; categories are written as "Category: tag, tag | ...".
+ */
+export const buildManifestCsv = (entries: ManifestEntry[]): string => {
+    const header = ['filename', 'files', 'alt', 'caption', 'description', 'tags', 'tag_categories', 'lat', 'lng', 'location_name', 'website'];
+    const rows = entries.map(entry => [
+        entry.filename,
+        entry.files.join('; '),
+        entry.alt,
+        entry.caption,
+        entry.description,
+        entry.tags.join('; '),
+        entry.tagCategories.map(c => `${c.category}: ${c.tags.join(', ')}`).join(' | '),
+        entry.lat.toFixed(6),
+        entry.lng.toFixed(6),
+        entry.locationName,
+        entry.website,
+    ]);
+    // BOM so Excel opens the file as UTF-8
+    return '\uFEFF' + [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
+
+export const buildManifestJson = (entries: ManifestEntry[]): string =>
+    JSON.stringify({ generatedAt: new Date().toISOString(), images: entries }, null, 2);
+
+const srcset = (renditions: Rendition[], urlFor: (fileName: string) => string): string =>
+    [...renditions].sort((a, b) => a.width - b.width).map(r => `${urlFor(r.fileName)} ${r.width}w`).join(', ');
+
+const buildImageJsonLd = ({ metadata, location, renditions }: SidecarImage, settings: SidecarExports, { companyInfo, businessName }: SidecarBusiness) =>
+    buildImageObject(metadata, location, companyInfo, businessName, imageUrl(settings, pickPrimaryRendition(renditions).fileName, location));
+
+/**
+ * A plain <img> for a single format, or a <picture> with one <source> per extra format
+ * (newest formats first so browsers pick the smallest file they support).
+ */
+export const buildHtmlSnippet = ({ metadata, location, renditions }: SidecarImage, settings: SidecarExports): string => {
+    const urlFor = (fileName: string) => imageUrl(settings, fileName, location);
+    const fallback = pickPrimaryRendition(renditions);
+    const fallbackSet = renditions.filter(r => r.format === fallback.format);
+    const attrs = [
+        `src="${escapeXml(urlFor(fallback.fileName))}"`,
+        fallbackSet.length > 1 ? `srcset="${escapeXml(srcset(fallbackSet, urlFor))}"` : '',
+        fallbackSet.length > 1 ? `sizes="(max-width: ${fallback.width}px) 100vw, ${fallback.width}px"` : '',
+        `alt="${escapeXml(metadata.altText)}"`,
+        `title="${escapeXml(metadata.name)}"`,
+        `width="${fallback.width}"`,
+        `height="${fallback.height}"`,
+        'loading="lazy"',
+        'decoding="async"',
+    ].filter(Boolean).join(' ');
+    const img = `<img ${attrs}>`;
+
+    const sources = [...FORMAT_COMPATIBILITY_ORDER].reverse()
+        .filter(format => format !== fallback.format)
+        .map(format => renditions.filter(r => r.format === format))
+        .filter(set => set.length > 0)
+        .map(set => {
+            const { mimeType } = RENDITION_FORMATS.find(f => f.id === set[0].format)!;
+            const sizes = set.length > 1 ? ` sizes="(max-width: ${fallback.width}px) 100vw, ${fallback.width}px"` : '';
+            return `  <source type="${mimeType}" srcset="${escapeXml(srcset(set, urlFor))}"${sizes}>`;
+        });
+
+    const element = sources.length === 0 ? img : `<picture>\n${sources.join('\n')}\n  ${img}\n</picture>`;
+    return metadata.caption
+        ? `<figure>\n${element}\n<figcaption>${escapeXml(metadata.caption)}</figcaption>\n</figure>\n`
+        : `${element}\n`;
+};
+
+/**
+ * <image:image> entries to paste inside the <url> of the page that shows the images.
+ * Google only reads image:loc now; title, caption and geo_location are kept for other crawlers.
+ */
+export const buildSitemapFragment = (images: SidecarImage[], settings: SidecarExports): string => {
+    const published = images.filter(image => image.renditions.length > 0);
+    const urls = published.map(({ location, renditions }) => imageUrl(settings, pickPrimaryRendition(renditions).fileName, location));
+    const entries = published.map(({ metadata, location }, index) => [
+        '<image:image>',
+        `  <image:loc>${escapeXml(urls[index])}</image:loc>`,
+        `  <image:title>${escapeXml(metadata.name)}</image:title>`,
+        `  <image:caption>${escapeXml(metadata.description || metadata.caption)}</image:caption>`,
+        location.name ? `  <image:geo_location>${escapeXml(location.name)}</image:geo_location>` : '',
+        '</image:image>',
+    ].filter(Boolean).join('\n'));
+
+    return [
+        '<!-- Requires xmlns:image="http://www.google.com/schemas/sitemap-image/1.1" on <urlset>. -->',
+        urls.every(url => /^https?:\/\//i.test(url)) ? '' : '<!-- Set an image base URL before publishing: sitemaps need absolute URLs. -->',
+        ...entries,
+    ].filter(Boolean).join('\n') + '\n';
+};
+
+/**
+ * Every sidecar file enabled in the project's export settings.
+ */
+export const buildSidecarFiles = (images: SidecarImage[], settings: SidecarExports, projectCategories: TagCategory[], business: SidecarBusiness): SidecarFile[] => {
+    const files: SidecarFile[] = [];
+    const published = images.filter(image => image.renditions.length > 0);
+    const entries = buildManifestEntries(images, projectCategories);
+    if (settings.csv) files.push({ fileName: 'manifest.csv', content: buildManifestCsv(entries) });
+    if (settings.json) files.push({ fileName: 'manifest.json', content: buildManifestJson(entries) });
+    if (settings.html) {
+        published.forEach(image => {
+            // With JSON-LD on, each snippet carries its own structured data to paste alongside the image
+            const jsonLd = settings.jsonLd ? `${toJsonLdScript(toJsonLdDocument([buildImageJsonLd(image, settings, business)]))}\n` : '';
+            files.push({ fileName: `html/${image.baseName}.html`, content: buildHtmlSnippet(image, settings) + jsonLd });
+        });
+    }
+    if (settings.sitemap) files.push({ fileName: 'sitemap-images.xml', content: buildSitemapFragment(images, settings) });
+    if (settings.jsonLd && published.length > 0) {
+        const document = toJsonLdDocument(published.map(image => buildImageJsonLd(image, settings, business)));
+        files.push({ fileName: 'structured-data.jsonld', content: JSON.stringify(document, null, 2) });
+    }
+    return files;
+};
@@ -0,0 +1,94 @@
+import type { Metadata, GeoLocation, CompanyInfo, RenditionProfile } from '../types';
+import { getCopyrightNotice } from './metadataWriters';
+import { FORMAT_COMPATIBILITY_ORDER } from './renditions';
+import { slugify } from './textUtils';
+
+/**
+ * Schema.org ImageObject JSON-LD, so the structured data next to each photo matches what is embedded in it.
+ */
+
+export type JsonLd = Record<string, unknown>;
+
+/**
+ * Fills `{{filename}}`, `{{slug}}`, `{{ext}}` and `{{location}}` in the content URL pattern.
+ * A blank pattern falls back to the base URL followed by the file name.
+ */
+export const resolveContentUrl = (pattern: string, baseUrl: string, fileName: string, location: GeoLocation): string => {
+    if (!pattern.trim()) {
+        return baseUrl.trim() ? `${baseUrl.trim().replace(/\/+$/, '')}/${fileName}` : fileName;
+    }
+    const ext = fileName.match(/\.([^.]+)$/)?.[1] || '';
+    const values: Record<string, string> = {
+        filename: fileName,
+        slug: fileName.replace(/\.[^.]+$/, ''),
+        ext,
+        location: slugify(location.name || ''),
+    };
+    return pattern.trim().replace(/\{\{(\w+)\}\}/g, (match, key: string) => values[key] ?? match);
+};
+
+/**
+ * The file name the download will most likely use for the image, before its renditions exist.
+ * Assumes the source is at least as wide as the profile's largest width.
+ */
+export const predictPrimaryFileName = (baseName: string, profile: RenditionProfile): string => {
+    const format = FORMAT_COMPATIBILITY_ORDER.find(f => profile.formats.includes(f)) || 'jpeg';
+    const widths = profile.widths.length > 0 ? profile.widths : [0];
+    return widths.includes(0) ? `${baseName}.${format}` : `${baseName}-${Math.max(...widths)}w.${format}`;
+};
+
+const buildLocalBusiness = (companyInfo: CompanyInfo, businessName: string): JsonLd => ({
+    '@type': 'LocalBusiness',
+    ...(companyInfo.website ? { '@id': `${companyInfo.website.replace(/\/+$/, '')}/#business` } : {}),
+    name: companyInfo.name || businessName,
+    ...(companyInfo.website ? { url: companyInfo.website } : {}),
+    ...(companyInfo.phone ? { telephone: companyInfo.phone } : {}),
+    ...(companyInfo.address ? { address: companyInfo.address } : {}),
+});
+
+const buildPlace = (location: GeoLocation): JsonLd => ({
+    '@type': 'Place',
+    ...(location.name ? { name: location.name } : {}),
+    ...(location.address ? { address: location.address } : {}),
+    geo: {
+        '@type': 'GeoCoordinates',
+        latitude: Number(location.lat.toFixed(6)),
+        longitude: Number(location.lng.toFixed(6)),
+    },
+});
+
+export const buildImageObject = (
+    metadata: Metadata,
+    location: GeoLocation,
+    companyInfo: CompanyInfo,
+    businessName: string,
+    contentUrl: string
+): JsonLd => {
+    const business = buildLocalBusiness(companyInfo, businessName);
+    return {
+        '@type': 'ImageObject',
+        contentUrl,
+        name: metadata.name,
+        caption: metadata.caption,
+        description: metadata.description,
+        ...(metadata.language ? { inLanguage: metadata.language } : {}),
+        ...(metadata.tags.length > 0 ? { keywords: metadata.tags.join(', ') } : {}),
+        contentLocation: buildPlace(location),
+        creator: business,
+        copyrightHolder: business,
+        creditText: business.name,
+        copyrightNotice: getCopyrightNotice(String(business.name)),
+    };
+};
+
+/**
+ * A single image as a standalone document, or a batch as one @graph.
+ */
+export const toJsonLdDocument = (objects: JsonLd[]): JsonLd =>
+    objects.length === 1
+        ? { '@context': 'https://schema.org', ...objects[0] }
+        : { '@context': 'https://schema.org', '@graph': objects };
+
+export const toJsonLdScript = (document: JsonLd): string =>
+    // "</" would end the script element early
+    `<script type="application/ld+json">\n${JSON.stringify(document, null, 2).replace(/<\//g, '<\\/')}\n</script>`;
@@ -0,0 +1,73 @@
+import type { Metadata, TagCategory } from '../types';
+
+/**
+ * Helpers for tags grouped into categories. `Metadata.tags` stays the flat list every writer and
+ * export reads; `Metadata.tagCategories` groups (a subset of) those tags by category.
+ */
+
+// Offered in the category picker; any other name is allowed too
+export const DEFAULT_TAG_CATEGORY_NAMES = ['Service', 'Product', 'Location', 'Industry', 'Feature'];
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Trims names and tags, drops empty ones and merges categories and tags that differ only in case.
+ * The first spelling seen wins.
+ */
+export const normalizeTagCategories = (categories: TagCategory[]): TagCategory[] => {
+    const result: TagCategory[] = [];
+    categories.forEach(({ category, tags }) => {
+        const name = (category || '').trim();
+        if (!name) return;
+        let target = result.find(c => sameText(c.category, name));
+        if (!target) {
+            target = { category: name, tags: [] };
+            result.push(target);
+        }
+        (tags || []).map(tag => String(tag).trim()).filter(Boolean).forEach(tag => {
+            if (!target!.tags.some(t => sameText(t, tag))) target!.tags.push(tag);
+        });
+    });
+    return result.filter(c => c.tags.length > 0);
+};
+
+export const mergeTagCategories = (...lists: (TagCategory[] | undefined)[]): TagCategory[] =>
+    normalizeTagCategories(lists.flatMap(list => list || []));
+
+export const flattenTagCategories = (categories: TagCategory[]): string[] => {
+    const tags: string[] = [];
+    categories.forEach(c => c.tags.forEach(tag => {
+        if (!tags.some(t => sameText(t, tag))) tags.push(tag);
+    }));
+    return tags;
+};
+
+/**
+ * Drops categorized tags that are no longer in the flat list, e.g. after imported tags replaced the AI's.
+ */
+export const syncTagCategories = (categories: TagCategory[], tags: string[]): TagCategory[] =>
+    normalizeTagCategories(categories.map(c => ({ ...c, tags: c.tags.filter(tag => tags.some(t => sameText(t, tag))) })));
+
+export const getUncategorizedTags = (metadata: Metadata): string[] => {
+    const categorized = flattenTagCategories(metadata.tagCategories || []);
+    return metadata.tags.filter(tag => !categorized.some(t => sameText(t, tag)));
+};
+
+/**
+ * Replaces the tags of one category (null for the uncategorized ones) and rebuilds the flat list.
+ */
+export const setCategoryTags = (metadata: Metadata, category: string | null, tags: string[]): Metadata => {
+    const cleaned = tags.map(tag => tag.trim()).filter(Boolean);
+    const uncategorized = category === null ? cleaned : getUncategorizedTags(metadata);
+    const categories = category === null
+        ? metadata.tagCategories || []
+        : (metadata.tagCategories || []).map(c => sameText(c.category, category) ? { ...c, tags: cleaned } : c);
+    const tagCategories = normalizeTagCategories(categories);
+    return { ...metadata, tagCategories, tags: [...new Set([...flattenTagCategories(tagCategories), ...uncategorized])] };
+};
+
+/**
+ * "Category|tag" paths for Lightroom's hierarchical keywords (lr:hierarchicalSubject).
+ */
+export const toHierarchicalKeywords = (categories: TagCategory[]): string[] =>
+    categories.flatMap(c => c.tags.map(tag => `${c.category.replace(/\|/g, '/')}|${tag.replace(/\|/g, '/')}`));
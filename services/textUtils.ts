@@ -0,0 +1,86 @@
+/**
+ * URL- and filename-safe slug. Latin accents are dropped ("Mâcon" → "macon"); other scripts are
+ * kept as they are, so Greek, Cyrillic, CJK or Arabic names don't come out empty.
+ */
+export const slugify = (text: string): string => {
+    return text
+        .toString()
+        .normalize('NFD')
+        .replace(/([a-z])[\u0300-\u036f]+/gi, '$1') // Strip accents from Latin letters
+        .normalize('NFC')               // Recompose the rest (й, Greek tonos, Hangul)
+        .toLowerCase()
+        .trim()
+        .replace(/\s+/g, '-')           // Replace spaces with -
+        .replace(/[^\p{L}\p{M}\p{N}_\-]+/gu, '') // Remove all chars that aren't letters, marks or digits
+        .replace(/\-\-+/g, '-')         // Replace multiple - with single -
+        .replace(/^-+/, '')             // Trim - from start of text
+        .replace(/-+$/, '');            // Trim - from end of text
+};
+
+/**
+ * Makes names unique within a batch, in order: a repeated name gets "-2", "-3", … so files named
+ * after it don't overwrite each other. Returns the unique name for each id.
+ */
+export const dedupeNames = (items: { id: string, name: string }[]): Map<string, string> => {
+    const taken = new Set(items.map(item => item.name));
+    const seen = new Set<string>();
+    const result = new Map<string, string>();
+    items.forEach(({ id, name }) => {
+        let unique = name;
+        // Skip suffixed names that another item already has on its own
+        for (let n = 2; seen.has(unique) || (unique !== name && taken.has(unique)); n++) {
+            unique = `${name}-${n}`;
+        }
+        seen.add(unique);
+        result.set(id, unique);
+    });
+    return result;
+};
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes ("") and newlines inside quotes.
+ * Blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            if (row.some(value => value.trim() !== '')) rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    return rows;
+};
+
+/**
+ * Lower-cases and strips accents so "Mâcon" matches "macon".
+ */
+export const normalizeSearchText = (text: string): string =>
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
@@ -0,0 +1,195 @@
+import type { Metadata, WordPressSettings } from '../types';
+import { slugify } from './textUtils';
+
+/**
+ * Publishes images to a WordPress media library through the REST API (/wp-json/wp/v2/media),
+ * authenticated with an application password (Users → Profile → Application Passwords).
+ */
+
+const PASSWORDS_STORAGE_KEY = 'WORDPRESS_APP_PASSWORDS';
+
+export const DEFAULT_WORDPRESS_SETTINGS: WordPressSettings = { siteUrl: '', username: '' };
+
+export interface PublishFile {
+    blob: Blob;
+    fileName: string;
+    contentHash: string;            // See hashPublishContent
+}
+
+export interface PublishResult {
+    mediaId: number;
+    mediaUrl: string;
+    contentHash: string;
+    warning?: string;               // Published, but the item it replaced couldn't be removed
+}
+
+/**
+ * Fingerprint of what a publish puts in the media library: the image pixels before metadata is
+ * embedded (which stamps the current time), plus the rendition's format and size.
+ */
+export const hashPublishContent = async (source: Blob, rendition: { format: string, width: number, height: number }): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await source.arrayBuffer());
+    const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+    return `${hex}:${rendition.format}:${rendition.width}x${rendition.height}`;
+};
+
+export const normalizeSiteUrl = (siteUrl: string): string => {
+    const trimmed = siteUrl.trim().replace(/\/+$/, '').replace(/\/wp-json$/, '');
+    return trimmed && !/^https?:\/\//i.test(trimmed) ? `https://${trimmed}` : trimmed;
+};
+
+// Passwords are stored per site so switching projects never sends one site's password to another
+const loadPasswords = (): Record<string, string> => {
+    try {
+        return JSON.parse(localStorage.getItem(PASSWORDS_STORAGE_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+export const getWordPressPassword = (siteUrl: string): string => loadPasswords()[normalizeSiteUrl(siteUrl)] || '';
+
+export const saveWordPressPassword = (siteUrl: string, password: string): void => {
+    const passwords = loadPasswords();
+    const key = normalizeSiteUrl(siteUrl);
+    if (!key) return;
+    if (password.trim()) {
+        passwords[key] = password.trim();
+    } else {
+        delete passwords[key];
+    }
+    localStorage.setItem(PASSWORDS_STORAGE_KEY, JSON.stringify(passwords));
+};
+
+const authHeader = (username: string, password: string): string => {
+    // btoa only takes Latin-1; usernames may not be
+    const bytes = new TextEncoder().encode(`${username}:${password}`);
+    return `Basic ${btoa(String.fromCharCode(...bytes))}`;
+};
+
+/**
+ * Thin REST client; WordPress errors ({ code, message }) become readable Error messages.
+ */
+const createClient = (settings: WordPressSettings, password: string) => {
+    const siteUrl = normalizeSiteUrl(settings.siteUrl);
+    if (!siteUrl || !settings.username.trim() || !password.trim()) {
+        throw new Error('Set the WordPress site URL, username and application password first.');
+    }
+    const authorization = authHeader(settings.username.trim(), password.trim());
+
+    return async <T,>(path: string, init: RequestInit = {}): Promise<T> => {
+        // Built outside the try: an invalid header is our bug, not an unreachable site
+        const headers = new Headers(init.headers);
+        headers.set('Authorization', authorization);
+        let response: Response;
+        try {
+            response = await fetch(`${siteUrl}/wp-json/wp/v2/${path}`, { ...init, headers });
+        } catch {
+            throw new Error(`Could not reach ${siteUrl}. Check the URL and that the site allows cross-origin REST requests.`);
+        }
+
+        if (!response.ok) {
+            let message = `WordPress request failed with status ${response.status}`;
+            try {
+                const error = await response.json();
+                message = error.message ? `${error.message} (${error.code || response.status})` : message;
+            } catch {
+                // Non-JSON error body (e.g. a proxy error page); keep the generic message
+            }
+            throw Object.assign(new Error(message), { status: response.status });
+        }
+        return response.json();
+    };
+};
+
+/**
+ * Checks the credentials and returns the display name of the authenticated user.
+ */
+export const testWordPressConnection = async (settings: WordPressSettings, password: string): Promise<string> => {
+    const request = createClient(settings, password);
+    const user = await request<{ name: string }>('users/me?context=edit');
+    return user.name;
+};
+
+const toMediaFields = (metadata: Metadata, slug: string) => ({
+    title: metadata.name,
+    slug,
+    alt_text: metadata.altText,
+    caption: metadata.caption,
+    description: metadata.description,
+});
+
+// Header values must be ASCII: the plain filename is a fallback, WordPress reads the UTF-8 filename* (RFC 5987)
+const contentDisposition = (fileName: string): string => {
+    const fallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '');
+    const encoded = encodeURIComponent(fileName).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+    return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
+
+const isNotFound = (error: unknown): boolean => (error as { status?: number }).status === 404;
+
+/**
+ * Uploads the file and sets title, alt text, caption and description. Re-publishing is idempotent:
+ * the known media ID (or, failing that, an existing item with the same slug) is updated in place
+ * instead of uploading a duplicate. When the image itself changed (reprocessed, re-cropped,
+ * reverted, re-branded or redacted), the media item is replaced, as WordPress can't swap the
+ * file of an existing one: the new file is uploaded and the old item deleted, so no outdated
+ * (possibly unredacted) copy stays public.
+ */
+export const publishToWordPress = async (
+    file: PublishFile,
+    metadata: Metadata,
+    settings: WordPressSettings,
+    password: string,
+    existing?: { mediaId?: number, contentHash?: string }
+): Promise<PublishResult> => {
+    const request = createClient(settings, password);
+    const slug = slugify(metadata.name) || slugify(file.fileName.replace(/\.[^.]+$/, ''));
+    const fields = JSON.stringify(toMediaFields(metadata, slug));
+    const update = async (id: number): Promise<PublishResult> => {
+        const media = await request<{ id: number, source_url: string }>(`media/${id}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: fields,
+        });
+        return { mediaId: media.id, mediaUrl: media.source_url, contentHash: file.contentHash };
+    };
+    const upload = async (replacedId?: number): Promise<PublishResult> => {
+        const uploaded = await request<{ id: number }>('media', {
+            method: 'POST',
+            headers: {
+                'Content-Type': file.blob.type || 'application/octet-stream',
+                'Content-Disposition': contentDisposition(file.fileName),
+            },
+            body: file.blob,
+        });
+        let warning: string | undefined;
+        if (replacedId) {
+            // Media skips the trash; deleting before the fields are set frees the slug for the new item
+            try {
+                await request(`media/${replacedId}?force=true`, { method: 'DELETE' });
+            } catch (error) {
+                // The new item is uploaded either way: keep its ID rather than lose track of it
+                if (!isNotFound(error)) {
+                    console.warn('[WordPress] Could not delete replaced media:', error);
+                    warning = `The previous file (media #${replacedId}) could not be removed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+                }
+            }
+        }
+        const result = await update(uploaded.id);
+        return warning ? { ...result, warning } : result;
+    };
+
+    if (existing?.mediaId) {
+        if (existing.contentHash !== file.contentHash) return upload(existing.mediaId);
+        try {
+            return await update(existing.mediaId);
+        } catch (error) {
+            // Deleted in WordPress since the last publish: fall through and upload again
+            if (!isNotFound(error)) throw error;
+        }
+    }
+
+    // Without a record of our own item, upload a new one; WordPress suffixes the slug if it's taken
+    return upload();
+};
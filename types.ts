@@ -7,8 +7,19 @@ export interface Metadata {
   tags: string[];
   website?: string;              // Company website URL
   tagCategories?: TagCategory[]; // Organized tag structure
+  gbpCategory?: GbpCategory;     // Google Business Profile photo category
+  language?: string;             // BCP 47 code of the fields above (the project's primary language)
+  translations?: Record<string, LocalizedMetadata>; // The same fields in the project's other languages
 }
 
+// Text fields that are generated per language
+export type LocalizedField = 'name' | 'description' | 'altText' | 'caption';
+
+export type LocalizedMetadata = Pick<Metadata, LocalizedField>;
+
+// Photo categories a business can upload to on Google Business Profile
+export type GbpCategory = 'exterior' | 'interior' | 'product' | 'atWork' | 'team' | 'identity';
+
 export interface CompanyInfo {
   name: string;                   // Official company name
   website: string;                // Company website URL
@@ -21,17 +32,310 @@ export interface TagCategory {
   tags: string[];                 // Tags in this category
 }
 
+export interface PromptTemplate {
+  id: string;
+  name: string;                   // Display name, e.g. "Appliance Repair"
+  industry: string;               // Business type used in the prompt, e.g. "appliance repair"
+  subject: string;                // What the photos usually show, e.g. "appliance"
+  subjectRule: string;            // How the AI should name the subject
+  filenamePattern: string;        // e.g. "[brand-name]-[subject-type]-{{businessSlug}}"
+  requiredTags: string[];         // Always merged into the AI tags
+  descriptionKeywords: string[];  // Keywords woven into the SEO description
+  tone: string;                   // Voice of the social caption
+  builtIn?: boolean;              // Shipped preset (can be reset, not deleted)
+}
+
 export interface GeoLocation {
   lat: number;
   lng: number;
   name?: string;
   address?: string;               // Optional full address for geocoding
+  postcode?: string;              // From imported gazetteers, searchable
+  region?: string;                // State / province / county
+}
+
+// How each upload's GPS is chosen
+export type LocationStrategy =
+  | 'original'                    // Keep the photo's own GPS
+  | 'nearestPreset'               // Snap the photo's GPS to the closest preset
+  | 'fixed'                       // The currently selected location
+  | 'random'                      // A random preset per image, jittered
+  | 'serviceArea';                // A random point inside the selected service area
+
+// Region that randomized points are sampled from
+export type ServiceArea = {
+  id: string;
+  name: string;
+  center: { lat: number; lng: number };
+} & (
+  | { kind: 'radius'; radiusKm: number }
+  | { kind: 'polygon'; polygons: [number, number][][][] } // GeoJSON (Multi)Polygon rings, [lng, lat]
+);
+
+export interface LocationSampling {
+  serviceAreaId: string | null;   // Area used by the 'serviceArea' strategy
+  jitterMeters: number;           // Random offset around presets for the 'random' strategy (0 = exact)
+  minSpacingMeters: number;       // Randomized points in a batch stay at least this far apart
 }
 
 export interface ProcessingOptions {
   generateMetadata: boolean;
   enhanceImage: boolean;
   embedExif: boolean;
-  randomizeLocation: boolean;
+  locationStrategy: LocationStrategy; // Photos without GPS fall back to the fixed location
   useManualMetadata: boolean;     // NEW: Override AI with manual input
+  localEnhance: boolean;          // Canvas enhancement; runs before the AI pass when both are on
+  applyBranding: boolean;         // Logo and text watermark, drawn after enhancement
+  redactPrivacy: boolean;         // Blur faces, plates and house numbers before enhancement
+}
+
+export type RedactionTarget = 'face' | 'licensePlate' | 'houseNumber';
+
+export interface RedactionSettings {
+  style: 'blur' | 'pixelate';
+  targets: RedactionTarget[];     // What the vision provider is asked to find
+}
+
+// Area to hide, as fractions of the image size
+export interface RedactionBox {
+  id: string;
+  kind: RedactionTarget | 'manual';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type WatermarkPosition = 'topLeft' | 'topRight' | 'center' | 'bottomLeft' | 'bottomRight';
+
+export type WatermarkTextField = 'name' | 'phone' | 'website';
+
+export interface BrandingSettings {
+  logo: string | null;            // PNG or SVG as a data URL
+  logoName: string;
+  position: WatermarkPosition;
+  scale: number;                  // Logo width, % of the image width
+  opacity: number;                // 0-100
+  margin: number;                 // Distance from the edges, % of the shorter side
+  textFields: WatermarkTextField[]; // Company info joined into a text line under the logo; empty for no text
+}
+
+export type EnhancementPresetId = 'natural' | 'vivid' | 'lowLight' | 'product' | 'custom';
+
+// Strength of each local enhancement step, 0-100 (0 skips the step)
+export interface EnhancementSettings {
+  preset: EnhancementPresetId;    // 'custom' once a slider is moved off the preset
+  whiteBalance: number;
+  exposure: number;
+  levels: number;                 // Auto levels / contrast stretch
+  sharpen: number;
+  denoise: number;
+}
+export type VisionProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderSettings {
+  provider: VisionProviderId;
+  openAiBaseUrl: string;          // e.g. https://api.openai.com/v1 or a local server
+  openAiModel: string;            // Vision/chat model used for metadata
+  openAiImageModel: string;       // Image model used for enhancement and compositing
+}
+
+export interface MetadataStandards {
+  exif: boolean;                  // EXIF IFDs, Windows XP tags and GPS
+  xmp: boolean;                   // XMP packet (Lightroom, WordPress, Google Images)
+  iptc: boolean;                  // IPTC-IIM records in a Photoshop APP13 block
+}
+
+// Groups of the uploaded photo's own EXIF kept when our metadata is embedded
+export interface ExifPreservation {
+  captureDate: boolean;           // DateTimeOriginal / DateTimeDigitized
+  camera: boolean;                // Make, model and lens
+  exposure: boolean;              // Exposure time, aperture, ISO, focal length, flash
+}
+
+// Preservable EXIF read from the upload before processing (piexif IFD -> tag id -> raw value)
+export interface SourceExif {
+  '0th': Record<number, unknown>;
+  Exif: Record<number, unknown>;
+  gps: { lat: number; lng: number } | null; // Where the camera says the photo was taken
+}
+
+export type RenditionFormat = 'jpeg' | 'webp' | 'avif' | 'png';
+
+// Set of files produced per image on download
+export interface RenditionProfile {
+  widths: number[];               // Output widths in px, never upscaled (0 = original size)
+  formats: RenditionFormat[];     // Formats the browser can't encode are skipped
+  quality: number;                // 0-1, lossy formats only
+  maxFileSizeKb: number;          // Lossy formats step quality down to fit (0 = no limit)
+}
+
+// Text files bundled into the ZIP next to the images
+export interface SidecarExports {
+  csv: boolean;                   // manifest.csv, one row per image
+  json: boolean;                  // manifest.json
+  html: boolean;                  // html/<image>.html <img>/<picture> snippets
+  sitemap: boolean;               // sitemap-images.xml <image:image> fragment
+  jsonLd: boolean;                // structured-data.jsonld Schema.org ImageObject graph
+  imageBaseUrl: string;           // Where the images will be hosted (blank = relative paths)
+  contentUrlPattern: string;      // e.g. https://cdn.example.com/{{location}}/{{filename}} (blank = base URL + filename)
+}
+
+// Metadata fields a spreadsheet import can fill
+export type ImportableField = 'name' | 'description' | 'altText' | 'caption' | 'tags' | 'website';
+
+export type ImportedMetadata = Partial<Pick<Metadata, ImportableField>>;
+
+// Per-image metadata imported from CSV/JSON, applied by the Manual Override path
+export interface MetadataImport {
+  sourceName: string;             // Imported file name, for display
+  rows: Record<string, ImportedMetadata>; // Keyed by original filename (see importKey)
+  skipAiWhenComplete: boolean;    // Rows with every field filled skip the AI call
+}
+
+// WordPress site images are published to; the application password is kept in localStorage, not the project
+export interface WordPressSettings {
+  siteUrl: string;                // e.g. https://example.com (REST API at /wp-json/wp/v2)
+  username: string;               // User the application password belongs to
+}
+
+// Where an image was last published, so re-publishing updates the same media item
+export interface PublishRecord {
+  status: 'publishing' | 'published' | 'error';
+  siteUrl: string;
+  mediaId?: number;
+  mediaUrl?: string;              // source_url of the uploaded file
+  contentHash?: string;           // Fingerprint of the uploaded image; a different one replaces the file on re-publish
+  error?: string;
+  warning?: string;               // Published, but the replaced file is still in the media library
+  publishedAt?: number;
+}
+
+export interface QueueSettings {
+  concurrency: number;            // Images processed in parallel
+  requestsPerMinute: number;      // Provider request cap shared by all jobs (0 = unlimited)
+  maxRetries: number;             // Automatic retries on 429/5xx before giving up
+}
+
+export interface LintSettings {
+  blockOnErrors: boolean;         // Leave images with lint errors out of downloads, exports and publishing
+}
+
+// Metadata as read back from a written file
+export interface EmbeddedMetadata {
+  exif: Record<string, string>;   // Tag name -> value, XP tags decoded to text
+  gps: { lat: number; lng: number } | null;
+  xmp: Record<string, string | string[]>;  // Qualified property name -> value or list
+  iptc: Record<string, string | string[]>; // Dataset name -> value, repeated datasets as lists
+}
+
+export interface MetadataCheck {
+  standard: 'EXIF' | 'XMP' | 'IPTC';
+  field: string;
+  expected: string;
+  actual: string | null;
+  status: 'ok' | 'missing' | 'mismatch';
+}
+
+export interface MetadataVerification {
+  checkedAt: number;
+  checks: MetadataCheck[];
+  issueCount: number;             // Checks that are missing or mismatched
+}
+
+// 'duplicate' holds an upload out of the queue until the user keeps or skips it
+export type ImageStatus = 'duplicate' | 'pending' | 'generating' | 'enhancing' | 'embedding' | 'ready' | 'error' | 'cancelled';
+
+// What an upload's perceptual hash matched: another image in the batch, or a photo processed before
+export interface DuplicateMatch {
+  source: 'batch' | 'project';
+  matchId?: string;               // Image in the batch ('batch' only)
+  matchName: string;              // SEO name, or the original file name if not processed yet
+  distance: number;               // Differing hash bits; 0 is the same picture
+  processedAt?: number;           // When the matched photo was processed ('project' only)
+}
+
+// Project-wide record of processed photos, kept after they are removed from the batch
+export interface ImageHashEntry {
+  hash: string;
+  fileName: string;               // Original upload name
+  name: string;                   // SEO name it was processed as
+  processedAt: number;
+}
+
+export interface CropSettings {
+  aspect: number;                 // width / height
+  focalX: number;                 // 0-1 across the image; the crop is centred here as far as the edges allow
+  focalY: number;                 // 0-1 down the image
+  focalSource: 'center' | 'manual' | 'ai';
+}
+
+// Before/after review of an enhanced image
+export interface EnhancementReview {
+  accepted: boolean;              // false embeds and downloads the original upload instead of the enhanced image
+  similarity: number | null;      // 0-1 structural similarity (SSIM) to the original; null when it couldn't be compared
+  worstRegion: number | null;     // Lowest SSIM of any region, which catches local changes such as an altered logo
+}
+
+export interface ProcessedImage {
+  id: string;
+  file: File;
+  previewUrl: string;
+  status: ImageStatus;
+  statusText: string;
+  metadata: Metadata | null;
+  enhancedImage: string | null; // base64 data url
+  finalImageBlob: Blob | null;
+  error: string | null;
+  appliedOptions: ProcessingOptions;
+  appliedLocation: GeoLocation;
+  attempts: number;               // Processing attempts so far, including automatic retries
+  retryAt?: number | null;        // Epoch ms before which a backed-off retry must not start
+  verification?: MetadataVerification | null; // Read-back of the embedded file after processing
+  embedFailures?: (keyof MetadataStandards)[]; // Standards the last embed couldn't write, so the file went out without them
+  sourceExif?: SourceExif | null; // Original camera EXIF (null when the upload had none)
+  publish?: PublishRecord | null; // WordPress media library upload
+  perceptualHash?: string | null; // dHash of the upload (null when it couldn't be decoded)
+  duplicate?: DuplicateMatch | null;
+  enhancement?: EnhancementReview | null; // Set when the image was enhanced (locally or by AI)
+  crop?: CropSettings | null;     // Applied whenever the image is downloaded, exported or published
+  branded?: { crop: CropSettings | null } | null; // Branding drawn into finalImageBlob, inside this crop
+  redactions?: RedactionBox[] | null; // null until detected; edits are kept when the image is reprocessed
+  bakedRedactionIds?: string[];   // Boxes drawn into finalImageBlob before enhancement; boxes added later are applied on output
+  keepMetadata?: boolean;         // Next run only redoes the pixels (a baked box was removed) and keeps the card's metadata
+}
+
+// ProcessedImage as persisted in IndexedDB (object URLs can't outlive the page)
+export interface StoredImage extends Omit<ProcessedImage, 'previewUrl'> {
+  projectId: string;
+  order: number;                  // Position in the batch
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  companyInfo: CompanyInfo;       // Per-project company profile
+  tagCategories: TagCategory[];
+  languages: string[];            // BCP 47 codes for generated text; the first is primary
+  customPresets: GeoLocation[];
+  currentLocation: GeoLocation;
+  serviceAreas: ServiceArea[];
+  locationSampling: LocationSampling;
+  options: ProcessingOptions;
+  queueSettings: QueueSettings;
+  lintSettings: LintSettings;
+  hashIndex: ImageHashEntry[];
+  enhancementSettings: EnhancementSettings;
+  branding: BrandingSettings;
+  redactionSettings: RedactionSettings;
+  metadataStandards: MetadataStandards;
+  exifPreservation: ExifPreservation;
+  renditionProfile: RenditionProfile;
+  sidecarExports: SidecarExports;
+  metadataImport: MetadataImport | null;
+  wordPress: WordPressSettings;
+  promptTemplates: PromptTemplate[];
+  selectedTemplateId: string;
 }